@@ -0,0 +1,938 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { glob } from 'tinyglobby';
+import { filterRelevantChangedFiles } from './changed-files.js';
+import {
+  getCommitDrift,
+  getCurrentBranch,
+  getHeadCommit,
+  type CommitDrift,
+  type RenamedFile,
+} from './git.js';
+import { buildStaticReverseMap } from './graph/bootstrap.js';
+import { deltaParseNewImports } from './graph/builder.js';
+import { loadCachedReverseMap, renameReverseEntries, updateCache } from './graph/cache.js';
+import { isPackageKey, packageKey } from './graph/packages.js';
+import {
+  cacheStorePullKeys,
+  pullCacheFromStore,
+  type CacheStoreKeyContext,
+} from './graph/store.js';
+import { getChangedExports, symbolLevelSeeds, type ModuleImports } from './graph/symbols.js';
+import { readLastFailed } from './last-failed.js';
+import { changedSinceSnapshot, readRunSnapshot, takeRunSnapshot, type RunSnapshot } from './last-run.js';
+import { getChangedLockfilePackages, LOCKFILE_BASENAMES } from './lockfile.js';
+import { getPackageJsonChange } from './package-json.js';
+import type { VitestAffectedOptions } from './plugin.js';
+import { bfsAffectedTests, explainChain, findUnreachedSeeds } from './selector.js';
+import { findFilesImportingAliases, getTsconfigChain, getTsconfigChange } from './tsconfig.js';
+import { resolveChangeSource } from './vcs/index.js';
+
+/**
+ * Config file basenames that, when changed, should trigger a full test suite run.
+ * Changes to these files affect the entire project rather than specific modules.
+ */
+export const CONFIG_BASENAMES: ReadonlySet<string> = new Set([
+  'package.json',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'tsconfig.json',
+  'vitest.config.ts',
+  'vitest.config.js',
+  'vitest.config.mts',
+  'vitest.config.mjs',
+  'vitest.config.cts',
+  'vitest.config.cjs',
+  'vitest.workspace.ts',
+  'vitest.workspace.js',
+  'vitest.workspace.mts',
+  'vitest.workspace.mjs',
+  'vitest.workspace.cts',
+  'vitest.workspace.cjs',
+  'vite.config.ts',
+  'vite.config.js',
+  'vite.config.mts',
+  'vite.config.mjs',
+  'vite.config.cts',
+  'vite.config.cjs',
+]);
+
+export interface ComputeAffectedOptions
+  extends Omit<
+    VitestAffectedOptions,
+    'disabled' | 'statsFile' | 'explainFile' | 'outputFile' | 'dryRun' | 'safety' | 'audit' | 'auditFile'
+  > {
+  /** Project root: changed files and the graph are anchored here. */
+  rootDir: string;
+  /** Test file globs, relative to `projectRoot` (Vitest's `include`). */
+  include: string[];
+  exclude?: string[];
+  /** Setup files; a change to any of them runs the full suite. */
+  setupFiles?: string | string[];
+  /** Directory `include`/`exclude`/`setupFiles` are relative to (default: `rootDir`). */
+  projectRoot?: string;
+  /** Where the graph lives (default: `<rootDir>/.vitest-affected`). */
+  cacheDir?: string;
+  /** Directories runs write into (build output, coverage); the mtime change source skips them. */
+  outputDirs?: string[];
+}
+
+export interface AffectedResult {
+  /**
+   * `selective`: run only `affectedTests` (possibly none, with `allowNoTests`).
+   * `full-suite`: run everything; `reason` says why.
+   */
+  action: 'selective' | 'full-suite';
+  reason?: string;
+  /** Absolute paths of the selected tests (empty for a full suite). */
+  affectedTests: string[];
+  /** Test files matched by `include`, when the selection got that far. */
+  totalTests?: number;
+  /** Changed and deleted files the selection started from (after filtering). */
+  changed: string[];
+  deleted: string[];
+  /** Changed files dropped by the relevance filter. */
+  ignored: string[];
+  /** Shortest chain from a changed file (or `pkg:<name>`) to each affected test. */
+  chains: Record<string, string[]>;
+  /** Changed files that reached no tests. */
+  unreached: string[];
+  /** Tests added by `includeLastFailed` because they have failed since they last passed. */
+  lastFailed?: string[];
+}
+
+/** @internal Fields of a `statsFile` line. */
+export interface AffectedStats {
+  action: string;
+  reason?: string;
+  /** What a dry run or audit would have done (`action: 'dry-run' | 'audit'`). */
+  selection?: AffectedResult['action'];
+  project?: string;
+  changedFiles?: number;
+  staleFiles?: number;
+  driftFiles?: number;
+  deletedFiles?: number;
+  ignoredFiles?: number;
+  affectedTests?: number;
+  totalTests?: number;
+  graphSize?: number;
+  cacheHit?: boolean;
+  cacheStoreKey?: string;
+  changedPackages?: number;
+  aliasSeeds?: number;
+  bootstrapped?: boolean;
+  symbolLevelFiles?: number;
+  lastFailedTests?: number;
+  /** How `ref: 'auto'` found the base (`'none'` when it found nothing). */
+  refStrategy?: string;
+  /** Renamed files whose graph entries moved to the new path. */
+  renamedFiles?: number;
+  /** The change source the changed files came from (`git`, `hg`, `jj`, `mtime`, …). */
+  vcs?: string;
+  /** `since: 'last-run'`: false when there was no usable snapshot and the full diff was used. */
+  sinceLastRun?: boolean;
+  /** Skipped tests the `safety` sample added to a selective run. */
+  sampledTests?: number;
+  /** Sampled tests that failed, root-relative (`action: 'sample-result'`). */
+  sampledFailures?: string[];
+  /** Test files that failed in an audited run (`action: 'audit-result'`). */
+  failedTests?: number;
+  /** Failed test files the selection would have skipped, root-relative (`action: 'audit-result'`). */
+  falseNegatives?: string[];
+  durationMs?: number;
+}
+
+/** @internal A selection plus the stats line describing it (absent when nothing is logged). */
+export interface AffectedDecision extends AffectedResult {
+  stats?: AffectedStats;
+  /** Every test file matched by `include`, when the selection got that far. */
+  testFiles?: string[];
+  /** Renames applied to the in-memory graph, to persist with the next update. */
+  renames?: RenamedFile[];
+  /** `since: 'last-run'`: the change set as selected, to save once the run completes. */
+  runSnapshot?: RunSnapshot;
+}
+
+/**
+ * @internal
+ * The loaded graph. The plugin's runtime reporter and watch filter hold on to
+ * `reverse`, so selection fills it in place (bootstrap) rather than replacing it.
+ */
+export interface AffectedGraph {
+  cacheDir: string;
+  reverse: Map<string, Set<string>>;
+  cacheHit: boolean;
+  stale: string[];
+  /** Commit the graph was saved at. */
+  commit?: string;
+  symbols?: Map<string, ModuleImports>;
+  /** HEAD now; recorded with the graph on save. */
+  headCommit?: string;
+  /** Set when a cache store is configured. */
+  storeKeyContext?: CacheStoreKeyContext;
+  /** Store key the graph was pulled from. */
+  cacheStoreKey?: string;
+}
+
+/** @internal How selection reports itself: warning prefix, timing, store namespace. */
+export interface AffectedContext {
+  label: string;
+  startMs: number;
+  /** Store key namespace for workspace projects, e.g. `projects/web/`. */
+  storeKeyPrefix?: string;
+}
+
+/** A project's test files, absolute, with forward slashes (Vite convention) for Windows compat. */
+async function globTestFiles(
+  include: string[],
+  exclude: string[] | undefined,
+  projectRoot: string,
+): Promise<string[]> {
+  return (await glob(include, {
+    cwd: projectRoot,
+    absolute: true,
+    ignore: [...(exclude ?? []), '**/node_modules/**'],
+  })).map((f) => f.replaceAll('\\', '/'));
+}
+
+/**
+ * Select the tests affected by the current changes, the way the plugin does
+ * before each run: diff against git (or use `changedFiles`), walk the cached
+ * graph, and decide between a selective run and the full suite. Reads and may
+ * write the graph in `cacheDir` (cache store pulls, `bootstrap`) but never
+ * runs tests.
+ */
+export async function computeAffected(options: ComputeAffectedOptions): Promise<AffectedResult> {
+  const context: AffectedContext = { label: '[vitest-affected]', startMs: Date.now() };
+  const graph = await loadAffectedGraph(options, context);
+  const {
+    stats: _stats,
+    testFiles: _testFiles,
+    renames: _renames,
+    runSnapshot: _runSnapshot,
+    ...result
+  } = await selectAffectedTests(options, graph, context);
+  return result;
+}
+
+/**
+ * @internal
+ * Steps 4–4a: load the cached graph, pulling it from the cache store on a
+ * local miss.
+ */
+export async function loadAffectedGraph(
+  options: ComputeAffectedOptions,
+  context: AffectedContext,
+): Promise<AffectedGraph> {
+  const { rootDir } = options;
+  const { label } = context;
+  const verbose = options.verbose ?? false;
+  const cacheDir = options.cacheDir ?? path.join(rootDir, '.vitest-affected');
+
+  // 4. Load cached reverse map (runtime-first: JSON read, no parsing)
+  const graph: AffectedGraph = options.cache !== false
+    ? { cacheDir, ...toGraphFields(loadCachedReverseMap(cacheDir, rootDir, verbose)) }
+    : { cacheDir, reverse: new Map(), cacheHit: false, stale: [] };
+
+  // Recorded with the graph on save; compared with the cached commit below
+  graph.headCommit = (await getHeadCommit(rootDir)) ?? undefined;
+
+  // 4a. Shared cache store: pull on local miss, push after each run
+  const cacheStore = options.cache !== false ? options.cacheStore : undefined;
+  if (cacheStore) {
+    graph.storeKeyContext = {
+      commit: graph.headCommit,
+      branch: (await getCurrentBranch(rootDir)) ?? undefined,
+      fallbackBranch: options.cacheStoreFallbackBranch ?? 'main',
+      prefix: context.storeKeyPrefix ?? '',
+    };
+  }
+  if (cacheStore && graph.storeKeyContext && !graph.cacheHit) {
+    try {
+      const pulled = await pullCacheFromStore(
+        cacheStore, cacheStorePullKeys(graph.storeKeyContext), cacheDir, rootDir,
+      );
+      if (pulled) {
+        Object.assign(graph, toGraphFields(pulled.cached));
+        graph.cacheStoreKey = pulled.key;
+        if (verbose) {
+          console.warn(`${label} Pulled graph from cache store (${pulled.key}) — ${graph.reverse.size} entries`);
+        }
+      } else if (verbose) {
+        console.warn(`${label} No graph in cache store`);
+      }
+    } catch (err) {
+      console.warn(
+        `${label} Cache store pull failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  return graph;
+}
+
+function toGraphFields(
+  cached: ReturnType<typeof loadCachedReverseMap>,
+): Pick<AffectedGraph, 'reverse' | 'cacheHit' | 'stale' | 'commit' | 'symbols'> {
+  return {
+    reverse: cached.reverse,
+    cacheHit: cached.hit,
+    stale: cached.stale,
+    commit: cached.commit,
+    symbols: cached.symbols,
+  };
+}
+
+/**
+ * @internal
+ * Steps 5–16: compute the change set, apply the full-suite rules and walk
+ * the graph.
+ */
+export async function selectAffectedTests(
+  options: ComputeAffectedOptions,
+  graph: AffectedGraph,
+  context: AffectedContext,
+): Promise<AffectedDecision> {
+  const { rootDir } = options;
+  const { label, startMs } = context;
+  const projectRoot = (options.projectRoot ?? rootDir).replaceAll('\\', '/');
+  const verbose = options.verbose ?? false;
+  const { cacheDir, reverse, cacheHit, stale, headCommit, symbols: symbolImports } = graph;
+  const statsExtra: {
+    staleFiles?: number;
+    driftFiles?: number;
+    cacheStoreKey?: string;
+    changedPackages?: number;
+    aliasSeeds?: number;
+    bootstrapped?: boolean;
+    symbolLevelFiles?: number;
+    lastFailedTests?: number;
+    refStrategy?: string;
+    renamedFiles?: number;
+    vcs?: string;
+    sinceLastRun?: boolean;
+  } = graph.cacheStoreKey ? { cacheStoreKey: graph.cacheStoreKey } : {};
+
+  let changed: string[];
+  let deleted: string[];
+  let ignored: string[] = [];
+  let renames: RenamedFile[] = [];
+  let runSnapshot: RunSnapshot | undefined;
+  const decide = (
+    action: AffectedResult['action'],
+    reason: string | undefined,
+    stats?: Omit<AffectedStats, 'action' | 'reason'>,
+    selection: Partial<Pick<AffectedDecision, 'affectedTests' | 'totalTests' | 'testFiles' | 'chains' | 'unreached' | 'lastFailed'>> = {},
+  ): AffectedDecision => ({
+    action,
+    ...(reason ? { reason } : {}),
+    affectedTests: [],
+    chains: {},
+    unreached: [],
+    ...selection,
+    changed,
+    deleted,
+    ignored,
+    ...(stats ? { stats: { action, ...(reason ? { reason } : {}), ...statsExtra, ...stats } } : {}),
+    ...(renames.length > 0 ? { renames } : {}),
+    ...(runSnapshot ? { runSnapshot } : {}),
+  });
+
+  const driftCommit =
+    cacheHit && graph.commit && headCommit && graph.commit !== headCommit
+      ? graph.commit
+      : undefined;
+
+  // 5. Get changed files from the change source, against the detected base
+  // for `ref: 'auto'`
+  const source = resolveChangeSource(rootDir, options.vcs);
+  let ref = options.ref;
+  if (ref === 'auto') {
+    const auto = (await source.resolveAutoRef?.(rootDir)) ?? null;
+    ref = auto?.ref;
+    statsExtra.refStrategy = auto?.strategy ?? 'none';
+    if (!auto) {
+      console.warn(`${label} Could not detect a base ref — comparing against HEAD`);
+    } else if (verbose) {
+      console.warn(`${label} Base ref: ${auto.ref} (${auto.strategy})`);
+    }
+  }
+  let drift: CommitDrift | undefined;
+  const changedFromCaller = options.changedFiles !== undefined;
+
+  if (changedFromCaller) {
+    // Resolve relative paths to rootDir and normalize to forward slashes (Vite convention)
+    const resolved = options.changedFiles!.map((f) =>
+      (path.isAbsolute(f) ? f : path.resolve(rootDir, f)).replaceAll('\\', '/'),
+    );
+    changed = resolved.filter((f) => existsSync(f));
+    deleted = resolved.filter((f) => !existsSync(f));
+  } else {
+    statsExtra.vcs = source.name;
+    const result = await source.getChangedFiles(rootDir, {
+      ref,
+      cacheDir,
+      outputDirs: options.outputDirs,
+      ...(driftCommit ? { sinceCommit: driftCommit } : {}),
+    });
+    changed = result.changed;
+    deleted = result.deleted;
+    drift = result.drift;
+    renames = result.renames;
+  }
+  // Caller-supplied changes and sources other than git report no drift
+  if (driftCommit && !drift) {
+    drift = await getCommitDrift(rootDir, driftCommit);
+    const seen = new Set([...changed, ...deleted]);
+    for (const f of drift.changed) if (!seen.has(f)) changed.push(f);
+    for (const f of drift.deleted) if (!seen.has(f)) deleted.push(f);
+    renames = [...drift.renames, ...renames];
+  }
+
+  // 5a. Cache drift: the graph was recorded at another commit. Its changes
+  // are already merged into changed/deleted as seeds; bail out when the
+  // drift cannot be computed or is too large to trust the graph.
+  if (drift) {
+    const driftCount = drift.changed.length + drift.deleted.length;
+    statsExtra.driftFiles = driftCount;
+    if (!drift.reachable) {
+      console.warn(
+        `${label} Cache was built at ${drift.commit.slice(0, 12)}, which is not reachable from this clone — running full suite`,
+      );
+      return decide('full-suite', 'cache-commit-unreachable', {
+        graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+      });
+    }
+    const maxDrift = options.maxCacheDrift ?? Infinity;
+    if (driftCount > maxDrift) {
+      console.warn(
+        `${label} ${driftCount} file(s) changed since the cache was built (limit ${maxDrift}) — running full suite`,
+      );
+      return decide('full-suite', 'cache-drift-exceeded', {
+        graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+      });
+    }
+    if (verbose && driftCount > 0) {
+      console.warn(
+        `${label} ${driftCount} file(s) changed since the cache was built at ${drift.commit.slice(0, 12)} — adding as BFS seeds`,
+      );
+    }
+  }
+
+  // 5b. Since last run: keep only the changes whose content differs from
+  // what the last completed run saw. Candidates are the current diff, the
+  // files the snapshot recorded, and commits made since it was taken. The
+  // current diff is snapshotted for the plugin to save once this run completes.
+  if (options.since === 'last-run' && !changedFromCaller) {
+    const previous = readRunSnapshot(cacheDir, rootDir);
+    runSnapshot = takeRunSnapshot([...changed, ...deleted], previous, headCommit);
+    let candidates: string[] | undefined;
+    if (previous) {
+      candidates = [...changed, ...deleted, ...previous.files.keys()];
+      if (previous.commit && headCommit && previous.commit !== headCommit) {
+        const committed = await getCommitDrift(rootDir, previous.commit);
+        candidates = committed.reachable
+          ? [...candidates, ...committed.changed, ...committed.deleted]
+          : undefined;
+      }
+    }
+    statsExtra.sinceLastRun = candidates !== undefined;
+    if (candidates) {
+      const sinceLastRun = changedSinceSnapshot([...new Set(candidates)], previous!);
+      changed = sinceLastRun.filter((f) => existsSync(f));
+      deleted = sinceLastRun.filter((f) => !existsSync(f));
+      if (verbose) console.warn(`${label} ${sinceLastRun.length} file(s) changed since the last run`);
+    } else {
+      console.warn(`${label} No usable snapshot of the last run — selecting from the full diff`);
+    }
+  }
+
+  // 5c. Renames: move the old path's graph history (as a source and as a
+  // test) to the new path, so a renamed module or test is still connected
+  const renamedFiles = renameReverseEntries(reverse, renames);
+  if (renamedFiles > 0) {
+    statsExtra.renamedFiles = renamedFiles;
+    if (verbose) {
+      console.warn(`${label} ${renamedFiles} renamed file(s) — moved their graph entries to the new path`);
+    }
+  }
+
+  // 5d. Filter irrelevant changed/deleted files before any graph analysis.
+  // Caller-provided changedFiles still get filtered unless explicitly opted out.
+  if (!(changedFromCaller && options.respectProvidedChangedFiles)) {
+    const filtered = filterRelevantChangedFiles(
+      { changed, deleted },
+      rootDir,
+      {
+        ignoreChangedFiles: options.ignoreChangedFiles,
+        includeChangedExtensions: options.includeChangedExtensions,
+        configBasenames: CONFIG_BASENAMES,
+      },
+    );
+    ignored = filtered.ignored;
+    changed = filtered.changed;
+    deleted = filtered.deleted;
+    if (verbose && ignored.length > 0) {
+      console.warn(
+        `${label} ignored ${ignored.length} changed file(s) before graph analysis`,
+      );
+    }
+  }
+  const ignoredCount = ignored.length;
+
+  // 5e. Stale cache entries: files whose content changed since the graph
+  // was recorded without git noticing (generated code, branch switches,
+  // `git stash pop`). They join the change set as extra BFS seeds.
+  if (stale.length > 0) {
+    const seen = new Set([...changed, ...deleted]);
+    let staleCount = 0;
+    for (const f of stale) {
+      if (seen.has(f)) continue;
+      staleCount++;
+      if (existsSync(f)) changed.push(f);
+      else deleted.push(f);
+    }
+    if (staleCount > 0) {
+      statsExtra.staleFiles = staleCount;
+      if (verbose) {
+        console.warn(
+          `${label} ${staleCount} file(s) changed since the graph was recorded — adding as BFS seeds`,
+        );
+      }
+    }
+  }
+
+  // 6. No changes check — run full suite. Nothing changed since the last
+  // run means nothing needs to run again, except tests that failed then.
+  if (changed.length === 0 && deleted.length === 0) {
+    if (statsExtra.sinceLastRun) {
+      const testFiles = options.include.length > 0
+        ? await globTestFiles(options.include, options.exclude, projectRoot)
+        : [];
+      const testFileSet = new Set(testFiles);
+      const lastFailed = options.includeLastFailed
+        ? readLastFailed(cacheDir, rootDir).filter((t) => testFileSet.has(t))
+        : [];
+      if (lastFailed.length > 0) statsExtra.lastFailedTests = lastFailed.length;
+      if (verbose) {
+        console.warn(
+          `${label} Nothing changed since the last run` +
+            (lastFailed.length > 0 ? ` — rerunning ${lastFailed.length} test file(s) that failed` : ''),
+        );
+      }
+      return decide('selective', 'no-changes-since-last-run', {
+        changedFiles: 0, deletedFiles: 0, ignoredFiles: ignoredCount,
+        affectedTests: lastFailed.length, totalTests: testFiles.length,
+        graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+      }, {
+        affectedTests: lastFailed,
+        totalTests: testFiles.length,
+        testFiles,
+        ...(lastFailed.length > 0 ? { lastFailed } : {}),
+      });
+    }
+    return decide('full-suite', 'no-changes', {
+      changedFiles: 0, deletedFiles: 0, ignoredFiles: ignoredCount,
+      graphSize: reverse.size,
+      durationMs: Date.now() - startMs,
+    });
+  }
+
+  // 7. Deleted file handling — treat as BFS seeds
+  if (deleted.length > 0 && verbose) {
+    console.warn(
+      `${label} ${deleted.length} deleted file(s) — will include as BFS seeds`,
+    );
+  }
+
+  // 8. Force-rerun check: config file or setupFiles changes → full suite.
+  // Edited (not deleted) lockfiles, package.json and tsconfig.json files
+  // are analysed in 8a/8b instead.
+  const allChangedFiles = [...changed, ...deleted];
+  const configChanges = allChangedFiles.filter((f) =>
+    CONFIG_BASENAMES.has(path.basename(f)),
+  );
+  const lockfileChanges = changed.filter((f) =>
+    LOCKFILE_BASENAMES.has(path.basename(f)),
+  );
+  const manifestChanges = changed.filter((f) => path.basename(f) === 'package.json');
+  const tsconfigChanges = changed.filter((f) => path.basename(f) === 'tsconfig.json');
+  const hasConfigChange = configChanges.length >
+    lockfileChanges.length + manifestChanges.length + tsconfigChanges.length;
+  if (hasConfigChange) {
+    console.warn(
+      `${label} Config file change detected — running full suite`,
+    );
+    return decide('full-suite', 'config-change', {
+      changedFiles: changed.length, deletedFiles: deleted.length,
+      ignoredFiles: ignoredCount,
+      graphSize: reverse.size, durationMs: Date.now() - startMs,
+    });
+  }
+
+  const setupFilesRaw = options.setupFiles ?? [];
+  const setupFileSet = new Set(
+    (Array.isArray(setupFilesRaw) ? setupFilesRaw : [setupFilesRaw]).map(
+      (f) => (path.isAbsolute(f) ? f : path.resolve(projectRoot, f)).replaceAll('\\', '/'),
+    ),
+  );
+  const hasSetupFileChange = allChangedFiles.some((f) => setupFileSet.has(f));
+  if (hasSetupFileChange) {
+    console.warn(
+      `${label} Setup file change detected — running full suite`,
+    );
+    return decide('full-suite', 'setup-file-change', {
+      changedFiles: changed.length, deletedFiles: deleted.length,
+      ignoredFiles: ignoredCount,
+      graphSize: reverse.size, durationMs: Date.now() - startMs,
+    });
+  }
+
+  // 8a. Cache miss + `bootstrap` → walk the test files' imports into a
+  // provisional static graph so the first run can still be selective.
+  // It is saved before the run; the runtime reporter then replaces each
+  // executed test's static edges with what it actually loaded.
+  let graphReady = cacheHit;
+  if (!cacheHit && options.bootstrap && options.include.length > 0) {
+    try {
+      const bootstrapStart = Date.now();
+      const testFiles = await globTestFiles(options.include, options.exclude, projectRoot);
+      const staticReverse = await buildStaticReverseMap(testFiles, rootDir, {
+        workers: options.bootstrapWorkers,
+      });
+      const built = options.cache !== false
+        ? await updateCache(cacheDir, rootDir, staticReverse, { commit: headCommit })
+        : staticReverse;
+      // Fill in place: the watch filter holds a reference to this map
+      for (const [file, tests] of built) reverse.set(file, tests);
+      graphReady = true;
+      statsExtra.bootstrapped = true;
+      if (verbose) {
+        console.warn(
+          `${label} Bootstrapped static graph from ${testFiles.length} test file(s) — ` +
+            `${reverse.size} entries in ${Date.now() - bootstrapStart}ms`,
+        );
+      }
+    } catch (err) {
+      console.warn(
+        `${label} Static bootstrap failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  // The root tsconfig.json is also analysed when a config it extends
+  // (e.g. tsconfig.base.json) changed.
+  const rootTsconfig = path.join(rootDir, 'tsconfig.json').replaceAll('\\', '/');
+  const tsconfigTargets = [...tsconfigChanges];
+  if (graphReady && !tsconfigTargets.includes(rootTsconfig) && changed.some((f) => f.endsWith('.json'))) {
+    const chain = await getTsconfigChain(rootTsconfig);
+    if (changed.some((f) => chain.includes(f))) tsconfigTargets.push(rootTsconfig);
+  }
+
+  const analyzedConfigs = lockfileChanges.length + manifestChanges.length + tsconfigTargets.length;
+  const needsBase = analyzedConfigs > 0 || (options.symbolLevel && symbolImports && changed.length > 0);
+  const base = needsBase && graphReady ? (await source.baseRevision?.(rootDir, ref)) ?? null : null;
+  const bases = [base, driftCommit].filter((b): b is string => !!b);
+
+  // 8b. Dependency changes → seed BFS with the packages whose resolved
+  // versions (lockfiles) or declared ranges (package.json) changed, via
+  // runtime pkg:<name> edges. Cache misses fall through to step 9.
+  const changedPackages = new Set<string>();
+  if (lockfileChanges.length + manifestChanges.length > 0 && graphReady) {
+    let dependencyReason: string | undefined;
+    let fullSuiteFields: string[] = [];
+
+    for (const lockfile of lockfileChanges) {
+      const packages = base ? await getChangedLockfilePackages(rootDir, lockfile, bases, source) : null;
+      if (packages === null) {
+        dependencyReason = 'lockfile-unanalyzable';
+        break;
+      }
+      for (const name of packages) changedPackages.add(name);
+    }
+
+    for (const manifest of dependencyReason ? [] : manifestChanges) {
+      const change = base ? await getPackageJsonChange(rootDir, manifest, bases, source) : null;
+      if (change === null) {
+        dependencyReason = 'package-json-unanalyzable';
+        break;
+      }
+      if (change.fullSuiteFields.length > 0) {
+        dependencyReason = 'package-json-change';
+        fullSuiteFields = change.fullSuiteFields;
+        break;
+      }
+      for (const name of change.packages) changedPackages.add(name);
+    }
+
+    if (!dependencyReason && changedPackages.size > 0 && ![...reverse.keys()].some(isPackageKey)) {
+      // Graph predates package-level edges
+      dependencyReason = 'dependency-change-no-package-edges';
+    }
+
+    if (dependencyReason) {
+      console.warn(
+        dependencyReason === 'package-json-change'
+          ? `${label} package.json change to ${fullSuiteFields.join(', ')} — running full suite`
+          : `${label} Dependency change could not be mapped to packages — running full suite`,
+      );
+      return decide('full-suite', dependencyReason, {
+        changedFiles: changed.length, deletedFiles: deleted.length,
+        ignoredFiles: ignoredCount,
+        graphSize: reverse.size, durationMs: Date.now() - startMs,
+      });
+    }
+    statsExtra.changedPackages = changedPackages.size;
+    if (verbose) {
+      console.warn(
+        `${label} Dependency change: ${changedPackages.size} package(s) changed` +
+          (changedPackages.size > 0 ? ` (${[...changedPackages].join(', ')})` : ''),
+      );
+    }
+  }
+  const packageSeeds = [...changedPackages].map(packageKey);
+
+  // 8c. tsconfig.json changes → when only `paths`/`baseUrl` changed, seed
+  // BFS from the files whose import specifiers match a changed alias.
+  // Options that change how modules are transformed → full suite.
+  const aliasSeeds: string[] = [];
+  if (tsconfigTargets.length > 0 && graphReady) {
+    let tsconfigReason: string | undefined;
+    let fullSuiteOptions: string[] = [];
+    const aliases = new Set<string>();
+    let baseUrlChanged = false;
+    for (const tsconfig of tsconfigTargets) {
+      const change = base ? await getTsconfigChange(rootDir, tsconfig, bases, source) : null;
+      if (change === null) {
+        tsconfigReason = 'tsconfig-unanalyzable';
+        break;
+      }
+      if (change.fullSuiteOptions.length > 0) {
+        tsconfigReason = 'tsconfig-change';
+        fullSuiteOptions = change.fullSuiteOptions;
+        break;
+      }
+      for (const alias of change.aliases) aliases.add(alias);
+      baseUrlChanged ||= change.baseUrlChanged;
+    }
+
+    if (tsconfigReason) {
+      console.warn(
+        tsconfigReason === 'tsconfig-change'
+          ? `${label} tsconfig.json change to ${fullSuiteOptions.join(', ')} — running full suite`
+          : `${label} tsconfig.json change could not be analysed — running full suite`,
+      );
+      return decide('full-suite', tsconfigReason, {
+        changedFiles: changed.length, deletedFiles: deleted.length,
+        ignoredFiles: ignoredCount,
+        graphSize: reverse.size, durationMs: Date.now() - startMs,
+      });
+    }
+
+    // Every project file the graph knows: imported modules and the tests
+    const graphFiles = new Set<string>();
+    for (const [file, tests] of reverse) {
+      if (!isPackageKey(file)) graphFiles.add(file);
+      for (const t of tests) graphFiles.add(t);
+    }
+    aliasSeeds.push(...findFilesImportingAliases(graphFiles, { aliases: [...aliases], baseUrlChanged }));
+    statsExtra.aliasSeeds = aliasSeeds.length;
+    if (verbose) {
+      console.warn(
+        `${label} tsconfig.json change: ${aliases.size} alias(es) changed` +
+          (baseUrlChanged ? ', baseUrl moved' : '') +
+          ` — ${aliasSeeds.length} importing file(s) seeded`,
+      );
+    }
+  }
+
+  // 9. Cache miss → full suite (first run collects runtime data)
+  if (!graphReady) {
+    if (verbose) {
+      console.warn(
+        `${label} No cached runtime graph — running full suite (will populate cache after run)`,
+      );
+    }
+    return decide('full-suite', 'cache-miss', {
+      changedFiles: changed.length, deletedFiles: deleted.length,
+      ignoredFiles: ignoredCount,
+      graphSize: 0, cacheHit: false,
+      durationMs: Date.now() - startMs,
+    });
+  }
+
+  // 10. Delta parse: find new imports in changed files not yet in cache
+  const extraSeeds = deltaParseNewImports(changed, reverse, rootDir, verbose);
+  const bfsSeeds = [...allChangedFiles, ...extraSeeds, ...packageSeeds, ...aliasSeeds];
+
+  // 11. Glob test files using the include patterns
+  if (options.include.length === 0) {
+    console.warn(
+      `${label} No include patterns configured — running full suite`,
+    );
+    return decide('full-suite', 'no-include-patterns');
+  }
+
+  const testFiles = await globTestFiles(options.include, options.exclude, projectRoot);
+
+  if (testFiles.length === 0) {
+    console.warn(
+      `${label} No test files matched include patterns — running full suite`,
+    );
+    return decide('full-suite', 'no-test-files');
+  }
+
+  const testFileSet = new Set(testFiles);
+  const isTestFile = (f: string) => testFileSet.has(f);
+
+  // 11a. Symbol-level: a changed module whose changed exports can be
+  // pinpointed seeds only the importers that consume them (plus tests
+  // that reach it some other way) instead of every test that loads it.
+  let selectionSeeds = bfsSeeds;
+  const narrowed = new Map<string, string[]>();
+  if (options.symbolLevel && symbolImports && base) {
+    for (const file of changed) {
+      if (isTestFile(file) || !reverse.has(file) || !/\.[cm]?[jt]sx?$/.test(file)) continue;
+      const changedExports = await getChangedExports(rootDir, file, bases, source);
+      if (changedExports) {
+        narrowed.set(file, symbolLevelSeeds(file, changedExports, reverse, symbolImports, isTestFile));
+      }
+    }
+    if (narrowed.size > 0) {
+      selectionSeeds = bfsSeeds.flatMap((f) => narrowed.get(f) ?? [f]);
+      statsExtra.symbolLevelFiles = narrowed.size;
+      if (verbose) {
+        console.warn(`${label} Symbol-level: ${narrowed.size} changed file(s) narrowed to their changed exports`);
+      }
+    }
+  }
+
+  // 12. BFS: find affected tests
+  const parents = new Map<string, string>();
+  const affectedTests = bfsAffectedTests(selectionSeeds, reverse, isTestFile, parents);
+
+  // 12a. Explain: shortest chain from a changed file to each selected
+  // test, and the changed files that reached none
+  // Symbol-level seeds are importers of a changed file; start from the file
+  const origins = new Map<string, string>();
+  for (const [file, seeds] of narrowed) {
+    for (const seed of seeds) origins.set(seed, file);
+  }
+  const chains: Record<string, string[]> = {};
+  for (const test of affectedTests) {
+    const chain = explainChain(test, parents);
+    const origin = origins.get(chain[0]!);
+    chains[test] = origin ? [origin, ...chain] : chain;
+  }
+  // Dependency and tsconfig changes reach tests through their package
+  // and alias seeds, not through the file itself
+  const candidates = allChangedFiles.filter((f) => !CONFIG_BASENAMES.has(path.basename(f)));
+  const unreachedSeeds = new Set(findUnreachedSeeds(
+    [...new Set(candidates.flatMap((f) => narrowed.get(f) ?? [f]))],
+    reverse,
+    isTestFile,
+  ));
+  const unreached = candidates
+    .filter((f) => (narrowed.get(f) ?? [f]).every((seed) => unreachedSeeds.has(seed)));
+
+  if (verbose) {
+    const rel = (f: string) =>
+      isPackageKey(f) ? f : path.relative(rootDir, f).replaceAll('\\', '/');
+    for (const [test, chain] of Object.entries(chains)) {
+      const route = chain.length > 1 ? chain.slice(0, -1).reverse().map(rel).join(' ← ') : 'changed';
+      console.warn(`${label} ${rel(test)} ← ${route}`);
+    }
+    if (unreached.length > 0) {
+      console.warn(`${label} ${unreached.length} changed file(s) reached no tests: ${unreached.map(rel).join(', ')}`);
+    }
+  }
+
+  // 12b. Last failed: tests that failed before stay selected until they pass
+  const lastFailed: string[] = [];
+  if (options.includeLastFailed) {
+    const selected = new Set(affectedTests);
+    lastFailed.push(...readLastFailed(cacheDir, rootDir).filter((t) => isTestFile(t) && !selected.has(t)));
+    if (lastFailed.length > 0) {
+      affectedTests.push(...lastFailed);
+      statsExtra.lastFailedTests = lastFailed.length;
+      if (verbose) {
+        console.warn(`${label} Including ${lastFailed.length} test file(s) that failed last time`);
+      }
+    }
+  }
+
+  // 13. Threshold check
+  if (affectedTests.length === 0) {
+    const stats = {
+      changedFiles: changed.length, deletedFiles: deleted.length,
+      ignoredFiles: ignoredCount,
+      affectedTests: 0, totalTests: testFiles.length,
+      graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+    };
+    const selection = { totalTests: testFiles.length, testFiles, unreached };
+    return options.allowNoTests
+      ? decide('selective', 'allow-no-tests', stats, selection)
+      : decide('full-suite', 'no-affected-tests', stats, selection);
+  }
+
+  const ratio = affectedTests.length / testFiles.length;
+  const threshold = options.threshold ?? 1.0;
+  if (ratio > threshold) {
+    console.warn(
+      `${label} Threshold exceeded (${affectedTests.length}/${testFiles.length} = ${(ratio * 100).toFixed(1)}%) — running full suite`,
+    );
+    return decide('full-suite', 'threshold-exceeded', {
+      changedFiles: changed.length, deletedFiles: deleted.length,
+      ignoredFiles: ignoredCount,
+      affectedTests: affectedTests.length, totalTests: testFiles.length,
+      graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+    }, { totalTests: testFiles.length, chains, unreached });
+  }
+
+  // 14. Verbose summary: count of changed files not in graph (was per-file warning)
+  if (verbose) {
+    const notInGraph = changed.filter((f) => !reverse.has(f)).length;
+    if (notInGraph > 0) {
+      console.warn(
+        `${label} ${notInGraph} changed file(s) not in dependency graph (delta-parsed for new imports)`,
+      );
+    }
+  }
+
+  // 15. existsSync filter — warn on missing
+  const validTests = affectedTests.filter((f) => {
+    if (!existsSync(f)) {
+      console.warn(
+        `${label} Affected test file not found on disk: ${f}`,
+      );
+      return false;
+    }
+    return true;
+  });
+
+  // 16. Selective run over the tests that exist
+  if (validTests.length === 0) {
+    return decide('full-suite', 'no-valid-tests-on-disk', {
+      changedFiles: changed.length, deletedFiles: deleted.length,
+      ignoredFiles: ignoredCount,
+      affectedTests: 0, totalTests: testFiles.length,
+      graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+    }, { totalTests: testFiles.length, chains, unreached });
+  }
+  return decide('selective', undefined, {
+    changedFiles: changed.length, deletedFiles: deleted.length,
+    ignoredFiles: ignoredCount,
+    affectedTests: validTests.length, totalTests: testFiles.length,
+    graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
+  }, {
+    affectedTests: validTests,
+    totalTests: testFiles.length,
+    testFiles,
+    chains: Object.fromEntries(Object.entries(chains).filter(([test]) => validTests.includes(test))),
+    unreached,
+    ...(lastFailed.length > 0 ? { lastFailed } : {}),
+  });
+}
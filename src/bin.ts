@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { runCli } from './cli.js';
+
+runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  out: (line) => console.log(line),
+  err: (line) => console.error(line),
+}).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,403 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  loadAffectedGraph,
+  selectAffectedTests,
+  type AffectedContext,
+  type AffectedDecision,
+  type ComputeAffectedOptions,
+} from './affected.js';
+import { loadCachedReverseMap, readCacheFileSync, removeCacheFileSync } from './graph/cache.js';
+import { isPackageKey } from './graph/packages.js';
+import { resolveCacheDir } from './plugin.js';
+import { bfsAffectedTests } from './selector.js';
+import { VCS_NAMES, type VcsName } from './vcs/index.js';
+
+/** Where the CLI writes: lines to stdout and stderr, plus the working directory. */
+export interface CliIo {
+  cwd: string;
+  out: (line: string) => void;
+  err: (line: string) => void;
+}
+
+const USAGE = `Usage: vitest-affected <command> [options]
+
+Commands:
+  list                  Print the tests affected by the current changes
+  why <test>            Show the chain from a changed file to <test>
+  deps <file>           Print the tests that load <file> (or pkg:<name>)
+  cache info            Summarise the cached graph
+  cache clear           Delete the cached graph
+  cache verify          Check the cached graph against the working tree
+  stats                 Summarise the stats file
+
+Options:
+  --root <dir>          Project root (default: current directory)
+  --ref <ref>           Compare against a ref, or 'auto' to detect one (list, why)
+  --vcs <name>          Change source: auto, git, hg, jj or mtime (default: auto)
+  --include <glob>      Test file glob, repeatable (default: Vitest's include) (list, why)
+  --exclude <glob>      Excluded test file glob, repeatable (default: Vitest's exclude)
+  --setup-file <path>   Setup file whose changes run the full suite, repeatable
+  --project <name>      Use a workspace project's graph
+  --stats-file <path>   Stats file (default: .vitest-affected/stats.jsonl)
+  --json                Print JSON instead of text
+  -h, --help            Show this help`;
+
+/** Vitest's default `include` and `exclude`, used when no globs are passed. */
+const DEFAULT_INCLUDE = ['**/*.{test,spec}.?(c|m)[jt]s?(x)'];
+const DEFAULT_EXCLUDE = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/cypress/**',
+  '**/.{idea,git,cache,output,temp}/**',
+  '**/{karma,rollup,webpack,vite,vitest,jest,ava,babel,nyc,cypress,tsup,build,eslint,prettier}.config.*',
+];
+
+interface CliContext {
+  rootDir: string;
+  cacheDir: string;
+  values: {
+    ref?: string;
+    vcs?: string;
+    include?: string[];
+    exclude?: string[];
+    'setup-file'?: string[];
+    'stats-file'?: string;
+    json?: boolean;
+  };
+  io: CliIo;
+}
+
+/**
+ * Run the `vitest-affected` command line. Returns the process exit code:
+ * 0 on success, 1 when a check fails (e.g. `cache verify` on a stale graph),
+ * 2 on usage errors.
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        root: { type: 'string' },
+        ref: { type: 'string' },
+        vcs: { type: 'string' },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        'setup-file': { type: 'string', multiple: true },
+        project: { type: 'string' },
+        'stats-file': { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    io.err(err instanceof Error ? err.message : String(err));
+    io.err(USAGE);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, arg] = positionals;
+  if (values.help || !command) {
+    (values.help ? io.out : io.err)(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  if (values.vcs !== undefined && values.vcs !== 'auto' && !VCS_NAMES.includes(values.vcs as VcsName)) {
+    io.err(`Unknown --vcs: ${values.vcs} (expected auto, ${VCS_NAMES.join(', ')})`);
+    return 2;
+  }
+
+  const rootDir = path.resolve(io.cwd, values.root ?? '.').replaceAll('\\', '/');
+  const ctx: CliContext = {
+    rootDir,
+    cacheDir: resolveCacheDir(rootDir, values.project ?? '', values.project !== undefined),
+    values,
+    io,
+  };
+
+  try {
+    switch (command) {
+      case 'list':
+        return await listCommand(ctx);
+      case 'why':
+        if (!arg) break;
+        return await whyCommand(ctx, arg);
+      case 'deps':
+        if (!arg) break;
+        return depsCommand(ctx, arg);
+      case 'cache':
+        if (arg === 'info') return cacheInfoCommand(ctx);
+        if (arg === 'clear') return cacheClearCommand(ctx);
+        if (arg === 'verify') return cacheVerifyCommand(ctx);
+        break;
+      case 'stats':
+        return statsCommand(ctx);
+    }
+  } catch (err) {
+    io.err(`[vitest-affected] ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+
+  io.err(`Unknown or incomplete command: ${positionals.join(' ')}`);
+  io.err(USAGE);
+  return 2;
+}
+
+function relative(rootDir: string, file: string): string {
+  return isPackageKey(file) ? file : path.relative(rootDir, file).replaceAll('\\', '/');
+}
+
+function absolute(rootDir: string, file: string): string {
+  return isPackageKey(file) ? file : path.resolve(rootDir, file).replaceAll('\\', '/');
+}
+
+function reportMissingGraph(ctx: CliContext): null {
+  ctx.io.err(`[vitest-affected] No cached graph in ${relative(ctx.rootDir, ctx.cacheDir)} — run Vitest with the plugin first`);
+  return null;
+}
+
+/** Load the graph, or report a miss and return null. */
+function loadGraph(ctx: CliContext) {
+  const cached = loadCachedReverseMap(ctx.cacheDir, ctx.rootDir);
+  if (!cached.hit) return reportMissingGraph(ctx);
+  return cached;
+}
+
+/** Tests known to the graph. */
+function testFilePredicate(reverse: Map<string, Set<string>>): (file: string) => boolean {
+  const tests = new Set<string>();
+  for (const dependents of reverse.values()) {
+    for (const test of dependents) tests.add(test);
+  }
+  return (file) => tests.has(file);
+}
+
+/**
+ * Run the plugin's selection engine against the cached graph, with the
+ * test globs and setup files from the command line. Null when there is no graph.
+ */
+async function selectTests(ctx: CliContext): Promise<AffectedDecision | null> {
+  const options: ComputeAffectedOptions = {
+    rootDir: ctx.rootDir,
+    cacheDir: ctx.cacheDir,
+    include: ctx.values.include ?? DEFAULT_INCLUDE,
+    exclude: ctx.values.exclude ?? DEFAULT_EXCLUDE,
+    setupFiles: ctx.values['setup-file'],
+    ref: ctx.values.ref,
+    vcs: (ctx.values.vcs ?? 'auto') as 'auto' | VcsName,
+    // Vite's and Vitest's default output directories, as the plugin skips them
+    outputDirs: ['dist', 'coverage'].map((dir) => absolute(ctx.rootDir, dir)),
+  };
+  const context: AffectedContext = { label: '[vitest-affected]', startMs: Date.now() };
+  const graph = await loadAffectedGraph(options, context);
+  if (!graph.cacheHit) return reportMissingGraph(ctx);
+  return selectAffectedTests(options, graph, context);
+}
+
+async function listCommand(ctx: CliContext): Promise<number> {
+  const decision = await selectTests(ctx);
+  if (!decision) return 1;
+  const tests = decision.affectedTests.map((f) => relative(ctx.rootDir, f));
+
+  if (ctx.values.json) {
+    ctx.io.out(JSON.stringify({
+      action: decision.action,
+      ...(decision.reason ? { reason: decision.reason } : {}),
+      changedFiles: [...decision.changed, ...decision.deleted].map((f) => relative(ctx.rootDir, f)).sort(),
+      tests,
+      unreached: decision.unreached.map((f) => relative(ctx.rootDir, f)),
+    }, null, 2));
+  } else {
+    if (decision.action === 'full-suite') ctx.io.err(`[vitest-affected] Full suite: ${decision.reason}`);
+    for (const test of tests) ctx.io.out(test);
+  }
+  return 0;
+}
+
+async function whyCommand(ctx: CliContext, target: string): Promise<number> {
+  const decision = await selectTests(ctx);
+  if (!decision) return 1;
+  const test = absolute(ctx.rootDir, target);
+  const fullSuite = decision.action === 'full-suite';
+  const chain = !fullSuite && decision.chains[test]
+    ? decision.chains[test].map((f) => relative(ctx.rootDir, f))
+    : null;
+
+  if (ctx.values.json) {
+    ctx.io.out(JSON.stringify({
+      test: relative(ctx.rootDir, test),
+      action: decision.action,
+      ...(decision.reason ? { reason: decision.reason } : {}),
+      affected: fullSuite || chain !== null,
+      chain,
+    }, null, 2));
+  } else if (fullSuite) {
+    ctx.io.out(`${relative(ctx.rootDir, test)} runs with the full suite: ${decision.reason}`);
+  } else if (chain) {
+    ctx.io.out(chain.length > 1 ? chain.join(' → ') : `${chain[0]} changed`);
+  } else {
+    ctx.io.out(`${relative(ctx.rootDir, test)} is not affected by the current changes`);
+  }
+  return 0;
+}
+
+function depsCommand(ctx: CliContext, target: string): number {
+  const graph = loadGraph(ctx);
+  if (!graph) return 1;
+  const file = absolute(ctx.rootDir, target);
+  const tests = bfsAffectedTests([file], graph.reverse, testFilePredicate(graph.reverse))
+    .filter((f) => f !== file)
+    .map((f) => relative(ctx.rootDir, f));
+
+  if (ctx.values.json) {
+    ctx.io.out(JSON.stringify({ file: relative(ctx.rootDir, file), inGraph: graph.reverse.has(file), tests }, null, 2));
+  } else if (!graph.reverse.has(file)) {
+    ctx.io.err(`${relative(ctx.rootDir, file)} is not in the dependency graph`);
+  } else {
+    for (const test of tests) ctx.io.out(test);
+  }
+  return 0;
+}
+
+function cacheInfoCommand(ctx: CliContext): number {
+  const raw = readCacheFileSync(ctx.cacheDir);
+  const graph = loadGraph(ctx);
+  if (raw === null || !graph) return 1;
+  const { version, builtAt } = JSON.parse(raw) as { version?: number; builtAt?: number };
+  const tests = new Set<string>();
+  let packages = 0;
+  for (const [key, dependents] of graph.reverse) {
+    if (isPackageKey(key)) packages++;
+    for (const test of dependents) tests.add(test);
+  }
+  const info = {
+    path: relative(ctx.rootDir, path.join(ctx.cacheDir, 'graph.json')),
+    version,
+    builtAt: typeof builtAt === 'number' ? new Date(builtAt).toISOString() : undefined,
+    commit: graph.commit,
+    modules: graph.reverse.size - packages,
+    packages,
+    tests: tests.size,
+    staleFiles: graph.stale.length,
+    symbols: graph.symbols !== undefined,
+  };
+
+  if (ctx.values.json) {
+    ctx.io.out(JSON.stringify(info, null, 2));
+  } else {
+    for (const [key, value] of Object.entries(info)) {
+      if (value !== undefined) ctx.io.out(`${key}: ${value}`);
+    }
+  }
+  return 0;
+}
+
+function cacheClearCommand(ctx: CliContext): number {
+  const removed = removeCacheFileSync(ctx.cacheDir);
+  ctx.io.out(removed
+    ? `Removed ${relative(ctx.rootDir, path.join(ctx.cacheDir, 'graph.json'))}`
+    : 'No cached graph to remove');
+  return 0;
+}
+
+function cacheVerifyCommand(ctx: CliContext): number {
+  const graph = loadGraph(ctx);
+  if (!graph) return 1;
+  const stale = graph.stale.map((f) => relative(ctx.rootDir, f)).sort();
+
+  if (ctx.values.json) {
+    ctx.io.out(JSON.stringify({ ok: stale.length === 0, staleFiles: stale }, null, 2));
+  } else if (stale.length === 0) {
+    ctx.io.out('Cached graph matches the working tree');
+  } else {
+    ctx.io.out(`${stale.length} file(s) changed since the graph was saved:`);
+    for (const file of stale) ctx.io.out(`  ${file}`);
+  }
+  return stale.length === 0 ? 0 : 1;
+}
+
+function statsCommand(ctx: CliContext): number {
+  const statsFile = path.resolve(ctx.rootDir, ctx.values['stats-file'] ?? '.vitest-affected/stats.jsonl');
+  let content: string;
+  try {
+    content = readFileSync(statsFile, 'utf-8');
+  } catch {
+    ctx.io.err(`[vitest-affected] No stats file at ${relative(ctx.rootDir, statsFile)} — set the statsFile option`);
+    return 1;
+  }
+
+  const reasons: Record<string, number> = {};
+  let runs = 0;
+  let selective = 0;
+  let affected = 0;
+  let total = 0;
+  let durationMs = 0;
+  let audits = 0;
+  let falseNegatives = 0;
+  let sampledTests = 0;
+  let sampledFailures = 0;
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    let entry: {
+      action?: string; reason?: string; affectedTests?: number; totalTests?: number; durationMs?: number;
+      sampledTests?: number; sampledFailures?: string[]; falseNegatives?: string[];
+    };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    // Result lines report on the run logged before them
+    if (entry.action === 'audit-result') {
+      audits++;
+      falseNegatives += entry.falseNegatives?.length ?? 0;
+      continue;
+    }
+    if (entry.action === 'sample-result') {
+      sampledTests += entry.sampledTests ?? 0;
+      sampledFailures += entry.sampledFailures?.length ?? 0;
+      continue;
+    }
+    runs++;
+    if (entry.action === 'selective') selective++;
+    if (entry.reason) reasons[entry.reason] = (reasons[entry.reason] ?? 0) + 1;
+    if (entry.action === 'selective' && entry.totalTests) {
+      affected += entry.affectedTests ?? 0;
+      total += entry.totalTests;
+    }
+    durationMs += entry.durationMs ?? 0;
+  }
+  const summary = {
+    runs,
+    selective,
+    fullSuite: runs - selective,
+    // Share of tests selective runs executed, across all of them
+    selectedRatio: total > 0 ? Number((affected / total).toFixed(3)) : null,
+    avgDurationMs: runs > 0 ? Math.round(durationMs / runs) : null,
+    audits,
+    falseNegatives,
+    sampledTests,
+    sampledFailures,
+    reasons,
+  };
+
+  if (ctx.values.json) {
+    ctx.io.out(JSON.stringify(summary, null, 2));
+  } else {
+    ctx.io.out(`runs: ${runs} (${selective} selective, ${runs - selective} full suite)`);
+    if (summary.selectedRatio !== null) {
+      ctx.io.out(`tests run by selective runs: ${(summary.selectedRatio * 100).toFixed(1)}%`);
+    }
+    if (summary.avgDurationMs !== null) ctx.io.out(`average selection time: ${summary.avgDurationMs}ms`);
+    if (audits > 0) ctx.io.out(`audited runs: ${audits} (${falseNegatives} false negative(s))`);
+    if (sampledTests > 0) ctx.io.out(`sampled skipped tests: ${sampledTests} (${sampledFailures} failed)`);
+    for (const [reason, count] of Object.entries(reasons).sort((a, b) => b[1] - a[1])) {
+      ctx.io.out(`  ${reason}: ${count}`);
+    }
+  }
+  return 0;
+}
@@ -1,25 +1,367 @@
-import { execFile as execFileCb } from 'node:child_process';
-import { promisify } from 'node:util';
 import { existsSync } from 'node:fs';
 import path from 'node:path';
+import { exec } from './vcs/exec.js';
 
-const execFile = promisify(execFileCb);
+/** What happened to a path, decoded from git's status letters. */
+export type ChangeKind = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type-changed' | 'untracked';
 
-async function exec(cmd: string, args: string[], opts: { cwd: string }): Promise<{ stdout: string }> {
+/** One changed path as git reported it. Paths are absolute, with forward slashes. */
+export interface ChangedEntry {
+  path: string;
+  kind: ChangeKind;
+  /** Renames and copies: the path the content came from. */
+  from?: string;
+  /** Renames and copies: git's similarity score (0–100). */
+  similarity?: number;
+}
+
+/** A path git paired with the one it was renamed from. */
+export interface RenamedFile {
+  from: string;
+  to: string;
+  /** git's similarity score (0–100). */
+  similarity: number;
+}
+
+/**
+ * Files that changed between the commit a cache was built at and HEAD.
+ * `reachable: false` means the commit is not in this clone (shallow fetch,
+ * garbage-collected, force-pushed branch) and the drift cannot be computed.
+ */
+export interface CommitDrift {
+  commit: string;
+  reachable: boolean;
+  changed: string[];
+  deleted: string[];
+  entries: ChangedEntry[];
+  renames: RenamedFile[];
+}
+
+/**
+ * Changed paths: `entries` as reported, split into existing and deleted
+ * files, plus the rename pairs among them (drift first, then committed, then
+ * working-tree renames, so chained renames apply in order).
+ */
+export interface ChangedFiles {
+  changed: string[];
+  deleted: string[];
+  entries: ChangedEntry[];
+  renames: RenamedFile[];
+  drift?: CommitDrift;
+}
+
+const KIND_BY_STATUS: Record<string, ChangeKind> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type-changed',
+  // Unmerged: the working tree holds the conflicted file
+  U: 'modified',
+};
+
+function toAbsolute(gitRoot: string, rel: string): string {
+  return path.resolve(gitRoot, rel).replaceAll('\\', '/');
+}
+
+/**
+ * @internal
+ * Parse `git diff -z --name-status` output: a status field (`M`, `R086`, …)
+ * followed by one path, or by source and destination paths for renames and
+ * copies, every field NUL-terminated. NUL framing keeps paths verbatim —
+ * no C-quoting of spaces, non-ASCII characters or newlines.
+ */
+export function parseNameStatus(stdout: string, gitRoot: string): ChangedEntry[] {
+  const fields = stdout.split('\0');
+  const entries: ChangedEntry[] = [];
+  let i = 0;
+  while (i < fields.length) {
+    const status = fields[i++]!;
+    if (!status) continue;
+    const kind = KIND_BY_STATUS[status[0]!] ?? 'modified';
+    if (kind === 'renamed' || kind === 'copied') {
+      const from = fields[i++];
+      const to = fields[i++];
+      if (from === undefined || to === undefined) break;
+      entries.push({
+        path: toAbsolute(gitRoot, to),
+        kind,
+        from: toAbsolute(gitRoot, from),
+        similarity: Number(status.slice(1)) || 0,
+      });
+    } else {
+      const file = fields[i++];
+      if (file === undefined) break;
+      entries.push({ path: toAbsolute(gitRoot, file), kind });
+    }
+  }
+  return entries;
+}
+
+/**
+ * @internal
+ * Parse `git status --porcelain=v2 -z` output. Ordinary (`1`) and unmerged
+ * (`u`) records end with the path after a fixed number of space-separated
+ * fields; rename/copy (`2`) records add a score field and are followed by the
+ * source path as its own NUL-terminated field; untracked files are `? <path>`.
+ * The staged status wins over the unstaged one when both are set.
+ */
+export function parseStatusV2(stdout: string, gitRoot: string): ChangedEntry[] {
+  const fields = stdout.split('\0');
+  const entries: ChangedEntry[] = [];
+  // Space-separated fields before the path, by record type
+  const pathField: Record<string, number> = { '1': 8, '2': 9, u: 10 };
+  const afterFields = (record: string, count: number): string => {
+    let at = 0;
+    for (let n = 0; n < count; n++) at = record.indexOf(' ', at) + 1;
+    return record.slice(at);
+  };
+  let i = 0;
+  while (i < fields.length) {
+    const record = fields[i++]!;
+    const type = record[0];
+    if (type === '?') {
+      entries.push({ path: toAbsolute(gitRoot, record.slice(2)), kind: 'untracked' });
+      continue;
+    }
+    if (type === undefined || !(type in pathField)) continue;
+    const xy = record.slice(2, 4);
+    const status = xy[0] !== '.' ? xy[0]! : xy[1]!;
+    const file = toAbsolute(gitRoot, afterFields(record, pathField[type]!));
+    if (type === '2') {
+      const from = fields[i++];
+      if (from === undefined) break;
+      const score = record.split(' ')[8] ?? '';
+      entries.push({
+        path: file,
+        kind: score.startsWith('C') ? 'copied' : 'renamed',
+        from: toAbsolute(gitRoot, from),
+        similarity: Number(score.slice(1)) || 0,
+      });
+    } else {
+      entries.push({ path: file, kind: KIND_BY_STATUS[status] ?? 'modified' });
+    }
+  }
+  return entries;
+}
+
+function renamesOf(entries: ChangedEntry[]): RenamedFile[] {
+  return entries
+    .filter((e) => e.kind === 'renamed' && e.from !== undefined)
+    .map((e) => ({ from: e.from!, to: e.path, similarity: e.similarity ?? 0 }));
+}
+
+/**
+ * Split entries into files that exist now and files that do not, deduplicated
+ * in order. A rename's source counts as deleted once it is gone.
+ */
+function splitEntries(entries: ChangedEntry[]): { changed: string[]; deleted: string[] } {
+  const seen = new Set<string>();
+  const changed: string[] = [];
+  const deleted: string[] = [];
+  const classify = (absPath: string): void => {
+    if (seen.has(absPath)) return;
+    seen.add(absPath);
+    if (existsSync(absPath)) changed.push(absPath);
+    else deleted.push(absPath);
+  };
+  for (const entry of entries) classify(entry.path);
+  for (const entry of entries) {
+    if (entry.kind === 'renamed' && entry.from) classify(entry.from);
+  }
+  return { changed, deleted };
+}
+
+/**
+ * @internal
+ * Changed files from entries a change source reported, for sources that
+ * need no drift or ordering of their own.
+ */
+export function toChangedFiles(entries: ChangedEntry[]): ChangedFiles {
+  return { ...splitEntries(entries), entries, renames: renamesOf(entries) };
+}
+
+export interface GetChangedFilesOptions {
+  /** Also report files changed between this commit and HEAD (see CommitDrift). */
+  sinceCommit?: string;
+}
+
+/** Resolve HEAD to a full commit SHA, or null outside git / on an unborn branch. */
+export async function getHeadCommit(rootDir: string): Promise<string | null> {
+  try {
+    const { stdout } = await exec('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd: rootDir });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Short name of the checked-out branch, or null when detached or outside git. */
+export async function getCurrentBranch(rootDir: string): Promise<string | null> {
+  try {
+    const { stdout } = await exec('git', ['symbolic-ref', '--quiet', '--short', 'HEAD'], { cwd: rootDir });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Merge base of `ref` and HEAD (what `ref...HEAD` diffs against), or null. */
+export async function getMergeBase(rootDir: string, ref: string): Promise<string | null> {
+  try {
+    const { stdout } = await exec('git', ['merge-base', ref, 'HEAD'], { cwd: rootDir });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** How `ref: 'auto'` found its base. */
+export type RefStrategy = 'github' | 'gitlab' | 'buildkite' | 'circleci' | 'upstream' | 'merge-base';
+
+export interface AutoRef {
+  ref: string;
+  strategy: RefStrategy;
+}
+
+/** The first of `candidates` that names a commit in this clone. */
+async function firstCommit(rootDir: string, candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    try {
+      await exec('git', ['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`], { cwd: rootDir });
+      return candidate;
+    } catch {
+      // Not fetched here — try the next one
+    }
+  }
+  return null;
+}
+
+/** A base branch as the remote-tracking ref CI checkouts usually have, then as a local branch. */
+function branchCandidates(branch: string | undefined): string[] {
+  return branch ? [`origin/${branch}`, branch] : [];
+}
+
+/**
+ * Pull/merge request bases announced by CI providers, most specific first.
+ * CircleCI has no base variable; its compare URL (`…/compare/<base>...<head>`)
+ * carries the base commit when present.
+ */
+function ciBaseCandidates(env: NodeJS.ProcessEnv): Array<{ strategy: RefStrategy; candidates: string[] }> {
+  const circleBase = env.CIRCLE_COMPARE_URL?.match(/\/compare\/([0-9a-f]+)\.\.\.?[0-9a-f]+$/i)?.[1];
+  return [
+    { strategy: 'github', candidates: branchCandidates(env.GITHUB_BASE_REF) },
+    {
+      strategy: 'gitlab',
+      candidates: [
+        ...(env.CI_MERGE_REQUEST_DIFF_BASE_SHA ? [env.CI_MERGE_REQUEST_DIFF_BASE_SHA] : []),
+        ...branchCandidates(env.CI_MERGE_REQUEST_TARGET_BRANCH_NAME),
+      ],
+    },
+    { strategy: 'buildkite', candidates: branchCandidates(env.BUILDKITE_PULL_REQUEST_BASE_BRANCH) },
+    { strategy: 'circleci', candidates: circleBase ? [circleBase] : [] },
+  ];
+}
+
+/**
+ * Resolve `ref: 'auto'`: the pull/merge request base from CI environment
+ * variables, else the current branch's upstream when it tracks a different
+ * branch (e.g. a feature branch created from `origin/main`), else the remote's
+ * default branch, whose merge base the `ref...HEAD` diff starts from. Null
+ * when none of them exists in this clone.
+ */
+export async function resolveAutoRef(
+  rootDir: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<AutoRef | null> {
+  for (const { strategy, candidates } of ciBaseCandidates(env)) {
+    if (candidates.length === 0) continue;
+    const ref = await firstCommit(rootDir, candidates);
+    if (ref) return { ref, strategy };
+  }
+
+  try {
+    const { stdout } = await exec(
+      'git',
+      ['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'],
+      { cwd: rootDir },
+    );
+    const upstream = stdout.trim();
+    const branch = await getCurrentBranch(rootDir);
+    // A branch's own remote counterpart only holds its unpushed commits
+    if (upstream && upstream !== branch && upstream.slice(upstream.indexOf('/') + 1) !== branch) {
+      return { ref: upstream, strategy: 'upstream' };
+    }
+  } catch {
+    // No upstream configured
+  }
+
+  let defaultBranch: string | undefined;
+  try {
+    const { stdout } = await exec('git', ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'], {
+      cwd: rootDir,
+    });
+    defaultBranch = stdout.trim() || undefined;
+  } catch {
+    // origin/HEAD is only set by clone; guess the usual names
+  }
+  const ref = await firstCommit(rootDir, defaultBranch ? [defaultBranch] : ['origin/main', 'origin/master']);
+  return ref ? { ref, strategy: 'merge-base' } : null;
+}
+
+/**
+ * Contents of `absPath` as of revision `rev`, or null when the file did not
+ * exist there (or `rev` cannot be resolved).
+ */
+export async function readFileAtRevision(
+  rootDir: string,
+  rev: string,
+  absPath: string,
+): Promise<string | null> {
+  try {
+    const { stdout: gitRootRaw } = await exec('git', ['rev-parse', '--show-toplevel'], { cwd: rootDir });
+    const gitRoot = gitRootRaw.trim();
+    const rel = path.relative(gitRoot, absPath).replaceAll('\\', '/');
+    // Lockfiles easily exceed execFile's 1 MB default buffer
+    const { stdout } = await exec('git', ['show', `${rev}:${rel}`], {
+      cwd: gitRoot,
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the drift between `commit` and HEAD. Uses a two-dot tree diff, not
+ * merge-base: the cache may come from another branch (e.g. the last main
+ * build), and what matters is how the content differs from what it recorded.
+ */
+export async function getCommitDrift(rootDir: string, commit: string): Promise<CommitDrift> {
   try {
-    const { stdout } = await execFile(cmd, args, { ...opts, encoding: 'utf-8' });
-    return { stdout: stdout ?? '' };
-  } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : String(err);
-    const stderr = err && typeof err === 'object' && 'stderr' in err ? String(err.stderr) : undefined;
-    throw new Error(`${cmd} ${args.join(' ')} failed: ${stderr ?? msg}`);
+    await exec('git', ['cat-file', '-e', `${commit}^{commit}`], { cwd: rootDir });
+  } catch {
+    return { commit, reachable: false, changed: [], deleted: [], entries: [], renames: [] };
   }
+
+  const { stdout: gitRootRaw } = await exec('git', ['rev-parse', '--show-toplevel'], { cwd: rootDir });
+  const gitRoot = gitRootRaw.trim();
+  const { stdout } = await exec('git', ['diff', '-z', '--name-status', '--find-renames', commit, 'HEAD'], {
+    cwd: gitRoot,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+
+  const entries = parseNameStatus(stdout, gitRoot);
+  return { commit, reachable: true, ...splitEntries(entries), entries, renames: renamesOf(entries) };
 }
 
 export async function getChangedFiles(
   rootDir: string,
-  ref?: string
-): Promise<{ changed: string[]; deleted: string[] }> {
+  ref?: string,
+  options: GetChangedFilesOptions = {},
+): Promise<ChangedFiles> {
   // Step 1: Check if this is a git work tree
   let isGit = false;
   try {
@@ -28,12 +370,12 @@ export async function getChangedFiles(
   } catch {
     // Not a git repo — soft fallback
     console.warn('[vitest-affected] Not inside a git work tree — running full suite');
-    return { changed: [], deleted: [] };
+    return { changed: [], deleted: [], entries: [], renames: [] };
   }
 
   if (!isGit) {
     console.warn('[vitest-affected] Not inside a git work tree — running full suite');
-    return { changed: [], deleted: [] };
+    return { changed: [], deleted: [], entries: [], renames: [] };
   }
 
   // Step 2: Shallow clone detection (only relevant when ref is provided)
@@ -56,84 +398,47 @@ export async function getChangedFiles(
     }
   }
 
-  // Step 3: Get git root (paths from git diff are relative to git root, not rootDir)
+  // Step 3: Get git root (paths from git are relative to git root, not rootDir)
   const { stdout: gitRootRaw } = await exec('git', ['rev-parse', '--show-toplevel'], { cwd: rootDir });
   const gitRoot = gitRootRaw.trim();
 
-  // Step 4: Parallel git commands
-  //
-  // Committed changes (ref-based): use git diff with ref...HEAD
-  // Staged changes: use diff-index --cached which reports renames as A+D entries (unlike
-  //   git diff --cached which merges renames into a single R entry with --name-only)
-  // Unstaged changes: ls-files --others --modified reports untracked and modified tracked files
+  // Step 4: Parallel git commands, all NUL-separated (-z) so paths arrive
+  // unquoted
   //
-  // All paths are relative to gitRoot.
+  // Committed changes (ref-based): git diff --name-status ref...HEAD
+  // Staged, unstaged and untracked changes: one git status --porcelain=v2,
+  //   which reports staged renames and copies with their source path
+  const maxBuffer = 64 * 1024 * 1024;
 
-  const committedPromise: Promise<string[]> = ref !== undefined
-    ? exec('git', ['diff', '--name-only', '--diff-filter=ACMRD', `${ref}...HEAD`], { cwd: gitRoot })
-        .then(r => r.stdout.trim().split('\n').filter(Boolean))
+  const committedPromise: Promise<ChangedEntry[]> = ref !== undefined
+    ? exec('git', ['diff', '-z', '--name-status', '--find-renames', `${ref}...HEAD`], { cwd: gitRoot, maxBuffer })
+        .then(r => parseNameStatus(r.stdout, gitRoot))
         .catch(() => [])
     : Promise.resolve([]);
 
-  // staged (add/copy/modify/rename) — new names or modified files
-  const stagedChangedPromise: Promise<string[]> = exec(
-    'git',
-    ['diff-index', '--cached', '--name-only', '--diff-filter=ACMR', 'HEAD'],
-    { cwd: gitRoot }
-  )
-    .then(r => r.stdout.trim().split('\n').filter(Boolean))
-    .catch(() => []);
-
-  // staged deletions — includes old names from renames
-  const stagedDeletedPromise: Promise<string[]> = exec(
+  const workingTreePromise: Promise<ChangedEntry[]> = exec(
     'git',
-    ['diff-index', '--cached', '--name-only', '--diff-filter=D', 'HEAD'],
-    { cwd: gitRoot }
+    ['status', '--porcelain=v2', '-z', '--untracked-files=all'],
+    { cwd: gitRoot, maxBuffer }
   )
-    .then(r => r.stdout.trim().split('\n').filter(Boolean))
+    .then(r => parseStatusV2(r.stdout, gitRoot))
     .catch(() => []);
 
-  // unstaged: untracked files + modified tracked files (includes unstaged deletions)
-  const unstagedPromise: Promise<string[]> = exec(
-    'git',
-    ['ls-files', '--others', '--modified', '--exclude-standard', '--full-name'],
-    { cwd: gitRoot }
-  )
-    .then(r => r.stdout.trim().split('\n').filter(Boolean))
-    .catch(() => []);
+  // Cache drift: files changed since the commit the cached graph was built at
+  const driftPromise: Promise<CommitDrift | undefined> = options.sinceCommit !== undefined
+    ? getCommitDrift(gitRoot, options.sinceCommit)
+    : Promise.resolve(undefined);
 
-  const [committed, stagedChanged, stagedDeleted, unstaged] = await Promise.all([
+  const [committed, workingTree, drift] = await Promise.all([
     committedPromise,
-    stagedChangedPromise,
-    stagedDeletedPromise,
-    unstagedPromise,
+    workingTreePromise,
+    driftPromise,
   ]);
 
-  // Step 5: Deduplicate across all sources and resolve to absolute paths
-  const seenPaths = new Set<string>();
-  const changed: string[] = [];
-  const deleted: string[] = [];
-
-  // Helper: classify and add a relative path
-  // Normalize to forward slashes so paths match Vite's convention
-  const classify = (rel: string) => {
-    const absPath = path.resolve(gitRoot, rel).replaceAll('\\', '/');
-    if (seenPaths.has(absPath)) return;
-    seenPaths.add(absPath);
-    if (existsSync(absPath)) {
-      changed.push(absPath);
-    } else {
-      deleted.push(absPath);
-    }
-  };
-
-  // Process all candidate files (order: committed, staged changed, unstaged, then staged deleted)
-  // staged deleted is last so that if a path appears in both staged-changed and staged-deleted
-  // the first seen wins (which would be staged-changed, indicating it still exists)
-  for (const rel of committed) classify(rel);
-  for (const rel of stagedChanged) classify(rel);
-  for (const rel of unstaged) classify(rel);
-  for (const rel of stagedDeleted) classify(rel);
-
-  return { changed, deleted };
+  // Step 5: Deduplicate across all sources; existence on disk decides
+  // changed vs deleted (a staged add deleted from the working tree is gone)
+  const entries = [...committed, ...workingTree, ...(drift?.entries ?? [])];
+  const { changed, deleted } = splitEntries(entries);
+  const renames = [...(drift?.renames ?? []), ...renamesOf([...committed, ...workingTree])];
+  return drift ? { changed, deleted, entries, renames, drift } : { changed, deleted, entries, renames };
 }
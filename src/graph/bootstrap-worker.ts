@@ -0,0 +1,11 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { createResolver } from './builder.js';
+import { collectFileDependencies } from './bootstrap.js';
+
+// One resolver per worker: oxc-resolver caches tsconfig and package.json reads
+const { rootDir } = workerData as { rootDir: string };
+const resolver = createResolver(rootDir, false);
+
+parentPort!.on('message', (files: string[]) => {
+  parentPort!.postMessage(files.map((file) => [file, collectFileDependencies(file, rootDir, resolver)]));
+});
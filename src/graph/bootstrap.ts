@@ -0,0 +1,183 @@
+import { existsSync, readFileSync } from 'node:fs';
+import os from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type { ResolverFactory } from 'oxc-resolver';
+import { createResolver, resolveFileDependencies, type FileDependencies } from './builder.js';
+import { packageKey } from './packages.js';
+
+/**
+ * Worker entry, emitted next to the bundle by tsup. Missing when running from
+ * source (e.g. this repo's own tests) — imports are then resolved in-process.
+ */
+const WORKER_URL = new URL('./bootstrap-worker.js', import.meta.url);
+
+export interface StaticGraphOptions {
+  /** Worker threads to parse with. Default: CPU count - 1, at most 8. 1 = in-process. */
+  workers?: number;
+  /** @internal Worker entry to use instead of the bundled one. */
+  workerUrl?: URL;
+}
+
+/**
+ * Read and resolve one file's imports. Only script files are parsed: JSON,
+ * styles and framework single-file components are leaves of the graph.
+ */
+export function collectFileDependencies(
+  file: string,
+  rootDir: string,
+  resolver: ResolverFactory,
+): FileDependencies {
+  if (!/\.[cm]?[jt]sx?$/.test(file)) return { files: [], packages: [] };
+  let source: string;
+  try {
+    source = readFileSync(file, 'utf-8');
+  } catch {
+    return { files: [], packages: [] };
+  }
+  return resolveFileDependencies(file, source, rootDir, resolver);
+}
+
+interface BatchResolver {
+  resolve(files: string[]): Promise<Array<[string, FileDependencies]>>;
+  close(): Promise<void>;
+}
+
+function createInlineResolver(rootDir: string): BatchResolver {
+  const resolver = createResolver(rootDir, false);
+  return {
+    resolve: async (files) => files.map((file) => [file, collectFileDependencies(file, rootDir, resolver)]),
+    close: async () => {},
+  };
+}
+
+function createWorkerResolver(rootDir: string, count: number, workerUrl: URL): BatchResolver {
+  const workers = Array.from({ length: count }, () => new Worker(workerUrl, { workerData: { rootDir } }));
+
+  const request = (worker: Worker, files: string[]) =>
+    new Promise<Array<[string, FileDependencies]>>((resolve, reject) => {
+      const settle = (): void => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+      };
+      const onMessage = (result: Array<[string, FileDependencies]>) => {
+        settle();
+        resolve(result);
+      };
+      const onError = (err: Error) => {
+        settle();
+        reject(err);
+      };
+      // process.exit, OOM kills and resourceLimits end a worker without a message
+      const onExit = (code: number) => {
+        settle();
+        reject(new Error(`Bootstrap worker exited with code ${code}`));
+      };
+      worker.once('message', onMessage);
+      worker.once('error', onError);
+      worker.once('exit', onExit);
+      worker.postMessage(files);
+    });
+
+  return {
+    async resolve(files) {
+      // Round-robin keeps each worker's share of large directories even
+      const chunks = workers.map((_, i) => files.filter((_, j) => j % workers.length === i));
+      const results = await Promise.all(
+        workers.map((worker, i) => (chunks[i]!.length > 0 ? request(worker, chunks[i]!) : [])),
+      );
+      return results.flat();
+    },
+    async close() {
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    },
+  };
+}
+
+/**
+ * Resolve through worker threads, switching to the in-process resolver for
+ * the current and every later batch once a worker fails.
+ */
+function createFallbackResolver(rootDir: string, count: number, workerUrl: URL): BatchResolver {
+  let current = createWorkerResolver(rootDir, count, workerUrl);
+  let inline = false;
+  return {
+    async resolve(files) {
+      if (inline) return current.resolve(files);
+      try {
+        return await current.resolve(files);
+      } catch (err) {
+        console.warn(
+          `[vitest-affected] Bootstrap worker failed — resolving in-process: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        await current.close().catch(() => {});
+        current = createInlineResolver(rootDir);
+        inline = true;
+        return current.resolve(files);
+      }
+    },
+    close: () => current.close(),
+  };
+}
+
+/**
+ * Build a reverse map (module → tests that load it) by statically walking
+ * the imports of every test file, the same shape the runtime reporter
+ * records. Packages imported anywhere in a test's tree become `pkg:<name>`
+ * keys. Static analysis misses non-literal dynamic imports and anything a
+ * test only loads through `vi.mock` factories, so the result is provisional:
+ * runtime edges replace a test's static edges once it runs.
+ */
+export async function buildStaticReverseMap(
+  testFiles: string[],
+  rootDir: string,
+  options: StaticGraphOptions = {},
+): Promise<Map<string, Set<string>>> {
+  const count = options.workers ?? Math.max(1, Math.min(os.cpus().length - 1, 8));
+  const workerUrl = options.workerUrl ?? WORKER_URL;
+  const batches = count > 1 && existsSync(fileURLToPath(workerUrl))
+    ? createFallbackResolver(rootDir, count, workerUrl)
+    : createInlineResolver(rootDir);
+
+  // Forward graph, resolved one BFS level at a time so each level is spread
+  // across all workers
+  const forward = new Map<string, FileDependencies>();
+  try {
+    let frontier = [...new Set(testFiles)];
+    while (frontier.length > 0) {
+      for (const [file, deps] of await batches.resolve(frontier)) forward.set(file, deps);
+      const next = new Set<string>();
+      for (const file of frontier) {
+        for (const dep of forward.get(file)?.files ?? []) {
+          if (!forward.has(dep)) next.add(dep);
+        }
+      }
+      frontier = [...next];
+    }
+  } finally {
+    await batches.close();
+  }
+
+  const reverse = new Map<string, Set<string>>();
+  const addEdge = (key: string, test: string) => {
+    if (!reverse.has(key)) reverse.set(key, new Set());
+    reverse.get(key)!.add(test);
+  };
+  for (const test of new Set(testFiles)) {
+    const visited = new Set([test]);
+    const stack = [test];
+    while (stack.length > 0) {
+      const deps = forward.get(stack.pop()!);
+      if (!deps) continue;
+      for (const name of deps.packages) addEdge(packageKey(name), test);
+      for (const dep of deps.files) {
+        if (visited.has(dep)) continue;
+        visited.add(dep);
+        stack.push(dep);
+        addEdge(dep, test);
+      }
+    }
+  }
+  return reverse;
+}
@@ -1,7 +1,8 @@
 import { ResolverFactory } from 'oxc-resolver';
 import { parseSync } from 'oxc-parser';
-import { readFileSync, existsSync } from 'node:fs';
+import { readFileSync, existsSync, statSync } from 'node:fs';
 import path from 'node:path';
+import { packageKey, packageNameFromModulePath } from './packages.js';
 
 const BINARY_EXTENSIONS = new Set([
   '.svg', '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.bmp', '.tiff',
@@ -11,15 +12,17 @@ const BINARY_EXTENSIONS = new Set([
   '.css', '.scss', '.sass', '.less',
 ]);
 
+const SCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs']);
+
 function isBinarySpecifier(specifier: string): boolean {
   const ext = path.extname(specifier).toLowerCase();
   return BINARY_EXTENSIONS.has(ext);
 }
 
-export function createResolver(rootDir: string): ResolverFactory {
+export function createResolver(rootDir: string, warnMissingTsconfig = true): ResolverFactory {
   const tsconfigPath = path.join(rootDir, 'tsconfig.json');
   const hasTsconfig = existsSync(tsconfigPath);
-  if (!hasTsconfig) {
+  if (!hasTsconfig && warnMissingTsconfig) {
     console.warn('[vitest-affected] No tsconfig.json found — path aliases will not resolve');
   }
   return new ResolverFactory({
@@ -35,12 +38,11 @@ export function createResolver(rootDir: string): ResolverFactory {
   });
 }
 
-export function resolveFileImports(
-  file: string,
-  source: string,
-  rootDir: string,
-  resolver: ResolverFactory,
-): string[] {
+/**
+ * Import specifiers of a module: static imports (minus type-only), literal
+ * dynamic imports and re-exports. Asset imports are skipped.
+ */
+export function extractImportSpecifiers(file: string, source: string): string[] {
   const { module: mod, errors } = parseSync(file, source);
   if (errors.length > 0) {
     console.warn(`[vitest-affected] Parse errors in ${file} — imports may be incomplete`);
@@ -78,8 +80,28 @@ export function resolveFileImports(
     }
   }
 
+  return specifiers;
+}
+
+/** What a module imports: project files and the npm packages they come from. */
+export interface FileDependencies {
+  /** Resolved project files under rootDir. */
+  files: string[];
+  /** Package names of imports that resolved into node_modules. */
+  packages: string[];
+}
+
+export function resolveFileDependencies(
+  file: string,
+  source: string,
+  rootDir: string,
+  resolver: ResolverFactory,
+): FileDependencies {
+  const specifiers = extractImportSpecifiers(file, source);
+
   const dir = path.dirname(file);
-  const resolved: string[] = [];
+  const files: string[] = [];
+  const packages = new Set<string>();
   // Path boundary: rootDir=/project/foo must not match /project/foo-bar/
   // rootDir comes from Vite (always forward slashes), so use '/' not path.sep
   const rootPrefix = rootDir.endsWith('/') ? rootDir : rootDir + '/';
@@ -90,12 +112,25 @@ export function resolveFileImports(
     if (!result.path) continue;
     // Normalize resolver output to forward slashes (Vite convention)
     const resolvedPath = result.path.replaceAll('\\', '/');
-    if (resolvedPath.includes('/node_modules/')) continue;
+    if (resolvedPath.includes('/node_modules/')) {
+      const name = packageNameFromModulePath(resolvedPath);
+      if (name) packages.add(name);
+      continue;
+    }
     if (!resolvedPath.startsWith(rootPrefix) && resolvedPath !== rootDir) continue;
-    resolved.push(resolvedPath);
+    files.push(resolvedPath);
   }
 
-  return resolved;
+  return { files, packages: [...packages] };
+}
+
+export function resolveFileImports(
+  file: string,
+  source: string,
+  rootDir: string,
+  resolver: ResolverFactory,
+): string[] {
+  return resolveFileDependencies(file, source, rootDir, resolver).files;
 }
 
 /**
@@ -115,6 +150,8 @@ export function deltaParseNewImports(
   const resolver = createResolver(rootDir);
   const newTargets: string[] = [];
   for (const file of changedFiles) {
+    // JSON has no imports (and tsconfig.json is not even valid JavaScript)
+    if (path.extname(file) === '.json') continue;
     let source: string;
     try {
       source = readFileSync(file, 'utf-8');
@@ -133,3 +170,81 @@ export function deltaParseNewImports(
   }
   return newTargets;
 }
+
+/**
+ * Packages a project file imports, keyed by path and valid while the file's
+ * mtime and size are unchanged. Kept across runs (watch reruns) so only
+ * edited files are re-read and re-resolved.
+ */
+export type PackageImportMemo = Map<string, { mtimeMs: number; size: number; packages: string[] }>;
+
+/**
+ * Add package-level edges (`pkg:<name>` → tests) for the packages imported by
+ * the project files in a runtime edge map. Vitest 3 executes node_modules
+ * natively, so externalized packages never show up in importDurations; the
+ * runtime map does tell us which project files each test loaded, and their
+ * bare imports resolve to the packages those tests depend on. Packages only
+ * reached through other packages are covered by lockfile dependents instead.
+ */
+export function addStaticPackageEdges(
+  edges: Map<string, Set<string>>,
+  rootDir: string,
+  memo: PackageImportMemo = new Map(),
+): void {
+  let resolver: ResolverFactory | undefined;
+  const additions = new Map<string, Set<string>>();
+  // Test files load themselves too, but are never keys of their own edges
+  const filesToTests = new Map<string, Set<string>>(edges);
+  for (const tests of edges.values()) {
+    for (const t of tests) {
+      if (!filesToTests.has(t)) filesToTests.set(t, new Set([t]));
+      else filesToTests.get(t)!.add(t);
+    }
+  }
+
+  const packagesOf = (file: string): string[] => {
+    let stat;
+    try {
+      stat = statSync(file);
+    } catch {
+      memo.delete(file);
+      return [];
+    }
+    const cached = memo.get(file);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) return cached.packages;
+
+    const packages = new Set<string>();
+    let specifiers: string[] = [];
+    try {
+      specifiers = extractImportSpecifiers(file, readFileSync(file, 'utf-8'));
+    } catch {
+      // Unreadable or unparseable: no packages, retried once the file changes
+    }
+    const dir = path.dirname(file);
+    for (const specifier of specifiers) {
+      // Relative and absolute specifiers are project files, never packages
+      if (specifier.startsWith('.') || specifier.startsWith('/')) continue;
+      resolver ??= createResolver(rootDir, false);
+      const result = resolver.sync(dir, specifier);
+      if (result.error || !result.path) continue;
+      const name = packageNameFromModulePath(result.path.replaceAll('\\', '/'));
+      if (name) packages.add(name);
+    }
+    memo.set(file, { mtimeMs: stat.mtimeMs, size: stat.size, packages: [...packages] });
+    return [...packages];
+  };
+
+  for (const [file, tests] of filesToTests) {
+    if (!path.isAbsolute(file) || !SCRIPT_EXTENSIONS.has(path.extname(file))) continue;
+    for (const name of packagesOf(file)) {
+      const key = packageKey(name);
+      if (!additions.has(key)) additions.set(key, new Set());
+      for (const t of tests) additions.get(key)!.add(t);
+    }
+  }
+
+  for (const [key, tests] of additions) {
+    if (!edges.has(key)) edges.set(key, new Set());
+    for (const t of tests) edges.get(key)!.add(t);
+  }
+}
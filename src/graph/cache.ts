@@ -6,10 +6,22 @@ import {
   readdirSync,
   rmSync,
   existsSync,
+  openSync,
+  closeSync,
+  statSync,
+  linkSync,
 } from 'node:fs';
 import path from 'node:path';
+import { fingerprintFile, hasFileChanged, type FileFingerprint } from './hash.js';
+import { isPackageKey } from './packages.js';
+import type { ModuleImports } from './symbols.js';
 
 const GRAPH_FILE = 'graph.json';
+const LOCK_FILE = 'graph.lock';
+
+/** A lock (or temp file) older than this is assumed abandoned by a crashed process. */
+const STALE_LOCK_MS = 30_000;
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000;
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -28,15 +40,20 @@ function safeJsonReviver(_key: string, value: unknown): unknown {
 
 /**
  * Clean up any orphaned `.tmp-*` files left by a previous interrupted write.
+ * Recent temp files are left alone — they may belong to a concurrent writer
+ * that has not renamed them into place yet.
  */
 function cleanupOrphanedTmp(cacheDir: string): void {
   if (!existsSync(cacheDir)) return;
   try {
     const entries = readdirSync(cacheDir);
+    const now = Date.now();
     for (const entry of entries) {
       if (entry.startsWith('.tmp-')) {
         try {
-          rmSync(path.join(cacheDir, entry));
+          const tmpPath = path.join(cacheDir, entry);
+          if (now - statSync(tmpPath).mtimeMs < STALE_LOCK_MS) continue;
+          rmSync(tmpPath);
         } catch {
           // best-effort
         }
@@ -57,9 +74,47 @@ function isUnderRootDir(filePath: string, rootDir: string): boolean {
   return filePath === rootDir || filePath.startsWith(rootPrefix);
 }
 
+/**
+ * Convert an absolute (Vite-normalized) path to the root-relative POSIX form
+ * stored on disk. Returns null for paths outside rootDir — they cannot be
+ * re-anchored on another machine, so they are not persisted. Package keys
+ * (`pkg:<name>`) are stored as-is.
+ */
+function toStoredPath(filePath: string, rootDir: string): string | null {
+  if (isPackageKey(filePath)) return filePath;
+  if (filePath === rootDir) return '.';
+  const rootPrefix = rootDir.endsWith('/') ? rootDir : rootDir + '/';
+  return filePath.startsWith(rootPrefix) ? filePath.slice(rootPrefix.length) : null;
+}
+
+/**
+ * How a cache version stores paths: absolute (v1–v3) or relative to the
+ * project root (v4). Entries in the other form are rejected, so a mixed cache
+ * cannot be half-loaded.
+ */
+type PathBase = 'absolute' | 'root';
+
+/**
+ * Re-anchor a stored path to the current rootDir. Root-relative paths are
+ * joined onto rootDir; absolute paths must already be under rootDir. Returns
+ * null for anything that would land outside rootDir or is not in `base`'s
+ * form. Package keys (`pkg:<name>`) pass through.
+ */
+function fromStoredPath(stored: string, rootDir: string, base: PathBase): string | null {
+  if (isPackageKey(stored)) return stored;
+  const absolute = path.isAbsolute(stored) || /^[a-zA-Z]:\//.test(stored);
+  if (base === 'absolute') {
+    return absolute && isUnderRootDir(stored, rootDir) ? stored : null;
+  }
+  if (absolute || stored.split('/').includes('..')) return null;
+  if (stored === '.') return rootDir;
+  const rootPrefix = rootDir.endsWith('/') ? rootDir : rootDir + '/';
+  return rootPrefix + stored;
+}
+
 /**
  * Validates a plain object where all keys are strings and all values are
- * arrays of strings. Used for both v2 reverseMap and v1 runtimeEdges.
+ * arrays of strings. Used for the v2–v4 reverseMap and v1 runtimeEdges.
  */
 function isValidReverseMapObject(
   value: unknown,
@@ -76,35 +131,140 @@ function isValidReverseMapObject(
   return true;
 }
 
+/**
+ * Validates a plain object mapping file paths to `{ hash, mtimeMs, size }`.
+ */
+function isValidFingerprintObject(
+  value: unknown,
+): value is Record<string, FileFingerprint> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  for (const v of Object.values(value as Record<string, unknown>)) {
+    if (typeof v !== 'object' || v === null) return false;
+    const fp = v as Record<string, unknown>;
+    if (
+      typeof fp['hash'] !== 'string' ||
+      typeof fp['mtimeMs'] !== 'number' ||
+      typeof fp['size'] !== 'number'
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Re-anchor stored per-module imports (symbol-level selection). Invalid
+ * entries are dropped rather than failing the whole cache load.
+ */
+function toModuleImports(raw: unknown, rootDir: string, base: PathBase): Map<string, ModuleImports> {
+  const symbols = new Map<string, ModuleImports>();
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return symbols;
+  for (const [stored, entry] of Object.entries(raw as Record<string, unknown>)) {
+    const file = fromStoredPath(stored, rootDir, base);
+    if (file === null || typeof entry !== 'object' || entry === null) continue;
+    const { imports, opaque } = entry as { imports?: unknown; opaque?: unknown };
+    if (!isValidReverseMapObject(imports)) continue;
+    const resolved = new Map<string, Set<string>>();
+    for (const [storedTarget, names] of Object.entries(imports)) {
+      const target = fromStoredPath(storedTarget, rootDir, base);
+      if (target !== null) resolved.set(target, new Set(names));
+    }
+    symbols.set(file, { imports: resolved, opaque: opaque === true });
+  }
+  return symbols;
+}
+
+/**
+ * Build the in-memory reverse map from a disk reverseMap, re-anchoring stored
+ * paths to rootDir and dropping entries that fall outside it.
+ */
+function toConfinedReverseMap(
+  reverseMapRaw: Record<string, string[]>,
+  rootDir: string,
+  base: PathBase,
+): Map<string, Set<string>> {
+  const reverse = new Map<string, Set<string>>();
+  for (const [stored, storedTests] of Object.entries(reverseMapRaw)) {
+    const file = fromStoredPath(stored, rootDir, base);
+    if (file === null) continue;
+    const confinedTests: string[] = [];
+    for (const t of storedTests) {
+      const test = fromStoredPath(t, rootDir, base);
+      if (test !== null) confinedTests.push(test);
+    }
+    if (confinedTests.length > 0) {
+      reverse.set(file, new Set(confinedTests));
+    }
+  }
+  return reverse;
+}
+
 // ---------------------------------------------------------------------------
-// Disk format v2 — runtime-first architecture
+// Disk format v4 — runtime-first architecture + content fingerprints
 // ---------------------------------------------------------------------------
 
-interface CacheDiskFormatV2 {
-  version: 2;
+/**
+ * Paths in reverseMap and files are root-relative POSIX paths, so a cache
+ * restored into a different checkout directory (CI runner, teammate's
+ * machine, git worktree) still matches. v3 had the same shape with absolute
+ * paths.
+ */
+interface CacheDiskFormatV4 {
+  version: 4;
   builtAt: number;
   reverseMap: Record<string, string[]>;  // source → test_files
+  files: Record<string, FileFingerprint>;  // every tracked source and test file
+  commit?: string;  // HEAD when the graph was saved (absent outside git)
+  // module → imported project file → names used (symbol-level selection only)
+  symbols?: Record<string, { imports: Record<string, string[]>; opaque?: true }>;
 }
 
 const CACHE_VERSION_V1 = 1;
 const CACHE_VERSION_V2 = 2;
+const CACHE_VERSION_V3 = 3;
+const CACHE_VERSION_V4 = 4;
+
+export interface CachedReverseMap {
+  reverse: Map<string, Set<string>>;
+  /** false means the caller should run the full suite */
+  hit: boolean;
+  /**
+   * Tracked files whose content no longer matches the fingerprint recorded
+   * when the graph was saved (edited outside git, generated, branch switch),
+   * or that no longer exist. Empty for migrated v1/v2 caches.
+   */
+  stale: string[];
+  /** Commit the graph was saved at, if recorded (v3 and later). */
+  commit?: string;
+  /**
+   * What each module imports from each project file, when recorded by a
+   * `symbolLevel` run. Entries for stale files are dropped.
+   */
+  symbols?: Map<string, ModuleImports>;
+}
+
+function miss(): CachedReverseMap {
+  return { reverse: new Map(), hit: false, stale: [] };
+}
 
 /**
  * Load cached reverse map from graph.json.
  *
  * Handles:
- * - v2 directly
- * - v1 with runtimeEdges → migrated to v2 reverse map
+ * - v4 directly, checking recorded fingerprints for stale files
+ * - v3 (absolute paths) → migrated the same way; rewritten as v4 on next save
+ * - v2 → migrated (no fingerprints yet; rewritten as v4 on next save)
+ * - v1 with runtimeEdges → migrated
  * - v1 without runtimeEdges → cache miss
  * - Corrupt/missing → cache miss
- *
- * @returns { reverse, hit } where hit=false means caller should run full suite
  */
 export function loadCachedReverseMap(
   cacheDir: string,
   rootDir: string,
   verbose = false,
-): { reverse: Map<string, Set<string>>; hit: boolean } {
+): CachedReverseMap {
   cleanupOrphanedTmp(cacheDir);
 
   const cachePath = path.join(cacheDir, GRAPH_FILE);
@@ -113,42 +273,82 @@ export function loadCachedReverseMap(
     raw = readFileSync(cachePath, 'utf-8');
   } catch {
     if (verbose) console.warn('[vitest-affected] No cache file found — cache miss');
-    return { reverse: new Map(), hit: false };
+    return miss();
   }
+  return parseCachedReverseMap(raw, rootDir, verbose);
+}
 
+/**
+ * Parse serialized graph.json contents (read from disk or pulled from a
+ * cache store) the way loadCachedReverseMap does. Anything that does not
+ * validate is a miss.
+ */
+export function parseCachedReverseMap(
+  raw: string,
+  rootDir: string,
+  verbose = false,
+): CachedReverseMap {
   let parsed: unknown;
   try {
     parsed = JSON.parse(raw, safeJsonReviver);
   } catch {
     if (verbose) console.warn('[vitest-affected] Corrupt cache JSON — cache miss');
-    return { reverse: new Map(), hit: false };
+    return miss();
   }
 
   if (typeof parsed !== 'object' || parsed === null) {
-    return { reverse: new Map(), hit: false };
+    return miss();
   }
 
   const obj = parsed as Record<string, unknown>;
 
-  // --- v2 format ---
+  // --- v4 format, and v3 with absolute paths ---
+  if (obj['version'] === CACHE_VERSION_V4 || obj['version'] === CACHE_VERSION_V3) {
+    const version = obj['version'];
+    const base: PathBase = version === CACHE_VERSION_V4 ? 'root' : 'absolute';
+    const reverseMapRaw = obj['reverseMap'];
+    const filesRaw = obj['files'];
+    if (!isValidReverseMapObject(reverseMapRaw) || !isValidFingerprintObject(filesRaw)) {
+      if (verbose) console.warn(`[vitest-affected] v${version} cache schema invalid — cache miss`);
+      return miss();
+    }
+
+    const reverse = toConfinedReverseMap(reverseMapRaw, rootDir, base);
+    const stale: string[] = [];
+    for (const [stored, fingerprint] of Object.entries(filesRaw)) {
+      const file = fromStoredPath(stored, rootDir, base);
+      if (file === null) continue;
+      if (hasFileChanged(file, fingerprint)) stale.push(file);
+    }
+
+    const commit = typeof obj['commit'] === 'string' ? obj['commit'] : undefined;
+    const result: CachedReverseMap = commit ? { reverse, hit: true, stale, commit } : { reverse, hit: true, stale };
+    if (obj['symbols'] !== undefined) {
+      const symbols = toModuleImports(obj['symbols'], rootDir, base);
+      // A stale module may import different names now than when recorded
+      for (const file of stale) symbols.delete(file);
+      result.symbols = symbols;
+    }
+
+    if (verbose) {
+      console.warn(
+        `[vitest-affected] v${version} cache hit — ${reverse.size} entries, ${stale.length} stale file(s)`,
+      );
+    }
+    return result;
+  }
+
+  // --- v2 migration ---
   if (obj['version'] === CACHE_VERSION_V2) {
     const reverseMapRaw = obj['reverseMap'];
     if (!isValidReverseMapObject(reverseMapRaw)) {
       if (verbose) console.warn('[vitest-affected] v2 cache schema invalid — cache miss');
-      return { reverse: new Map(), hit: false };
-    }
-
-    const reverse = new Map<string, Set<string>>();
-    for (const [file, tests] of Object.entries(reverseMapRaw)) {
-      if (!isUnderRootDir(file, rootDir)) continue;
-      const confinedTests = (tests as string[]).filter((t) => isUnderRootDir(t, rootDir));
-      if (confinedTests.length > 0) {
-        reverse.set(file, new Set(confinedTests));
-      }
+      return miss();
     }
 
-    if (verbose) console.warn(`[vitest-affected] v2 cache hit — ${reverse.size} entries`);
-    return { reverse, hit: true };
+    const reverse = toConfinedReverseMap(reverseMapRaw, rootDir, 'absolute');
+    if (verbose) console.warn(`[vitest-affected] v2→v4 migration — ${reverse.size} entries`);
+    return { reverse, hit: true, stale: [] };
   }
 
   // --- v1 migration ---
@@ -156,53 +356,117 @@ export function loadCachedReverseMap(
     const runtimeEdges = obj['runtimeEdges'];
     if (runtimeEdges === undefined || !isValidReverseMapObject(runtimeEdges)) {
       if (verbose) console.warn('[vitest-affected] v1 cache without runtimeEdges — cache miss');
-      return { reverse: new Map(), hit: false };
+      return miss();
     }
 
-    // Migrate v1 runtimeEdges → v2 reverse map
-    const reverse = new Map<string, Set<string>>();
-    for (const [file, tests] of Object.entries(runtimeEdges)) {
-      if (!isUnderRootDir(file, rootDir)) continue;
-      const confinedTests = (tests as string[]).filter((t) => isUnderRootDir(t, rootDir));
-      if (confinedTests.length > 0) {
-        reverse.set(file, new Set(confinedTests));
-      }
-    }
-
-    if (verbose) console.warn(`[vitest-affected] v1→v2 migration — ${reverse.size} entries`);
-    return { reverse, hit: true };
+    // Migrate v1 runtimeEdges → reverse map
+    const reverse = toConfinedReverseMap(runtimeEdges, rootDir, 'absolute');
+    if (verbose) console.warn(`[vitest-affected] v1→v4 migration — ${reverse.size} entries`);
+    return { reverse, hit: true, stale: [] };
   }
 
   // Unknown version
   if (verbose) console.warn('[vitest-affected] Unknown cache version — cache miss');
-  return { reverse: new Map(), hit: false };
+  return miss();
+}
+
+export interface SaveCacheOptions {
+  /** HEAD commit to record, so the next load can seed from the drift since. */
+  commit?: string;
+  /** Per-module imports to record for symbol-level selection. Modules no longer in the graph are dropped. */
+  symbols?: Map<string, ModuleImports>;
 }
 
 /**
- * Persist a reverse map to disk in v2 format.
+ * Persist a reverse map to disk in v4 format, fingerprinting every tracked
+ * source and test file as it is on disk right now. Paths are written relative
+ * to rootDir; entries outside rootDir are dropped.
  * Atomic write: temp file → renameSync.
  */
 export function saveCacheSync(
   cacheDir: string,
+  rootDir: string,
   reverse: Map<string, Set<string>>,
+  options: SaveCacheOptions = {},
 ): void {
   mkdirSync(cacheDir, { recursive: true });
 
   const reverseMap: Record<string, string[]> = {};
+  const files: Record<string, FileFingerprint> = {};
+  const fingerprint = (file: string, stored: string): void => {
+    if (stored in files) return;
+    const fp = fingerprintFile(file);
+    if (fp) files[stored] = fp;
+  };
   for (const [file, tests] of reverse) {
-    reverseMap[file] = [...tests];
+    const storedFile = toStoredPath(file, rootDir);
+    if (storedFile === null) continue;
+    const storedTests: string[] = [];
+    for (const t of tests) {
+      const storedTest = toStoredPath(t, rootDir);
+      if (storedTest === null) continue;
+      storedTests.push(storedTest);
+      fingerprint(t, storedTest);
+    }
+    if (storedTests.length === 0) continue;
+    reverseMap[storedFile] = storedTests;
+    // Package keys (pkg:<name>) have no file to fingerprint
+    if (!isPackageKey(file)) fingerprint(file, storedFile);
+  }
+
+  let symbols: CacheDiskFormatV4['symbols'];
+  if (options.symbols) {
+    symbols = {};
+    for (const [file, { imports, opaque }] of options.symbols) {
+      const storedFile = toStoredPath(file, rootDir);
+      if (storedFile === null || !(storedFile in files)) continue;
+      const storedImports: Record<string, string[]> = {};
+      for (const [target, names] of imports) {
+        const storedTarget = toStoredPath(target, rootDir);
+        if (storedTarget !== null) storedImports[storedTarget] = [...names];
+      }
+      symbols[storedFile] = opaque ? { imports: storedImports, opaque: true } : { imports: storedImports };
+    }
   }
 
-  const payload: CacheDiskFormatV2 = {
-    version: CACHE_VERSION_V2,
+  const payload: CacheDiskFormatV4 = {
+    version: CACHE_VERSION_V4,
     builtAt: Date.now(),
     reverseMap,
+    files,
+    ...(options.commit ? { commit: options.commit } : {}),
+    ...(symbols ? { symbols } : {}),
   };
 
-  const json = JSON.stringify(payload);
-  const rand = Math.random().toString(36).slice(2);
+  writeCacheFileSync(cacheDir, JSON.stringify(payload));
+}
+
+/** Raw graph.json contents, or null if there is no cache file. */
+export function readCacheFileSync(cacheDir: string): string | null {
+  try {
+    return readFileSync(path.join(cacheDir, GRAPH_FILE), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/** Delete graph.json. Returns false if there was no cache file. */
+export function removeCacheFileSync(cacheDir: string): boolean {
+  const cachePath = path.join(cacheDir, GRAPH_FILE);
+  if (!existsSync(cachePath)) return false;
+  rmSync(cachePath, { force: true });
+  return true;
+}
+
+/**
+ * Replace graph.json with already-serialized contents (e.g. pulled from a
+ * CacheStore). Atomic write: temp file → renameSync.
+ */
+export function writeCacheFileSync(cacheDir: string, contents: string): void {
+  mkdirSync(cacheDir, { recursive: true });
+  const rand = `${process.pid}-${Math.random().toString(36).slice(2)}`;
   const tmpPath = path.join(cacheDir, `.tmp-${rand}`);
-  writeFileSync(tmpPath, json, 'utf-8');
+  writeFileSync(tmpPath, contents, 'utf-8');
   try {
     renameSync(tmpPath, path.join(cacheDir, GRAPH_FILE));
   } catch (err) {
@@ -211,3 +475,198 @@ export function saveCacheSync(
     throw err;
   }
 }
+
+// ---------------------------------------------------------------------------
+// Concurrent writers
+// ---------------------------------------------------------------------------
+
+/**
+ * @internal
+ * Claim a lock judged abandoned. It is renamed to a name only this process
+ * uses, so of several waiters that all saw it go stale exactly one gets it;
+ * and since another waiter may have stolen it and taken a fresh lock in the
+ * meantime, the claimed file must still carry the token that was seen stale.
+ * A fresh lock claimed by mistake is linked back (never over a newer one).
+ */
+export function claimStaleLock(lockPath: string, staleToken: string): boolean {
+  const claimed = `${lockPath}.stale-${process.pid}-${Math.random().toString(36).slice(2)}`;
+  try {
+    renameSync(lockPath, claimed);
+  } catch {
+    // Released, or claimed by another waiter first
+    return false;
+  }
+  let token: string | undefined;
+  try {
+    token = readFileSync(claimed, 'utf-8');
+  } catch {
+    // Unreadable: treat as not ours
+  }
+  if (token !== staleToken) {
+    try { linkSync(claimed, lockPath); } catch { /* a newer lock is already in place */ }
+  }
+  try { rmSync(claimed, { force: true }); } catch { /* best-effort */ }
+  return token === staleToken;
+}
+
+/**
+ * Take an exclusive lock on the cache directory by creating `graph.lock` with
+ * O_EXCL and a token unique to this acquisition. A lock older than
+ * STALE_LOCK_MS is assumed to belong to a crashed process and is stolen (see
+ * claimStaleLock). Waits without blocking the event loop — the runtime
+ * reporter calls this from Vitest's main thread. Rejects if the lock cannot
+ * be taken within timeoutMs. Resolves to a release function.
+ */
+async function acquireLock(cacheDir: string, timeoutMs: number): Promise<() => void> {
+  const lockPath = path.join(cacheDir, LOCK_FILE);
+  const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, 'wx');
+      try {
+        writeFileSync(fd, token, 'utf-8');
+      } finally {
+        closeSync(fd);
+      }
+      return () => {
+        try {
+          // Only remove our own lock, in case it was stolen as stale
+          if (readFileSync(lockPath, 'utf-8') === token) rmSync(lockPath);
+        } catch {
+          // best-effort
+        }
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+
+    try {
+      if (Date.now() - statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        claimStaleLock(lockPath, readFileSync(lockPath, 'utf-8'));
+        continue;
+      }
+    } catch {
+      // Lock released between openSync and statSync — retry immediately
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`[vitest-affected] Timed out waiting for cache lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10 + Math.floor(Math.random() * 20)));
+  }
+}
+
+/**
+ * Merge one run's runtime edges into a reverse map in place.
+ *
+ * Per-test overwrite: every test that appears in `edges` ran this cycle, so
+ * its previous edges are removed before the fresh ones are added. Removed
+ * imports are reflected (not just accumulated forever), while tests that did
+ * not run keep their edges.
+ */
+export function mergeRuntimeEdges(
+  reverse: Map<string, Set<string>>,
+  edges: Map<string, Set<string>>,
+): void {
+  const ranTests = new Set<string>();
+  for (const tests of edges.values()) {
+    for (const t of tests) ranTests.add(t);
+  }
+  // Strip stale edges for tests that ran
+  for (const [file, tests] of reverse) {
+    for (const t of ranTests) tests.delete(t);
+    if (tests.size === 0) reverse.delete(file);
+  }
+  // Add fresh edges from this run
+  for (const [file, tests] of edges) {
+    const existing = reverse.get(file);
+    if (!existing) {
+      reverse.set(file, new Set(tests));
+    } else {
+      for (const t of tests) existing.add(t);
+    }
+  }
+}
+
+/**
+ * Move a renamed file's graph history to its new path in place: its entry as
+ * a source key (merged into any entry the new path already has) and its
+ * place as a test in every other entry. Renames apply in order, so chains
+ * (`a → b`, then `b → c`) end at the last path. Returns how many renames
+ * touched the map.
+ */
+export function renameReverseEntries(
+  reverse: Map<string, Set<string>>,
+  renames: ReadonlyArray<{ from: string; to: string }>,
+): number {
+  let applied = 0;
+  for (const { from, to } of renames) {
+    if (from === to) continue;
+    let touched = false;
+    const tests = reverse.get(from);
+    if (tests) {
+      reverse.delete(from);
+      const existing = reverse.get(to);
+      if (existing) {
+        for (const t of tests) existing.add(t);
+      } else {
+        reverse.set(to, tests);
+      }
+      touched = true;
+    }
+    for (const dependents of reverse.values()) {
+      if (dependents.delete(from)) {
+        dependents.add(to);
+        touched = true;
+      }
+    }
+    if (touched) applied++;
+  }
+  return applied;
+}
+
+export interface UpdateCacheOptions extends SaveCacheOptions {
+  /** How long to wait for another writer to release the lock (default 10s). */
+  lockTimeoutMs?: number;
+  /** Renames to re-key in the latest graph before merging (see renameReverseEntries). */
+  renames?: ReadonlyArray<{ from: string; to: string }>;
+}
+
+/**
+ * Merge-on-write for processes sharing one cache directory (parallel agents,
+ * CI shards on one runner). Under an exclusive lock, re-read the latest
+ * graph.json, apply only this process's per-test overwrite and atomically
+ * rename the result into place — so concurrent runs compose instead of the
+ * last writer dropping everyone else's edges.
+ *
+ * Symbol records follow the same rule per module: modules this writer
+ * recorded are overwritten, others kept. A writer that records none (symbol-
+ * level selection off) clears them, since they could go out of date unseen.
+ *
+ * Resolves to the merged map that was written.
+ */
+export async function updateCache(
+  cacheDir: string,
+  rootDir: string,
+  edges: Map<string, Set<string>>,
+  options: UpdateCacheOptions = {},
+): Promise<Map<string, Set<string>>> {
+  mkdirSync(cacheDir, { recursive: true });
+  const release = await acquireLock(cacheDir, options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS);
+  try {
+    const { reverse, symbols: latestSymbols } = loadCachedReverseMap(cacheDir, rootDir);
+    if (options.renames) renameReverseEntries(reverse, options.renames);
+    mergeRuntimeEdges(reverse, edges);
+    let symbols: Map<string, ModuleImports> | undefined;
+    if (options.symbols) {
+      symbols = new Map(latestSymbols);
+      for (const [file, imports] of options.symbols) symbols.set(file, imports);
+    }
+    saveCacheSync(cacheDir, rootDir, reverse, { ...options, symbols });
+    return reverse;
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,47 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, statSync } from 'node:fs';
+
+/** Content fingerprint of a tracked file as recorded in the cache. */
+export interface FileFingerprint {
+  hash: string;
+  mtimeMs: number;
+  size: number;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Fingerprint a file on disk. Returns null when the file cannot be read
+ * (deleted, permission error) — callers treat that as "changed".
+ */
+export function fingerprintFile(file: string): FileFingerprint | null {
+  try {
+    const stat = statSync(file);
+    return { hash: hashContent(readFileSync(file)), mtimeMs: stat.mtimeMs, size: stat.size };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True if `file` no longer matches `recorded`. mtime+size are checked first so
+ * unchanged files are never read; a touched file whose bytes are identical
+ * (checkout, `git stash pop` of an unrelated change) is not reported.
+ */
+export function hasFileChanged(file: string, recorded: FileFingerprint): boolean {
+  let stat;
+  try {
+    stat = statSync(file);
+  } catch {
+    return true;
+  }
+  if (stat.mtimeMs === recorded.mtimeMs && stat.size === recorded.size) return false;
+  if (stat.size !== recorded.size) return true;
+  try {
+    return hashContent(readFileSync(file)) !== recorded.hash;
+  } catch {
+    return true;
+  }
+}
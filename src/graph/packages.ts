@@ -0,0 +1,34 @@
+/**
+ * Package-level graph keys. The runtime reporter records an edge
+ * `pkg:<name>` → test for every `node_modules` module a test imports, so a
+ * dependency upgrade can seed BFS with the package name instead of forcing a
+ * full suite.
+ */
+const PACKAGE_KEY_PREFIX = 'pkg:';
+
+export function packageKey(name: string): string {
+  return PACKAGE_KEY_PREFIX + name;
+}
+
+export function isPackageKey(key: string): boolean {
+  return key.startsWith(PACKAGE_KEY_PREFIX);
+}
+
+/**
+ * Package name owning a module path, taken from the last `node_modules/`
+ * segment so pnpm's `.pnpm/<id>/node_modules/<name>` layout resolves to the
+ * real package. Returns null outside node_modules and for tool directories
+ * such as `node_modules/.vite/deps`.
+ */
+export function packageNameFromModulePath(modulePath: string): string | null {
+  const marker = '/node_modules/';
+  const idx = modulePath.lastIndexOf(marker);
+  if (idx === -1) return null;
+  const segments = modulePath.slice(idx + marker.length).split('/');
+  const first = segments[0];
+  if (!first || first.startsWith('.')) return null;
+  if (first.startsWith('@')) {
+    return segments[1] ? `${first}/${segments[1]}` : null;
+  }
+  return first;
+}
@@ -0,0 +1,165 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  parseCachedReverseMap,
+  readCacheFileSync,
+  writeCacheFileSync,
+  type CachedReverseMap,
+} from './cache.js';
+
+/**
+ * Key-value storage for serialized graphs, shared between machines (e.g. CI
+ * jobs pulling the graph produced by the last main build). Values are the
+ * contents of graph.json; keys look like `commit/<sha>` or `branch/<name>`,
+ * optionally prefixed with `projects/<name>/` in multi-project workspaces.
+ */
+export interface CacheStore {
+  /** Return the value stored under `key`, or null if there is none. */
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string): Promise<void>;
+}
+
+/** Keys may contain '/' but never '.'/'..' segments or empty segments. */
+function encodeKey(key: string): string[] {
+  const segments = key.split('/');
+  if (segments.some((s) => s === '' || s === '.' || s === '..')) {
+    throw new Error(`[vitest-affected] Invalid cache store key: ${key}`);
+  }
+  return segments.map((s) => encodeURIComponent(s));
+}
+
+/**
+ * A CacheStore backed by a directory — typically a mounted volume or a
+ * directory that the CI system saves and restores between jobs.
+ */
+export function createLocalCacheStore(dir: string): CacheStore {
+  const fileFor = (key: string): string => path.join(dir, ...encodeKey(key)) + '.json';
+  return {
+    async get(key) {
+      try {
+        return await readFile(fileFor(key), 'utf-8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async put(key, value) {
+      const file = fileFor(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      const tmpPath = `${file}.tmp-${process.pid}-${Math.random().toString(36).slice(2)}`;
+      await writeFile(tmpPath, value, 'utf-8');
+      try {
+        await rename(tmpPath, file);
+      } catch (err) {
+        await rm(tmpPath, { force: true });
+        throw err;
+      }
+    },
+  };
+}
+
+export interface HttpCacheStoreOptions {
+  /** Base URL; keys are appended as path segments (`GET/PUT <url>/<key>`). */
+  url: string;
+  /** Extra request headers, e.g. `{ authorization: 'Bearer …' }`. */
+  headers?: Record<string, string>;
+  /** Per-request timeout in milliseconds (default 10s). */
+  timeoutMs?: number;
+}
+
+/**
+ * A CacheStore speaking plain HTTP: `GET <url>/<key>` returns the value (404
+ * when absent) and `PUT <url>/<key>` stores it. Works with most artifact
+ * servers, object-storage gateways and presigned-URL proxies.
+ */
+export function createHttpCacheStore(options: HttpCacheStoreOptions): CacheStore {
+  const base = options.url.replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const urlFor = (key: string): string => `${base}/${encodeKey(key).join('/')}`;
+  return {
+    async get(key) {
+      const url = urlFor(key);
+      const res = await fetch(url, {
+        headers: options.headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`[vitest-affected] GET ${url} failed: HTTP ${res.status}`);
+      return await res.text();
+    },
+    async put(key, value) {
+      const url = urlFor(key);
+      const res = await fetch(url, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json', ...options.headers },
+        body: value,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!res.ok) throw new Error(`[vitest-affected] PUT ${url} failed: HTTP ${res.status}`);
+    },
+  };
+}
+
+export interface CacheStoreKeyContext {
+  commit?: string;
+  branch?: string;
+  /** Branch to fall back to when neither the commit nor the branch has a graph. */
+  fallbackBranch?: string;
+  /** Namespace for multi-project workspaces, e.g. `projects/web/`. */
+  prefix?: string;
+}
+
+/**
+ * Keys to try when pulling, most specific first: the exact commit, the
+ * current branch, then the fallback branch (the last main build).
+ */
+export function cacheStorePullKeys(ctx: CacheStoreKeyContext): string[] {
+  const keys: string[] = [];
+  if (ctx.commit) keys.push(`commit/${ctx.commit}`);
+  if (ctx.branch) keys.push(`branch/${ctx.branch}`);
+  if (ctx.fallbackBranch) keys.push(`branch/${ctx.fallbackBranch}`);
+  return [...new Set(keys)].map((k) => (ctx.prefix ?? '') + k);
+}
+
+/** Keys a finished run publishes its graph under: the commit and the current branch. */
+export function cacheStorePushKeys(ctx: CacheStoreKeyContext): string[] {
+  const keys: string[] = [];
+  if (ctx.commit) keys.push(`commit/${ctx.commit}`);
+  if (ctx.branch) keys.push(`branch/${ctx.branch}`);
+  return keys.map((k) => (ctx.prefix ?? '') + k);
+}
+
+/**
+ * Try each key in order; the first value that parses as a valid graph is
+ * written to cacheDir/graph.json and returned with the key it came from.
+ * Values are validated in memory first, so a corrupt, foreign or truncated
+ * value never reaches disk. Store errors are propagated so the caller can
+ * warn and carry on.
+ */
+export async function pullCacheFromStore(
+  store: CacheStore,
+  keys: string[],
+  cacheDir: string,
+  rootDir: string,
+): Promise<{ key: string; cached: CachedReverseMap } | null> {
+  for (const key of keys) {
+    const value = await store.get(key);
+    if (value === null) continue;
+    const cached = parseCachedReverseMap(value, rootDir);
+    if (!cached.hit) continue;
+    writeCacheFileSync(cacheDir, value);
+    return { key, cached };
+  }
+  return null;
+}
+
+/** Publish the current graph.json under every key. No-op if there is no cache file. */
+export async function pushCacheToStore(
+  store: CacheStore,
+  keys: string[],
+  cacheDir: string,
+): Promise<void> {
+  const contents = readCacheFileSync(cacheDir);
+  if (contents === null) return;
+  await Promise.all(keys.map((key) => store.put(key, contents)));
+}
@@ -0,0 +1,379 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseSync } from 'oxc-parser';
+import type { ResolverFactory } from 'oxc-resolver';
+import { createResolver } from './builder.js';
+import type { ChangeSource } from '../vcs/types.js';
+
+/** Imported name meaning "the whole module": namespace imports, `export * as`, dynamic imports. */
+export const ALL_EXPORTS = '*';
+
+/** What one module consumes from each project file it imports. */
+export interface ModuleImports {
+  /** Resolved project file → imported names (`default`, a binding name, or `*`). */
+  imports: Map<string, Set<string>>;
+  /**
+   * The module loads code in ways the import list does not capture
+   * (`require`, non-literal `import()`, `import.meta.glob`, `vi.importActual`),
+   * or could not be parsed. Tests that load it never have edges pruned.
+   */
+  opaque: boolean;
+}
+
+const OPAQUE_LOADERS = /\brequire\s*\(|\bimport\.meta\.glob\b|\b(?:importActual|requireActual)\b/;
+
+type Node = { type: string; start: number; end: number; [key: string]: unknown };
+
+/**
+ * The names a module imports from each project file, resolved with the same
+ * resolver as the graph builder. Type-only imports are skipped: they never
+ * load the target at runtime.
+ */
+export function extractModuleImports(
+  file: string,
+  source: string,
+  rootDir: string,
+  resolver: ResolverFactory,
+): ModuleImports {
+  const result: ModuleImports = { imports: new Map(), opaque: OPAQUE_LOADERS.test(source) };
+  const { module: mod, errors } = parseSync(file, source);
+  if (errors.length > 0) return { imports: new Map(), opaque: true };
+
+  const dir = path.dirname(file);
+  const rootPrefix = rootDir.endsWith('/') ? rootDir : rootDir + '/';
+  const add = (specifier: string, names: string[]) => {
+    const resolved = resolver.sync(dir, specifier);
+    if (resolved.error || !resolved.path) return;
+    const target = resolved.path.replaceAll('\\', '/');
+    if (target.includes('/node_modules/') || !target.startsWith(rootPrefix)) return;
+    if (!result.imports.has(target)) result.imports.set(target, new Set());
+    for (const name of names) result.imports.get(target)!.add(name);
+  };
+
+  for (const imp of mod.staticImports) {
+    if (imp.entries.length > 0 && imp.entries.every((e) => e.isType)) continue;
+    // A bare `import './x'` evaluates x but consumes none of its exports
+    add(imp.moduleRequest.value, imp.entries.filter((e) => !e.isType).map((e) =>
+      e.importName.kind === 'Name' ? e.importName.name! : e.importName.kind === 'Default' ? 'default' : ALL_EXPORTS,
+    ));
+  }
+  for (const exp of mod.staticExports) {
+    for (const entry of exp.entries) {
+      if (!entry.moduleRequest || entry.isType) continue;
+      add(entry.moduleRequest.value, [entry.importName.kind === 'Name' ? entry.importName.name! : ALL_EXPORTS]);
+    }
+  }
+  for (const imp of mod.dynamicImports) {
+    const raw = source.slice(imp.moduleRequest.start, imp.moduleRequest.end);
+    const literal = /^(['"`])(.*)\1$/s.exec(raw);
+    if (!literal || literal[2]!.includes('${')) {
+      result.opaque = true;
+      continue;
+    }
+    add(literal[2]!, [ALL_EXPORTS]);
+  }
+  return result;
+}
+
+/** `extractModuleImports` for every script file in `files`; unreadable files are opaque. */
+export function collectModuleImports(
+  files: Iterable<string>,
+  rootDir: string,
+): Map<string, ModuleImports> {
+  const resolver = createResolver(rootDir, false);
+  const collected = new Map<string, ModuleImports>();
+  for (const file of files) {
+    if (!path.isAbsolute(file) || !/\.[cm]?[jt]sx?$/.test(file)) continue;
+    try {
+      collected.set(file, extractModuleImports(file, readFileSync(file, 'utf-8'), rootDir, resolver));
+    } catch {
+      collected.set(file, { imports: new Map(), opaque: true });
+    }
+  }
+  return collected;
+}
+
+// ---------------------------------------------------------------------------
+// Export diffing
+// ---------------------------------------------------------------------------
+
+interface Binding {
+  /** Source text of the declaring statement(s). */
+  text: string;
+  /** Identifiers the declaration mentions (over-approximated: includes property names). */
+  refs: Set<string>;
+}
+
+interface ModuleShape {
+  /** Export name → binding key. */
+  exports: Map<string, string>;
+  /** Top-level runtime bindings, keyed by local name (or `\0<export>` for anonymous exports). */
+  bindings: Map<string, Binding>;
+  /** Top-level statements that run for their side effects. */
+  effects: Binding[];
+}
+
+function collectIdentifiers(node: unknown, into: Set<string>): Set<string> {
+  if (Array.isArray(node)) {
+    for (const child of node) collectIdentifiers(child, into);
+  } else if (typeof node === 'object' && node !== null) {
+    const n = node as Record<string, unknown>;
+    if ((n['type'] === 'Identifier' || n['type'] === 'JSXIdentifier') && typeof n['name'] === 'string') {
+      into.add(n['name']);
+    }
+    for (const [key, value] of Object.entries(n)) {
+      if (key !== 'type' && typeof value === 'object') collectIdentifiers(value, into);
+    }
+  }
+  return into;
+}
+
+function nameOf(node: unknown): string | undefined {
+  const n = node as { name?: unknown; value?: unknown } | null | undefined;
+  if (typeof n?.name === 'string') return n.name;
+  if (typeof n?.value === 'string') return n.value;
+  return undefined;
+}
+
+/**
+ * Runtime bindings and exports of a module, or null when its export surface
+ * cannot be enumerated (`export * from`, `export =`, parse errors).
+ */
+function moduleShape(file: string, source: string): ModuleShape | null {
+  const { program, errors } = parseSync(file, source);
+  if (errors.length > 0) return null;
+  const shape: ModuleShape = { exports: new Map(), bindings: new Map(), effects: [] };
+
+  const bind = (key: string, text: string, refs: Set<string>) => {
+    const existing = shape.bindings.get(key);
+    // Declaration merging (function + namespace) keeps both texts
+    if (existing) {
+      existing.text += `\n${text}`;
+      for (const r of refs) existing.refs.add(r);
+    } else {
+      shape.bindings.set(key, { text, refs });
+    }
+  };
+
+  /** Bind the names a declaration introduces; returns them (empty for type-only declarations). */
+  const declare = (decl: Node, text: string): string[] => {
+    if (decl['declare'] === true) return [];
+    switch (decl.type) {
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+      case 'TSEnumDeclaration':
+      case 'TSModuleDeclaration': {
+        const name = decl.type === 'TSModuleDeclaration' && (decl['id'] as Node).type !== 'Identifier'
+          ? undefined
+          : nameOf(decl['id']);
+        if (!name) return [];
+        bind(name, text, collectIdentifiers(decl, new Set()));
+        return [name];
+      }
+      case 'VariableDeclaration': {
+        const refs = collectIdentifiers(decl, new Set());
+        const names = [...collectIdentifiers((decl['declarations'] as Node[]).map((d) => d['id']), new Set())];
+        for (const name of names) bind(name, text, refs);
+        return names;
+      }
+      default:
+        // Interfaces, type aliases, overload signatures: erased at runtime
+        return [];
+    }
+  };
+
+  for (const statement of program.body as unknown as Node[]) {
+    const text = source.slice(statement.start, statement.end);
+    switch (statement.type) {
+      case 'ImportDeclaration': {
+        if (statement['importKind'] === 'type') break;
+        for (const spec of (statement['specifiers'] as Node[]) ?? []) {
+          if (spec['importKind'] === 'type') continue;
+          const local = nameOf(spec['local']);
+          if (local) bind(local, text, new Set());
+        }
+        break;
+      }
+      case 'TSImportEqualsDeclaration': {
+        const local = nameOf(statement['id']);
+        if (local && statement['importKind'] !== 'type') bind(local, text, new Set());
+        break;
+      }
+      case 'ExportAllDeclaration': {
+        const exported = nameOf(statement['exported']);
+        if (!exported) return null;
+        if (statement['exportKind'] === 'type') break;
+        bind(`\0${exported}`, text, new Set());
+        shape.exports.set(exported, `\0${exported}`);
+        break;
+      }
+      case 'ExportNamedDeclaration': {
+        if (statement['exportKind'] === 'type') break;
+        const declaration = statement['declaration'] as Node | null;
+        if (declaration) {
+          for (const name of declare(declaration, text)) shape.exports.set(name, name);
+          break;
+        }
+        const from = statement['source'] as Node | null;
+        for (const spec of (statement['specifiers'] as Node[]) ?? []) {
+          if (spec['exportKind'] === 'type') continue;
+          const exported = nameOf(spec['exported']);
+          const local = nameOf(spec['local']);
+          if (!exported || !local) continue;
+          if (from) {
+            // Re-export: changes when the specifier or the name it forwards changes
+            bind(`\0${exported}`, `${nameOf(from)}:${local}`, new Set());
+            shape.exports.set(exported, `\0${exported}`);
+          } else {
+            shape.exports.set(exported, local);
+          }
+        }
+        break;
+      }
+      case 'ExportDefaultDeclaration': {
+        const declaration = statement['declaration'] as Node;
+        const named = (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') &&
+          nameOf(declaration['id']);
+        if (named) {
+          declare(declaration, text);
+          shape.exports.set('default', named);
+        } else if (declaration.type !== 'TSInterfaceDeclaration') {
+          bind('\0default', text, collectIdentifiers(declaration, new Set()));
+          shape.exports.set('default', '\0default');
+        }
+        break;
+      }
+      case 'TSExportAssignment':
+        return null;
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration':
+      case 'VariableDeclaration':
+      case 'TSEnumDeclaration':
+      case 'TSModuleDeclaration':
+      case 'TSTypeAliasDeclaration':
+      case 'TSInterfaceDeclaration':
+      case 'TSDeclareFunction':
+        declare(statement, text);
+        break;
+      default:
+        shape.effects.push({ text, refs: collectIdentifiers(statement, new Set()) });
+    }
+  }
+  return shape;
+}
+
+/**
+ * Exported bindings of a module whose runtime behaviour differs between two
+ * versions of its source. A binding changes when its declaration text
+ * changes, or when it references another top-level binding that changed
+ * (followed to a fixpoint). Type-only declarations never count.
+ *
+ * Returns null when the answer is "everything": the export surface cannot be
+ * enumerated (`export * from`), or a top-level side-effect statement changed
+ * or depends on a changed binding.
+ */
+export function diffExportedSymbols(file: string, before: string, after: string): Set<string> | null {
+  const oldShape = moduleShape(file, before);
+  const newShape = moduleShape(file, after);
+  if (!oldShape || !newShape) return null;
+
+  if (oldShape.effects.length !== newShape.effects.length ||
+    oldShape.effects.some((effect, i) => effect.text !== newShape.effects[i]!.text)) {
+    return null;
+  }
+
+  const changed = new Set<string>();
+  for (const key of new Set([...oldShape.bindings.keys(), ...newShape.bindings.keys()])) {
+    if (oldShape.bindings.get(key)?.text !== newShape.bindings.get(key)?.text) changed.add(key);
+  }
+  const dependsOnChanged = (binding: Binding | undefined) =>
+    !!binding && [...binding.refs].some((ref) => changed.has(ref));
+  for (let grew = true; grew;) {
+    grew = false;
+    for (const [key, binding] of newShape.bindings) {
+      if (!changed.has(key) && (dependsOnChanged(binding) || dependsOnChanged(oldShape.bindings.get(key)))) {
+        changed.add(key);
+        grew = true;
+      }
+    }
+  }
+  if (newShape.effects.some(dependsOnChanged)) return null;
+
+  const changedExports = new Set<string>();
+  for (const name of new Set([...oldShape.exports.keys(), ...newShape.exports.keys()])) {
+    const oldKey = oldShape.exports.get(name);
+    const newKey = newShape.exports.get(name);
+    if (oldKey === undefined || newKey === undefined || oldKey !== newKey || changed.has(newKey)) {
+      changedExports.add(name);
+    }
+  }
+  return changedExports;
+}
+
+/**
+ * Exports of `file` that changed between each base revision and the working
+ * tree (unioned). Returns null when any diff is ambiguous or the file is new
+ * relative to a base — callers fall back to file-level selection.
+ */
+export async function getChangedExports(
+  rootDir: string,
+  file: string,
+  baseRevisions: string[],
+  source: ChangeSource,
+): Promise<Set<string> | null> {
+  let current: string;
+  try {
+    current = readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+  const changedExports = new Set<string>();
+  for (const rev of baseRevisions) {
+    const previous = (await source.readFileAtRevision?.(rootDir, rev, file)) ?? null;
+    if (previous === null) return null;
+    const diff = diffExportedSymbols(file, previous, current);
+    if (!diff) return null;
+    for (const name of diff) changedExports.add(name);
+  }
+  return changedExports;
+}
+
+/**
+ * BFS seeds that replace a changed file once its changed exports are known:
+ * every module that imports one of them (or the whole module), plus every
+ * test that loads the file without a recorded importer to explain it — the
+ * file was reached through something static analysis could not see, or the
+ * importer was never recorded. Tests whose only route to the file goes
+ * through importers of unchanged exports are pruned.
+ */
+export function symbolLevelSeeds(
+  file: string,
+  changedExports: Set<string>,
+  reverse: Map<string, Set<string>>,
+  moduleImports: Map<string, ModuleImports>,
+  isTestFile: (path: string) => boolean,
+): string[] {
+  const testsLoading = (module: string): Set<string> => {
+    const tests = new Set(reverse.get(module) ?? []);
+    if (isTestFile(module)) tests.add(module);
+    return tests;
+  };
+
+  const seeds: string[] = [];
+  const explained = new Set<string>();
+  for (const [importer, info] of moduleImports) {
+    const names = info.imports.get(file);
+    if (!names) continue;
+    if (names.has(ALL_EXPORTS) || [...names].some((name) => changedExports.has(name))) {
+      seeds.push(importer);
+    }
+    for (const test of testsLoading(importer)) explained.add(test);
+  }
+  for (const [module, info] of moduleImports) {
+    if (info.opaque) for (const test of testsLoading(module)) explained.delete(test);
+  }
+  for (const test of reverse.get(file) ?? []) {
+    if (!explained.has(test)) seeds.push(test);
+  }
+  return seeds;
+}
@@ -1,2 +1,8 @@
 export { vitestAffected } from './plugin.js';
 export type { VitestAffectedOptions } from './plugin.js';
+export { createHttpCacheStore, createLocalCacheStore } from './graph/store.js';
+export type { CacheStore, HttpCacheStoreOptions } from './graph/store.js';
+export { computeAffected } from './affected.js';
+export type { AffectedResult, ComputeAffectedOptions } from './affected.js';
+export type { ChangeSource, ChangeSourceOptions, VcsName } from './vcs/index.js';
+export type { ChangedEntry, ChangedFiles, ChangeKind, RenamedFile } from './git.js';
@@ -0,0 +1,46 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+const LAST_FAILED_FILE = 'last-failed.json';
+
+/** Test files that failed and have not passed since, absolute with forward slashes. */
+export function readLastFailed(cacheDir: string, rootDir: string): string[] {
+  try {
+    const raw = JSON.parse(readFileSync(path.join(cacheDir, LAST_FAILED_FILE), 'utf-8')) as { tests?: unknown };
+    if (!Array.isArray(raw.tests)) return [];
+    return raw.tests
+      .filter((t): t is string => typeof t === 'string')
+      .map((t) => path.resolve(rootDir, t).replaceAll('\\', '/'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Carry a run's results over: tests that failed are added, tests that ran
+ * without failing are dropped, and tests that did not run keep their entry.
+ * Stored root-relative; the file is removed once nothing is left in it.
+ */
+export function updateLastFailed(
+  cacheDir: string,
+  rootDir: string,
+  failed: string[],
+  passed: string[],
+): void {
+  const previous = readLastFailed(cacheDir, rootDir).sort();
+  const passedSet = new Set(passed);
+  const next = [...new Set([...previous.filter((t) => !passedSet.has(t)), ...failed])].sort();
+  if (next.length === previous.length && next.every((t, i) => t === previous[i])) return;
+  try {
+    const filePath = path.join(cacheDir, LAST_FAILED_FILE);
+    if (next.length === 0) {
+      rmSync(filePath, { force: true });
+      return;
+    }
+    mkdirSync(cacheDir, { recursive: true });
+    const tests = next.map((t) => path.relative(rootDir, t).replaceAll('\\', '/'));
+    writeFileSync(filePath, JSON.stringify({ tests }) + '\n');
+  } catch {
+    // Best-effort: failures are carried over again after the next run
+  }
+}
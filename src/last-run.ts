@@ -0,0 +1,90 @@
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fingerprintFile, hasFileChanged, type FileFingerprint } from './graph/hash.js';
+
+const LAST_RUN_FILE = 'last-run.json';
+
+/**
+ * What the change set looked like when the last completed run was selected:
+ * a fingerprint per changed file (null for deleted ones), absolute with
+ * forward slashes. Every file it does not list matched the diff base at
+ * `commit`.
+ */
+export interface RunSnapshot {
+  commit?: string;
+  files: Map<string, FileFingerprint | null>;
+}
+
+/** The last completed run's snapshot, or null when there is none (or it is unreadable). */
+export function readRunSnapshot(cacheDir: string, rootDir: string): RunSnapshot | null {
+  try {
+    const raw = JSON.parse(readFileSync(path.join(cacheDir, LAST_RUN_FILE), 'utf-8')) as {
+      commit?: unknown;
+      files?: unknown;
+    };
+    if (!raw.files || typeof raw.files !== 'object') return null;
+    const files = new Map<string, FileFingerprint | null>();
+    for (const [rel, fp] of Object.entries(raw.files as Record<string, unknown>)) {
+      const valid = fp === null || (typeof fp === 'object' && typeof (fp as FileFingerprint).hash === 'string');
+      if (valid) files.set(path.resolve(rootDir, rel).replaceAll('\\', '/'), fp as FileFingerprint | null);
+    }
+    return typeof raw.commit === 'string' ? { commit: raw.commit, files } : { files };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fingerprint `files` as they are now. Fingerprints from `previous` are reused
+ * when mtime and size still match, so unchanged files are not read again.
+ */
+export function takeRunSnapshot(
+  files: Iterable<string>,
+  previous: RunSnapshot | null,
+  commit: string | undefined,
+): RunSnapshot {
+  const fingerprints = new Map<string, FileFingerprint | null>();
+  for (const file of files) {
+    const recorded = previous?.files.get(file);
+    let reused = false;
+    if (recorded) {
+      try {
+        const stat = statSync(file);
+        reused = stat.mtimeMs === recorded.mtimeMs && stat.size === recorded.size;
+      } catch {
+        // Deleted: fingerprinted as null below
+      }
+    }
+    fingerprints.set(file, reused ? recorded! : fingerprintFile(file));
+  }
+  return commit !== undefined ? { commit, files: fingerprints } : { files: fingerprints };
+}
+
+/** Persist a snapshot with root-relative paths. */
+export function writeRunSnapshot(cacheDir: string, rootDir: string, snapshot: RunSnapshot): void {
+  const files: Record<string, FileFingerprint | null> = {};
+  for (const [file, fp] of snapshot.files) files[path.relative(rootDir, file).replaceAll('\\', '/')] = fp;
+  try {
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(
+      path.join(cacheDir, LAST_RUN_FILE),
+      JSON.stringify({ ...(snapshot.commit !== undefined ? { commit: snapshot.commit } : {}), files }) + '\n',
+    );
+  } catch {
+    // Best-effort: the next run compares against the last snapshot written
+  }
+}
+
+/**
+ * The candidates whose content differs from the snapshot. A file the snapshot
+ * does not list matched the diff base then, so any candidate it does not know
+ * about counts as changed.
+ */
+export function changedSinceSnapshot(candidates: string[], snapshot: RunSnapshot): string[] {
+  return candidates.filter((file) => {
+    const recorded = snapshot.files.get(file);
+    if (recorded === undefined) return true;
+    if (recorded === null) return existsSync(file);
+    return hasFileChanged(file, recorded);
+  });
+}
@@ -0,0 +1,285 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { ChangeSource } from './vcs/types.js';
+
+/**
+ * Lockfiles whose changes are analysed per package instead of forcing a full
+ * suite. bun.lockb is binary and is not listed: it still forces a full suite.
+ */
+export const LOCKFILE_BASENAMES: ReadonlySet<string> = new Set([
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+]);
+
+export interface LockfilePackages {
+  /** Package name → resolved versions (a package may be installed at several). */
+  versions: Map<string, Set<string>>;
+  /** Package name → names of the packages that depend on it. */
+  dependents: Map<string, Set<string>>;
+}
+
+function emptyPackages(): LockfilePackages {
+  return { versions: new Map(), dependents: new Map() };
+}
+
+function addPackage(packages: LockfilePackages, name: string, version: string): void {
+  if (!packages.versions.has(name)) packages.versions.set(name, new Set());
+  packages.versions.get(name)!.add(version);
+}
+
+function addDependency(packages: LockfilePackages, dependent: string, dependency: string): void {
+  if (!packages.dependents.has(dependency)) packages.dependents.set(dependency, new Set());
+  packages.dependents.get(dependency)!.add(dependent);
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'optionalDependencies', 'peerDependencies'];
+
+/**
+ * npm lockfile v2/v3 (`packages` keyed by install path) or v1 (nested
+ * `dependencies`). The integrity hash is part of the version so a re-published
+ * tarball at the same version still counts as a change.
+ */
+function parseNpmLockfile(content: string): LockfilePackages | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null;
+  const lock = parsed as Record<string, unknown>;
+  const packages = emptyPackages();
+
+  const describe = (entry: Record<string, unknown>): string => {
+    // Workspace symlinks have no version, only the folder they point at
+    if (entry['link'] === true) return `link:${String(entry['resolved'])}`;
+    return [entry['version'], entry['integrity']].filter((v) => typeof v === 'string').join(' ');
+  };
+
+  if (typeof lock['packages'] === 'object' && lock['packages'] !== null) {
+    for (const [installPath, entry] of Object.entries(lock['packages'] as Record<string, unknown>)) {
+      const marker = 'node_modules/';
+      const idx = installPath.lastIndexOf(marker);
+      // '' is the root project; workspace folders have no node_modules/ segment
+      if (idx === -1 || typeof entry !== 'object' || entry === null) continue;
+      // The install folder, not entry.name: aliases are imported by folder name
+      const name = installPath.slice(idx + marker.length);
+      const record = entry as Record<string, unknown>;
+      addPackage(packages, name, describe(record));
+      for (const field of DEPENDENCY_FIELDS) {
+        const deps = record[field];
+        if (typeof deps !== 'object' || deps === null) continue;
+        for (const dep of Object.keys(deps)) addDependency(packages, name, dep);
+      }
+    }
+    return packages;
+  }
+
+  const walk = (deps: unknown): void => {
+    if (typeof deps !== 'object' || deps === null) return;
+    for (const [name, entry] of Object.entries(deps as Record<string, unknown>)) {
+      if (typeof entry !== 'object' || entry === null) continue;
+      const record = entry as Record<string, unknown>;
+      addPackage(packages, name, describe(record));
+      const requires = record['requires'];
+      if (typeof requires === 'object' && requires !== null) {
+        for (const dep of Object.keys(requires)) addDependency(packages, name, dep);
+      }
+      walk(record['dependencies']);
+    }
+  };
+  if (typeof lock['dependencies'] === 'object' && lock['dependencies'] !== null) {
+    walk(lock['dependencies']);
+    return packages;
+  }
+  return null;
+}
+
+/**
+ * pnpm-lock.yaml. Reads the keys of the `packages:` (and v9 `snapshots:`)
+ * sections without a YAML parser:
+ *   v5:  /lodash/4.17.21:  /@babel/core/7.22.0_supports-color@5.5.0:
+ *   v6:  /lodash@4.17.21:  /@babel/core@7.22.0(supports-color@5.5.0):
+ *   v9:  lodash@4.17.21:   '@babel/core@7.22.0':
+ * Peer-dependency suffixes stay part of the version: a peer change can change
+ * how the package behaves. Each entry's `dependencies:` block (4-space
+ * indent, names at 6) gives the dependents map.
+ */
+function parsePnpmLockfile(content: string): LockfilePackages | null {
+  const packages = emptyPackages();
+  let section = '';
+  let sawPackages = false;
+  let current: string | null = null;
+  let inDependencies = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (line === '' || line.trimStart().startsWith('#')) continue;
+    if (!line.startsWith(' ')) {
+      section = line.replace(/:.*$/, '');
+      if (section === 'packages') sawPackages = true;
+      current = null;
+      continue;
+    }
+    if (section !== 'packages' && section !== 'snapshots') continue;
+
+    // Entry keys are indented exactly two spaces
+    const entry = /^ {2}(\S.*):\s*(\{\})?$/.exec(line);
+    if (entry) {
+      const key = entry[1]!.replace(/^['"]|['"]$/g, '').replace(/^\//, '');
+      const v5 = /^((?:@[^/]+\/)?[^/@]+)\/(\d[^/]*)$/.exec(key);
+      const modern = /^((?:@[^/]+\/)?[^/@]+)@(.+)$/.exec(key);
+      const found = v5 ?? modern;
+      current = found ? found[1]! : null;
+      inDependencies = false;
+      if (found) addPackage(packages, found[1]!, found[2]!);
+      continue;
+    }
+    if (current === null) continue;
+
+    const field = /^ {4}(\w+):\s*$/.exec(line);
+    if (field) {
+      inDependencies = DEPENDENCY_FIELDS.includes(field[1]!);
+      continue;
+    }
+    if (/^ {4}\S/.test(line)) {
+      inDependencies = false;
+      continue;
+    }
+    const dep = inDependencies ? /^ {6}['"]?((?:@[^/'"\s]+\/)?[^'":\s]+)['"]?:/.exec(line) : null;
+    if (dep) addDependency(packages, current, dep[1]!);
+  }
+  return sawPackages ? packages : null;
+}
+
+/**
+ * yarn.lock, classic (v1) or berry. Entry headers list the descriptors that
+ * resolved to the entry (`"lodash@^4.17.0", lodash@^4.17.21:` or
+ * `"lodash@npm:^4.17.21":`); the indented `version` line gives the result and
+ * the `dependencies:` block (names at 4 spaces) the dependents map.
+ */
+function parseYarnLockfile(content: string): LockfilePackages | null {
+  const packages = emptyPackages();
+  let current: string | null = null;
+  let inDependencies = false;
+  let sawEntry = false;
+  for (const line of content.split(/\r?\n/)) {
+    if (line === '' || line.startsWith('#')) continue;
+    if (!line.startsWith(' ')) {
+      current = null;
+      if (!line.endsWith(':')) continue;
+      const descriptor = line.slice(0, -1).split(/,\s*/)[0]!.replace(/^"|"$/g, '');
+      if (descriptor === '__metadata') continue;
+      const at = descriptor.indexOf('@', 1);
+      if (at === -1) continue;
+      current = descriptor.slice(0, at);
+      inDependencies = false;
+      sawEntry = true;
+      continue;
+    }
+    if (current === null) continue;
+
+    if (/^ {2}\S/.test(line)) {
+      const version = /^ {2}version:?\s+"?([^"\s]+)"?\s*$/.exec(line);
+      if (version) addPackage(packages, current, version[1]!);
+      const field = /^ {2}(\w+):\s*$/.exec(line);
+      inDependencies = !!field && DEPENDENCY_FIELDS.includes(field[1]!);
+      continue;
+    }
+    const dep = inDependencies ? /^ {4}"?((?:@[^/"\s]+\/)?[^"\s:]+)"?:?\s/.exec(line) : null;
+    if (dep) addDependency(packages, current, dep[1]!);
+  }
+  return sawEntry ? packages : null;
+}
+
+/**
+ * Parse a lockfile into its resolved packages. Returns null for unknown or
+ * unparseable lockfiles — the caller should run the full suite.
+ */
+export function parseLockfile(basename: string, content: string): LockfilePackages | null {
+  switch (basename) {
+    case 'package-lock.json':
+    case 'npm-shrinkwrap.json':
+      return parseNpmLockfile(content);
+    case 'pnpm-lock.yaml':
+      return parsePnpmLockfile(content);
+    case 'yarn.lock':
+      return parseYarnLockfile(content);
+    default:
+      return null;
+  }
+}
+
+/** Names of packages added, removed, or resolved to a different version set. */
+export function diffLockfilePackages(before: LockfilePackages, after: LockfilePackages): string[] {
+  const changed = new Set<string>();
+  for (const [name, versions] of after.versions) {
+    const old = before.versions.get(name);
+    if (!old || old.size !== versions.size || [...versions].some((v) => !old.has(v))) {
+      changed.add(name);
+    }
+  }
+  for (const name of before.versions.keys()) {
+    if (!after.versions.has(name)) changed.add(name);
+  }
+  return [...changed].sort();
+}
+
+/**
+ * Expand changed packages to every package that (transitively) depends on
+ * them, in either lockfile: a test importing `a` is affected when `a`'s
+ * dependency `b` is upgraded even though `a` itself did not change.
+ */
+export function withDependents(names: Iterable<string>, ...lockfiles: LockfilePackages[]): string[] {
+  const result = new Set<string>(names);
+  const queue = [...result];
+  while (queue.length > 0) {
+    const name = queue.pop()!;
+    for (const lock of lockfiles) {
+      for (const dependent of lock.dependents.get(name) ?? []) {
+        if (!result.has(dependent)) {
+          result.add(dependent);
+          queue.push(dependent);
+        }
+      }
+    }
+  }
+  return [...result].sort();
+}
+
+/**
+ * Packages whose resolution changed in `lockfilePath` between each base
+ * revision and the working tree (unioned), plus their dependents. Returns null when the change
+ * cannot be analysed: unsupported format, unparseable content, or a lockfile
+ * that is new or deleted relative to a base (or that `source` cannot read there).
+ */
+export async function getChangedLockfilePackages(
+  rootDir: string,
+  lockfilePath: string,
+  baseRevisions: string[],
+  source: ChangeSource,
+): Promise<string[] | null> {
+  const basename = path.basename(lockfilePath);
+  if (!LOCKFILE_BASENAMES.has(basename)) return null;
+
+  let current: string;
+  try {
+    current = readFileSync(lockfilePath, 'utf-8');
+  } catch {
+    return null;
+  }
+  const after = parseLockfile(basename, current);
+  if (!after) return null;
+
+  const changed = new Set<string>();
+  for (const rev of baseRevisions) {
+    const previous = (await source.readFileAtRevision?.(rootDir, rev, lockfilePath)) ?? null;
+    if (previous === null) return null;
+    const before = parseLockfile(basename, previous);
+    if (!before) return null;
+    for (const name of withDependents(diffLockfilePackages(before, after), before, after)) {
+      changed.add(name);
+    }
+  }
+  return [...changed].sort();
+}
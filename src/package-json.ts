@@ -0,0 +1,141 @@
+import { readFileSync } from 'node:fs';
+import type { ChangeSource } from './vcs/types.js';
+
+/**
+ * package.json fields that never change what a test executes: tooling
+ * config, publishing metadata and scripts. Changes to these are ignored.
+ */
+const IGNORED_FIELDS = new Set([
+  'author',
+  'browserslist',
+  'bugs',
+  'commitlint',
+  'config',
+  'contributors',
+  'description',
+  'engines',
+  'eslintConfig',
+  'files',
+  'funding',
+  'homepage',
+  'husky',
+  'keywords',
+  'license',
+  'lint-staged',
+  'maintainers',
+  'packageManager',
+  'prettier',
+  'private',
+  'publishConfig',
+  'repository',
+  'scripts',
+  'stylelint',
+  'version',
+  'volta',
+]);
+
+/** Fields whose entries map one-to-one onto package-level graph edges. */
+const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+
+export interface PackageJsonChange {
+  /** Packages added, removed, or given a different range in any dependency field. */
+  packages: string[];
+  /**
+   * Changed fields that can affect every module (`exports`, `imports`,
+   * `type`, `main`, …) or that are not known to be safe. Non-empty means the
+   * caller should run the full suite.
+   */
+  fullSuiteFields: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isDeepEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every((k) => Object.hasOwn(b, k) && isDeepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+/**
+ * Field-by-field diff of two package.json documents. Returns null if either
+ * side is not a JSON object.
+ */
+export function diffPackageJson(before: string, after: string): PackageJsonChange | null {
+  let oldPkg: unknown;
+  let newPkg: unknown;
+  try {
+    oldPkg = JSON.parse(before);
+    newPkg = JSON.parse(after);
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(oldPkg) || !isPlainObject(newPkg)) return null;
+
+  const packages = new Set<string>();
+  const fullSuiteFields: string[] = [];
+  const fields = new Set([...Object.keys(oldPkg), ...Object.keys(newPkg)]);
+  for (const field of fields) {
+    const oldValue = oldPkg[field];
+    const newValue = newPkg[field];
+    if (isDeepEqual(oldValue, newValue) || IGNORED_FIELDS.has(field)) continue;
+
+    if (DEPENDENCY_FIELDS.includes(field)) {
+      const oldDeps = isPlainObject(oldValue) ? oldValue : {};
+      const newDeps = isPlainObject(newValue) ? newValue : {};
+      for (const name of new Set([...Object.keys(oldDeps), ...Object.keys(newDeps)])) {
+        if (!isDeepEqual(oldDeps[name], newDeps[name])) packages.add(name);
+      }
+      continue;
+    }
+
+    fullSuiteFields.push(field);
+  }
+
+  return { packages: [...packages].sort(), fullSuiteFields: fullSuiteFields.sort() };
+}
+
+/**
+ * Diff `manifestPath` between each base revision and the working tree,
+ * merging the results. Returns null when the change cannot be analysed: the
+ * manifest is new or deleted relative to a base (as far as `source` can
+ * tell), or is not valid JSON.
+ */
+export async function getPackageJsonChange(
+  rootDir: string,
+  manifestPath: string,
+  baseRevisions: string[],
+  source: ChangeSource,
+): Promise<PackageJsonChange | null> {
+  let current: string;
+  try {
+    current = readFileSync(manifestPath, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const packages = new Set<string>();
+  const fullSuiteFields = new Set<string>();
+  for (const rev of baseRevisions) {
+    const previous = (await source.readFileAtRevision?.(rootDir, rev, manifestPath)) ?? null;
+    if (previous === null) return null;
+    const change = diffPackageJson(previous, current);
+    if (!change) return null;
+    for (const name of change.packages) packages.add(name);
+    for (const field of change.fullSuiteFields) fullSuiteFields.add(field);
+  }
+  return { packages: [...packages].sort(), fullSuiteFields: [...fullSuiteFields].sort() };
+}
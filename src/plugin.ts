@@ -2,15 +2,36 @@
 import type { Plugin } from 'vite';
 import type { Reporter, TestRunEndReason } from 'vitest/reporters';
 import type { TestModule } from 'vitest/node';
-import { existsSync, appendFileSync, mkdirSync } from 'node:fs';
+import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs';
 import path from 'node:path';
-import { glob } from 'tinyglobby';
-import { deltaParseNewImports } from './graph/builder.js';
-import { loadCachedReverseMap, saveCacheSync } from './graph/cache.js';
+import {
+  CONFIG_BASENAMES,
+  loadAffectedGraph,
+  selectAffectedTests,
+  type AffectedContext,
+  type AffectedDecision,
+  type AffectedStats,
+  type ComputeAffectedOptions,
+} from './affected.js';
+import { filterRelevantChangedFiles } from './changed-files.js';
+import type { RenamedFile } from './git.js';
+import { addStaticPackageEdges, type PackageImportMemo } from './graph/builder.js';
+import { mergeRuntimeEdges, updateCache } from './graph/cache.js';
 import { normalizeModuleId } from './graph/normalize.js';
-import { getChangedFiles } from './git.js';
+import { isPackageKey, packageKey, packageNameFromModulePath } from './graph/packages.js';
+import { collectModuleImports, type ModuleImports } from './graph/symbols.js';
+import { cacheStorePushKeys, pushCacheToStore, type CacheStore } from './graph/store.js';
+import { updateLastFailed } from './last-failed.js';
+import { writeRunSnapshot, type RunSnapshot } from './last-run.js';
+import {
+  readSafetyState,
+  recordSafetyRun,
+  safetyFullRunReason,
+  sampleSkippedTests,
+  type SafetyOptions,
+} from './safety.js';
 import { bfsAffectedTests } from './selector.js';
-import { filterRelevantChangedFiles } from './changed-files.js';
+import { resolveChangeSource, type ChangeSource, type VcsName } from './vcs/index.js';
 
 /**
  * Narrow shape of the Vitest 4 `experimental.importDurations` config block.
@@ -27,13 +48,46 @@ interface ExperimentalImportDurations {
 
 export interface VitestAffectedOptions {
   disabled?: boolean;
+  /**
+   * Also select tests for changes between the merge base of this ref and
+   * HEAD. `'auto'` detects it: the pull/merge request base from CI variables
+   * (GitHub, GitLab, Buildkite, CircleCI), the branch's upstream, then the
+   * remote's default branch. Default: working-tree changes only.
+   */
   ref?: string;
+  /**
+   * Where changed files come from: `'git'`, `'hg'` (Mercurial), `'jj'`
+   * (Jujutsu), `'mtime'` (files modified since the last completed run, for
+   * directories without version control) or a custom `ChangeSource`.
+   * Default `'auto'`: the repository found above the root, else `'mtime'`.
+   */
+  vcs?: 'auto' | VcsName | ChangeSource;
+  /**
+   * `'last-run'`: select only for changes whose content differs from what the
+   * last completed run saw, instead of everything in the diff. Content hashes
+   * of the changed files are kept in `.vitest-affected/last-run.json`; without
+   * a snapshot the full diff is used. Meant for agents and edit-test loops.
+   */
+  since?: 'last-run';
   changedFiles?: string[];
   verbose?: boolean;
   threshold?: number;
   allowNoTests?: boolean; // If true, allow selecting 0 tests (default: false — runs full suite instead)
   cache?: boolean; // Enable graph caching (default: true)
   statsFile?: string; // Path to append JSON-line stats after each run (e.g. '.vitest-affected/stats.jsonl')
+  /**
+   * Path to append one JSON line per selection explaining it: the shortest
+   * chain from a changed file to each selected test, and the changed files
+   * that reached no tests. `verbose` prints the same chains.
+   */
+  explainFile?: string;
+  /**
+   * Path to write a JSON document describing each run's selection: the
+   * decision and reason, affected tests, changed/deleted/ignored files (all
+   * root-relative) and timings. Overwritten on every run, for CI steps that
+   * fan out shards or skip jobs.
+   */
+  outputFile?: string;
   /**
    * Additional path prefixes or regexes to ignore from changed-file analysis.
    * Applied on top of built-in defaults (.claude/, .git/, .next/, etc).
@@ -50,38 +104,85 @@ export interface VitestAffectedOptions {
    * filter so callers don't have to reimplement the policy.
    */
   respectProvidedChangedFiles?: boolean;
+  /**
+   * The cache records the commit it was built at; files changed between that
+   * commit and HEAD are added as BFS seeds. If more than this many files
+   * drifted, run the full suite instead. Default: no limit.
+   */
+  maxCacheDrift?: number;
+  /**
+   * Shared storage for the graph, so CI jobs can start from the graph the
+   * last main build produced instead of a cold full-suite run. On a local
+   * cache miss the graph is pulled from `commit/<HEAD>`, `branch/<current>`,
+   * then `branch/<cacheStoreFallbackBranch>`; after each run the updated graph
+   * is pushed under the commit and branch keys. See `createLocalCacheStore`
+   * and `createHttpCacheStore`.
+   */
+  cacheStore?: CacheStore;
+  /** Branch whose graph is pulled when nothing closer exists (default: 'main'). */
+  cacheStoreFallbackBranch?: string;
+  /**
+   * On a cache miss, build a provisional graph by statically parsing every
+   * test file's imports (across worker threads) and select from it instead
+   * of running the full suite. Runtime edges replace the static ones as tests
+   * run. Default: false.
+   */
+  bootstrap?: boolean;
+  /** Worker threads for `bootstrap` (default: CPU count - 1, at most 8; 1 = in-process). */
+  bootstrapWorkers?: number;
+  /**
+   * Select by changed exports instead of changed files: diff each changed
+   * module's exports against the base, and skip tests whose only route to it
+   * goes through imports of unchanged exports. Records what every loaded
+   * module imports after each run. Default: false.
+   */
+  symbolLevel?: boolean;
+  /**
+   * Compute and print the selection (a table, or JSON with 'json'), write the
+   * stats line with `action: 'dry-run'`, then run no tests and exit 0.
+   * `VITEST_AFFECTED_DRY_RUN=1` (or `=json`) enables it without changing config.
+   */
+  dryRun?: boolean | 'json';
+  /**
+   * Also select the test files that failed on an earlier run and have not
+   * passed since, whatever changed. Every run records its failures in
+   * `.vitest-affected/last-failed.json`. Default: false.
+   */
+  includeLastFailed?: boolean;
+  /**
+   * Check the graph instead of trusting it: run the full suite every
+   * `fullRunEvery` runs or once `maxAge` ms have passed since the last full
+   * run, and add a `sampleRate` share of the skipped tests to selective runs.
+   * Run counts live in `.vitest-affected/safety.json`.
+   */
+  safety?: SafetyOptions;
+  /**
+   * Compute the selection but run the full suite anyway, then compare the
+   * failing test files with it. Failures the selection would have skipped
+   * (false negatives) are logged on an `action: 'audit-result'` stats line
+   * and appended to `auditFile`. `VITEST_AFFECTED_AUDIT=1` enables it without
+   * changing config. Meant for nightly CI.
+   */
+  audit?: boolean;
+  /** Audit report, one JSON line per audited run (default: '.vitest-affected/audit.jsonl'). */
+  auditFile?: string;
 }
 
-/**
- * Config file basenames that, when changed, should trigger a full test suite run.
- * Changes to these files affect the entire project rather than specific modules.
- */
-const CONFIG_BASENAMES = new Set([
-  'package.json',
-  'package-lock.json',
-  'yarn.lock',
-  'pnpm-lock.yaml',
-  'bun.lockb',
-  'tsconfig.json',
-  'vitest.config.ts',
-  'vitest.config.js',
-  'vitest.config.mts',
-  'vitest.config.mjs',
-  'vitest.config.cts',
-  'vitest.config.cjs',
-  'vitest.workspace.ts',
-  'vitest.workspace.js',
-  'vitest.workspace.mts',
-  'vitest.workspace.mjs',
-  'vitest.workspace.cts',
-  'vitest.workspace.cjs',
-  'vite.config.ts',
-  'vite.config.js',
-  'vite.config.mts',
-  'vite.config.mjs',
-  'vite.config.cts',
-  'vite.config.cjs',
-]);
+export interface RuntimeReporterOptions {
+  /**
+   * Only collect edges for test modules belonging to this project. In a
+   * multi-project workspace every project injects its own reporter, and each
+   * one sees every module — without this filter edges would leak between
+   * per-project graphs.
+   */
+  projectName?: string;
+  /**
+   * Called when a run completes with the test modules that failed and the
+   * ones that passed or were skipped (absolute paths), after the same
+   * project filter as edges.
+   */
+  onTestResults?: (failed: string[], passed: string[]) => void;
+}
 
 /**
  * @internal
@@ -92,7 +193,8 @@ const CONFIG_BASENAMES = new Set([
  * resolved rootDir is known (deferred because config() runs before configureVitest()).
  */
 export function createRuntimeReporter(
-  onEdgesCollected: (edges: Map<string, Set<string>>) => void,
+  onEdgesCollected: (edges: Map<string, Set<string>>) => void | Promise<void>,
+  options: RuntimeReporterOptions = {},
 ): { reporter: Reporter; setRootDir: (dir: string) => void } {
   let rootDir: string | null = null;
   const runtimeReverse = new Map<string, Set<string>>();
@@ -107,6 +209,14 @@ export function createRuntimeReporter(
     // Guard: rootDir not yet set
     if (!rootDir) return;
 
+    // Guard: module belongs to another workspace project
+    if (
+      options.projectName !== undefined &&
+      (testModule.project?.name ?? '') !== options.projectName
+    ) {
+      return;
+    }
+
     // Guard: virtual module IDs are not absolute paths
     if (!path.isAbsolute(testPath)) return;
 
@@ -118,37 +228,56 @@ export function createRuntimeReporter(
       const modulePath = normalizeModuleId(rawPath);
       // Must be absolute
       if (!path.isAbsolute(modulePath)) continue;
-      // Skip node_modules (Vite paths always use forward slashes)
-      if (modulePath.includes('/node_modules/')) continue;
+      // node_modules: record a package-level edge instead of the file, so a
+      // lockfile change can select tests by package (Vite paths use '/')
+      if (modulePath.includes('/node_modules/')) {
+        const pkgName = packageNameFromModulePath(modulePath);
+        if (pkgName) addEdge(packageKey(pkgName), testPath);
+        continue;
+      }
       // Must be under rootDir
       if (!modulePath.startsWith(rootPrefix)) continue;
       // Skip self-reference
       if (modulePath === testPath) continue;
 
       // Add reverse edge: modulePath → Set<testPath>
-      if (!runtimeReverse.has(modulePath)) {
-        runtimeReverse.set(modulePath, new Set());
-      }
-      runtimeReverse.get(modulePath)!.add(testPath);
+      addEdge(modulePath, testPath);
     }
   }
 
+  function addEdge(key: string, testPath: string): void {
+    if (!runtimeReverse.has(key)) {
+      runtimeReverse.set(key, new Set());
+    }
+    runtimeReverse.get(key)!.add(testPath);
+  }
+
   function onTestRunEnd(
-    _testModules: ReadonlyArray<TestModule>,
+    testModules: ReadonlyArray<TestModule>,
     _errors: ReadonlyArray<unknown>,
     reason: TestRunEndReason,
-  ): void {
+  ): void | Promise<void> {
     // Interrupt: skip both persistence and clear
     if (reason === 'interrupted') return;
 
-    if (runtimeReverse.size > 0) {
-      // Snapshot: pass a copy so clear() doesn't affect the callback's data
-      const snapshot = new Map(
-        [...runtimeReverse].map(([k, v]) => [k, new Set(v)]),
-      );
-      onEdgesCollected(snapshot);
+    if (options.onTestResults) {
+      const failed: string[] = [];
+      const passed: string[] = [];
+      for (const m of testModules) {
+        if (options.projectName !== undefined && (m.project?.name ?? '') !== options.projectName) continue;
+        (m.state() === 'failed' ? failed : passed).push(normalizeModuleId(m.moduleId));
+      }
+      options.onTestResults(failed, passed);
     }
+
+    if (runtimeReverse.size === 0) return;
+    // Snapshot: pass a copy so clear() doesn't affect the callback's data
+    const snapshot = new Map(
+      [...runtimeReverse].map(([k, v]) => [k, new Set(v)]),
+    );
     runtimeReverse.clear();
+    // Returned so Vitest awaits async persistence (cache store push) before exiting
+    return onEdgesCollected(snapshot);
   }
 
   const reporter: Reporter = {
@@ -159,47 +288,426 @@ export function createRuntimeReporter(
   return { reporter, setRootDir };
 }
 
+/** Affected tests keyed to their chain from a changed file, both root-relative. */
+interface SelectionExplanation {
+  project?: string;
+  tests: Record<string, string[]>;
+  unreached: string[];
+}
+
+/** One audited run as appended to `auditFile`, with root-relative paths. */
+interface AuditReport {
+  project?: string;
+  selection: 'selective' | 'full-suite';
+  reason?: string;
+  affectedTests: string[];
+  failedTests: string[];
+  falseNegatives: string[];
+  changed: string[];
+}
+
+const DEFAULT_AUDIT_FILE = '.vitest-affected/audit.jsonl';
+
 function writeStatsLine(
   statsFile: string,
   rootDir: string,
-  data: {
-    action: string;
-    reason?: string;
-    changedFiles?: number;
-    deletedFiles?: number;
-    ignoredFiles?: number;
-    affectedTests?: number;
-    totalTests?: number;
-    graphSize?: number;
-    cacheHit?: boolean;
-    durationMs?: number;
-  },
+  data: AffectedStats,
   verbose = false,
+): void {
+  appendJsonLine(statsFile, rootDir, data, 'stats', verbose);
+}
+
+function appendJsonLine(
+  file: string,
+  rootDir: string,
+  data: object,
+  what: string,
+  verbose: boolean,
 ): void {
   try {
-    const filePath = path.isAbsolute(statsFile) ? statsFile : path.resolve(rootDir, statsFile);
+    const filePath = path.isAbsolute(file) ? file : path.resolve(rootDir, file);
     mkdirSync(path.dirname(filePath), { recursive: true });
     const line = JSON.stringify({ timestamp: new Date().toISOString(), ...data });
     appendFileSync(filePath, line + '\n');
   } catch (err) {
-    // Best-effort — never crash on stats writing
+    // Best-effort — never crash on stats or explanation writing
     if (verbose) {
       console.warn(
-        `[vitest-affected] Failed to write stats: ${err instanceof Error ? err.message : String(err)}`,
+        `[vitest-affected] Failed to write ${what}: ${err instanceof Error ? err.message : String(err)}`,
       );
     }
   }
 }
 
-export function vitestAffected(options: VitestAffectedOptions = {}): Plugin {
-  // Hoisted state — shared between config() and configureVitest()
-  let reverse: Map<string, Set<string>> = new Map();
-  let cacheDir: string | undefined;
+/**
+ * @internal
+ * Cache directory for a project. Single-project setups keep the historical
+ * `.vitest-affected/graph.json` location; workspace projects each get their
+ * own graph under `.vitest-affected/projects/<name>/`.
+ */
+export function resolveCacheDir(rootDir: string, projectName: string, multiProject: boolean): string {
+  const base = path.join(rootDir, '.vitest-affected');
+  if (!multiProject) return base;
+  return path.join(base, 'projects', projectCacheKey(projectName));
+}
+
+/** Filesystem- and URL-safe form of a project name. */
+function projectCacheKey(projectName: string): string {
+  return projectName.replace(/[^a-zA-Z0-9._-]/g, '_') || 'default';
+}
+
+/** One project's selection as written to `outputFile`. */
+interface SelectionOutput {
+  action: 'selective' | 'full-suite';
+  reason?: string;
+  dryRun?: true;
+  audit?: true;
+  affectedTests: string[];
+  sampledTests?: string[];
+  lastFailed?: string[];
+  totalTests?: number;
+  changed: string[];
+  deleted: string[];
+  ignored: string[];
+  startedAt: string;
+  durationMs: number;
+}
+
+/** Workspace `outputFile` documents, one per Vitest instance, filled in as projects decide. */
+const workspaceOutputs = new WeakMap<object, Record<string, SelectionOutput>>();
+
+/**
+ * Overwrite `outputFile` with this run's selection. In a workspace the
+ * document keeps every project under `projects` and summarises them at the
+ * top level: the full suite if any project runs it, and the union of tests.
+ */
+function writeOutputFile(
+  outputFile: string,
+  rootDir: string,
+  vitest: object,
+  projectName: string | undefined,
+  output: SelectionOutput,
+  verbose: boolean,
+): void {
+  let document: object = output;
+  if (projectName !== undefined) {
+    const projects = workspaceOutputs.get(vitest) ?? {};
+    workspaceOutputs.set(vitest, projects);
+    projects[projectName] = output;
+    const outputs = Object.values(projects);
+    document = {
+      action: outputs.some((o) => o.action === 'full-suite') ? 'full-suite' : 'selective',
+      affectedTests: [...new Set(outputs.flatMap((o) => o.affectedTests))].sort(),
+      projects,
+    };
+  }
+  try {
+    const filePath = path.isAbsolute(outputFile) ? outputFile : path.resolve(rootDir, outputFile);
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(document, null, 2) + '\n');
+  } catch (err) {
+    // Best-effort, like stats
+    if (verbose) {
+      console.warn(
+        `[vitest-affected] Failed to write output file: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+}
+
+/** Root-relative, forward-slash form of a graph path (`pkg:` keys as-is). */
+function toRelative(rootDir: string, file: string): string {
+  return isPackageKey(file) ? file : path.relative(rootDir, file).replaceAll('\\', '/');
+}
+
+/** A decision after the plugin's safety net, which may add sampled tests. */
+interface PluginDecision extends AffectedDecision {
+  /** Skipped tests added to `affectedTests` by `safety.sampleRate`. */
+  sampledTests?: string[];
+}
+
+/** A decision with root-relative paths, as printed or written for other tools. */
+function formatSelection(decision: PluginDecision, rootDir: string) {
+  const rel = (f: string) => toRelative(rootDir, f);
+  return {
+    action: decision.action,
+    ...(decision.reason ? { reason: decision.reason } : {}),
+    affectedTests: decision.affectedTests.map(rel),
+    ...(decision.sampledTests ? { sampledTests: decision.sampledTests.map(rel) } : {}),
+    ...(decision.lastFailed ? { lastFailed: decision.lastFailed.map(rel) } : {}),
+    ...(decision.totalTests !== undefined ? { totalTests: decision.totalTests } : {}),
+    changed: decision.changed.map(rel),
+    deleted: decision.deleted.map(rel),
+    ignored: decision.ignored.map(rel),
+    chains: Object.fromEntries(
+      Object.entries(decision.chains).map(([test, chain]) => [rel(test), chain.map(rel)]),
+    ),
+    unreached: decision.unreached.map(rel),
+  };
+}
+
+/** Dry-run summary: the decision, then each selected test beside the changed file that selected it. */
+function formatDryRunTable(decision: PluginDecision, rootDir: string, label: string): string {
+  const selection = formatSelection(decision, rootDir);
+  const of = selection.totalTests !== undefined ? ` of ${selection.totalTests}` : '';
+  const lines = [
+    decision.action === 'selective'
+      ? `${label} Dry run — ${selection.affectedTests.length}${of} test file(s) would run` +
+        (decision.reason ? ` (${decision.reason})` : '')
+      : `${label} Dry run — the full suite would run (${decision.reason})`,
+    `  changed: ${selection.changed.length}, deleted: ${selection.deleted.length}, ignored: ${selection.ignored.length}`,
+  ];
+  const width = Math.max(0, ...selection.affectedTests.map((t) => t.length));
+  for (const test of selection.affectedTests) {
+    const chain = selection.chains[test];
+    const origin = selection.lastFailed?.includes(test)
+      ? '(failed last run)'
+      : !chain ? '(sampled)' : chain.length > 1 ? `← ${chain[0]}` : '(changed)';
+    lines.push(`  ${test.padEnd(width)}  ${origin}`);
+  }
+  return lines.join('\n');
+}
+
+/** Leave Vitest nothing to run, and make an empty run a success. */
+function skipAllTests(
+  vitest: { config: { passWithNoTests?: boolean } },
+  project: { config: { include: string[] } },
+): void {
+  project.config.include = [];
+  vitest.config.passWithNoTests = true;
+}
+
+/** Vite's `build.outDir`, relative to the project root. */
+function viteOutDir(project: { vite: { config: { build: { outDir: string } } } }): string {
+  try {
+    return project.vite.config.build.outDir;
+  } catch {
+    // The project's Vite server is not up yet
+    return 'dist';
+  }
+}
+
+/** Reporters injected per Vitest instance, keyed by project name. */
+const injectedReporters = new WeakMap<object, Map<string, Reporter>>();
+
+/**
+ * configureVitest fires BEFORE Vitest's createReporters assigns vitest.reporters.
+ * A direct push onto the current (empty) array is lost when createReporters
+ * overwrites it with a new array. Use a property setter to intercept that
+ * assignment and append our reporters to whatever Vitest creates.
+ *
+ * Workspace projects each inject a reporter into the same Vitest instance, so
+ * the setter re-appends every project's reporter, not just the last one. A
+ * project injecting again (server restart) replaces its previous reporter.
+ */
+function injectReporter(vitest: object, projectName: string, reporter: Reporter): void {
+  const vitestAny = vitest as unknown as { reporters: Reporter[] };
+  const existing = injectedReporters.get(vitest);
+  if (existing) {
+    const previous = existing.get(projectName);
+    if (previous) {
+      const idx = vitestAny.reporters.indexOf(previous);
+      if (idx !== -1) vitestAny.reporters.splice(idx, 1);
+    }
+    existing.set(projectName, reporter);
+    if (!vitestAny.reporters.includes(reporter)) vitestAny.reporters.push(reporter);
+    return;
+  }
+
+  const ours = new Map([[projectName, reporter]]);
+  injectedReporters.set(vitest, ours);
+  try {
+    let _reporters = vitestAny.reporters;
+    _reporters.push(reporter);
+    Object.defineProperty(vitest, 'reporters', {
+      configurable: true,
+      enumerable: true,
+      get() { return _reporters; },
+      set(value: Reporter[]) {
+        _reporters = value;
+        for (const r of ours.values()) {
+          if (!value.includes(r)) value.push(r);
+        }
+      },
+    });
+  } catch {
+    // Fallback: direct push (works in unit tests with plain mock objects)
+    vitestAny.reporters.push(reporter);
+  }
+}
+
+/**
+ * Cross-project bookkeeping for one Vitest instance. Vitest runs every
+ * project's configureVitest concurrently; a project that finds zero affected
+ * tests waits here to learn whether any other project will run tests. If one
+ * does, the change is covered and this project can be narrowed to nothing;
+ * if none does, it falls back to its full suite like a single project would.
+ *
+ * Participants are the projects whose hook actually ran: Vitest starts every
+ * hook in the same tick, so each one registers before any can report, while
+ * projects without this plugin (or without a Vite config of their own) never
+ * register and are never waited for.
+ */
+interface WorkspaceCoordinator {
+  registered: number;
+  reported: number;
+  runsTests: boolean;
+  settled: Promise<boolean>;
+  resolve: (runsTests: boolean) => void;
+}
 
+const workspaceCoordinators = new WeakMap<object, WorkspaceCoordinator>();
+
+/** Register a project's hook with its Vitest instance's coordinator. Call before the first await. */
+function registerWorkspaceProject(vitest: object): WorkspaceCoordinator {
+  let coordinator = workspaceCoordinators.get(vitest);
+  if (!coordinator) {
+    let resolve!: (runsTests: boolean) => void;
+    const settled = new Promise<boolean>((r) => { resolve = r; });
+    coordinator = { registered: 0, reported: 0, runsTests: false, settled, resolve };
+    workspaceCoordinators.set(vitest, coordinator);
+  }
+  coordinator.registered++;
+  return coordinator;
+}
+
+function reportProjectOutcome(
+  vitest: object,
+  coordinator: WorkspaceCoordinator,
+  runsTests: boolean,
+): void {
+  coordinator.reported++;
+  if (runsTests) coordinator.runsTests = true;
+  // A hook that returns without awaiting reports while Vitest is still
+  // starting the others; settle once they have all registered
+  queueMicrotask(() => {
+    if (coordinator.reported < coordinator.registered || workspaceCoordinators.get(vitest) !== coordinator) return;
+    // Forget this round so a server restart starts with a fresh tally
+    workspaceCoordinators.delete(vitest);
+    coordinator.resolve(coordinator.runsTests);
+  });
+}
+
+/** Narrow shape of the Vitest surface the watch filter relies on. */
+interface WatchableVitest {
+  vite?: {
+    watcher?: {
+      on(event: 'add' | 'change' | 'unlink', listener: (file: string) => void): unknown;
+    };
+  };
+  onTestsRerun?(fn: () => void | Promise<void>): void;
+  onFilterWatchedSpecification(
+    fn: (spec: { moduleId: string; project?: { name: string } }) => boolean,
+  ): void;
+}
+
+/**
+ * Watch events selection never has to react to: the plugin's own state
+ * (`.vitest-affected/`, written after every run), the stats, output,
+ * explain and audit files, and the files the changed-file filter drops.
+ */
+function watchIgnore(rootDir: string, options: VitestAffectedOptions): (file: string) => boolean {
+  const toAbsolute = (file: string): string =>
+    (path.isAbsolute(file) ? file : path.resolve(rootDir, file)).replaceAll('\\', '/');
+  const stateDir = toAbsolute('.vitest-affected') + '/';
+  const written = new Set(
+    [options.statsFile, options.outputFile, options.explainFile, options.auditFile ?? DEFAULT_AUDIT_FILE]
+      .filter((f): f is string => f !== undefined)
+      .map(toAbsolute),
+  );
+  return (file) =>
+    file.startsWith(stateDir) ||
+    written.has(file) ||
+    filterRelevantChangedFiles({ changed: [file], deleted: [] }, rootDir, {
+      ignoreChangedFiles: options.ignoreChangedFiles,
+      includeChangedExtensions: options.includeChangedExtensions,
+      configBasenames: CONFIG_BASENAMES,
+    }).ignored.length > 0;
+}
+
+/**
+ * @internal
+ * Watch mode: narrow each rerun to the tests the reverse map says are affected
+ * by the files that changed since the last rerun.
+ *
+ * Changed files are collected from Vite's watcher and cleared once Vitest has
+ * filtered and scheduled the rerun. `reverse` is read on every rerun, so edges
+ * merged in by the runtime reporter between reruns are picked up. Whenever a
+ * changed file is unknown to the graph (new file, never-run test, etc.) the
+ * filter passes everything through and defers to Vitest's own module graph.
+ * Files `isIgnored` rejects (what the plugin writes itself, files selection
+ * ignores) are never collected, so they cannot force a pass-through.
+ */
+export function registerWatchFilter(
+  vitest: WatchableVitest,
+  reverse: Map<string, Set<string>>,
+  projectName?: string,
+  isIgnored: (file: string) => boolean = () => false,
+): void {
+  const pending = new Set<string>();
+  // Memoized per batch of pending changes; null = pass-through
+  let affected: Set<string> | null | undefined;
+
+  const onFileEvent = (file: string): void => {
+    const normalized = file.replaceAll('\\', '/');
+    if (isIgnored(normalized)) return;
+    pending.add(normalized);
+    affected = undefined;
+  };
+  const watcher = vitest.vite?.watcher;
+  if (watcher) {
+    watcher.on('change', onFileEvent);
+    watcher.on('add', onFileEvent);
+    watcher.on('unlink', onFileEvent);
+  }
+  vitest.onTestsRerun?.(() => {
+    pending.clear();
+    affected = undefined;
+  });
+
+  const computeAffected = (): Set<string> | null => {
+    if (pending.size === 0) return null;
+    const knownTests = new Set<string>();
+    for (const tests of reverse.values()) {
+      for (const t of tests) knownTests.add(t);
+    }
+    for (const file of pending) {
+      if (!reverse.has(file) && !knownTests.has(file)) return null;
+    }
+    // Every node the walk reaches is a candidate; the spec check below only
+    // ever asks about test modules, so no test-file predicate is needed.
+    return new Set(bfsAffectedTests([...pending], reverse, () => true));
+  };
+
+  vitest.onFilterWatchedSpecification((spec) => {
+    // Workspace: other projects' specs are theirs to filter
+    if (projectName !== undefined && (spec.project?.name ?? '') !== projectName) return true;
+    if (affected === undefined) affected = computeAffected();
+    if (affected === null) return true;
+    return affected.has(normalizeModuleId(spec.moduleId));
+  });
+}
+
+export function vitestAffected(options: VitestAffectedOptions = {}): Plugin {
   return {
     name: 'vitest-affected',
 
     async configureVitest({ vitest, project }) {
+      // Workspace bookkeeping: every project reports whether it will run tests
+      // (see WorkspaceCoordinator). Single-project runs skip coordination.
+      const multiProject = vitest.projects.length > 1;
+      const coordinator = multiProject ? registerWorkspaceProject(vitest) : undefined;
+      let outcomeReported = false;
+      const reportOutcome = (runsTests: boolean): void => {
+        if (!coordinator || outcomeReported) return;
+        outcomeReported = true;
+        reportProjectOutcome(vitest, coordinator, runsTests);
+      };
+
+      const envDryRun = process.env.VITEST_AFFECTED_DRY_RUN;
+      const dryRun = envDryRun === 'json' ? 'json' : envDryRun === '1' ? true : options.dryRun ?? false;
+      const audit = process.env.VITEST_AFFECTED_AUDIT === '1' || (options.audit ?? false);
+
       try {
         // 1. Env override
         let { disabled = false } = options;
@@ -212,15 +720,7 @@ export function vitestAffected(options: VitestAffectedOptions = {}): Plugin {
           return;
         }
 
-        // 3. Workspace guard
-        if (vitest.projects.length > 1) {
-          console.warn(
-            '[vitest-affected] Workspace with multiple projects detected — skipping test selection, running full suite',
-          );
-          return;
-        }
-
-        // 4. Config shape validation
+        // 3. Config shape validation
         if (
           !vitest.config ||
           !vitest.config.root ||
@@ -234,9 +734,15 @@ export function vitestAffected(options: VitestAffectedOptions = {}): Plugin {
         }
 
         const rootDir = vitest.config.root;
+        // Workspace projects glob their own include patterns from their own root;
+        // changed files and graph confinement stay anchored at the workspace root.
+        const projectRoot = (project.config.root ?? rootDir).replaceAll('\\', '/');
+        const projectName = project.name ?? '';
         const verbose = options.verbose ?? false;
         const statsFile = options.statsFile;
         const startMs = Date.now();
+        const statsExtra: { project?: string } = multiProject ? { project: projectName } : {};
+        const label = multiProject ? `[vitest-affected] [${projectName}]` : '[vitest-affected]';
 
         // Vitest 4 gates getImportDurations() on experimental.importDurations.limit
         // (defaults to 0 → empty result → reverse-graph reporter sees nothing →
@@ -253,319 +759,292 @@ export function vitestAffected(options: VitestAffectedOptions = {}): Plugin {
           };
         }
 
-        // 5. Load cached reverse map (runtime-first: JSON read, no parsing)
-        cacheDir = path.join(rootDir, '.vitest-affected');
-
-        let cacheHit: boolean;
-        if (options.cache !== false) {
-          ({ reverse, hit: cacheHit } = loadCachedReverseMap(cacheDir, rootDir, verbose));
-        } else {
-          reverse = new Map();
-          cacheHit = false;
-        }
+        // 4–4a. Load the cached graph (pulling it from the cache store on a miss).
+        // One change source per project: the mtime source records what it saw.
+        const changeSource = resolveChangeSource(rootDir, options.vcs);
+        const engineOptions: ComputeAffectedOptions = {
+          ...options,
+          vcs: changeSource,
+          rootDir,
+          projectRoot,
+          include: project.config.include,
+          exclude: project.config.exclude,
+          setupFiles: project.config.setupFiles,
+          cacheDir: resolveCacheDir(rootDir, projectName, multiProject),
+          // Written by the run itself: the mtime change source skips them
+          outputDirs: [
+            path.resolve(projectRoot, viteOutDir(project)),
+            path.resolve(rootDir, vitest.config.coverage?.reportsDirectory ?? 'coverage'),
+          ].map((dir) => dir.replaceAll('\\', '/')),
+        };
+        const context: AffectedContext = {
+          label,
+          startMs,
+          storeKeyPrefix: multiProject ? `projects/${projectCacheKey(projectName)}/` : '',
+        };
+        const graph = await loadAffectedGraph(engineOptions, context);
+        const { cacheDir, reverse, headCommit, storeKeyContext } = graph;
+        const cacheStore = options.cache !== false ? options.cacheStore : undefined;
+        const safety = options.safety;
+        const writeStats = (stats: AffectedStats): void => {
+          if (statsFile) writeStatsLine(statsFile, rootDir, { ...stats, ...statsExtra }, verbose);
+        };
+        // Skipped tests sampled into this run, and the selection an audited
+        // run is checked against, reported once the run's results are in
+        let sampledTests: string[] = [];
+        let audited: PluginDecision | undefined;
+        // Renames the selection re-keyed in memory, re-applied to the latest graph on save
+        let renames: RenamedFile[] = [];
+        // The change set this run was selected from, for `since: 'last-run'`
+        let runSnapshot: RunSnapshot | undefined;
+        const onTestResults = (failed: string[], passed: string[]): void => {
+          updateLastFailed(cacheDir, rootDir, failed, passed);
+          // A dry run ran nothing, so the changes it saw are still untested
+          if (!dryRun) {
+            changeSource.recordRun?.(rootDir, cacheDir);
+            if (runSnapshot) writeRunSnapshot(cacheDir, rootDir, runSnapshot);
+          }
+          runSnapshot = undefined;
+          const rel = (f: string) => toRelative(rootDir, f);
+          const failedSet = new Set(failed);
+          if (sampledTests.length > 0) {
+            writeStats({
+              action: 'sample-result',
+              sampledTests: sampledTests.length,
+              sampledFailures: sampledTests.filter((t) => failedSet.has(t)).map(rel),
+            });
+            sampledTests = [];
+          }
+          if (audited) {
+            // A full-suite selection would have run every failing test
+            const selected = new Set(audited.affectedTests);
+            const falseNegatives = audited.action === 'selective'
+              ? failed.filter((t) => !selected.has(t)).sort()
+              : [];
+            writeStats({
+              action: 'audit-result',
+              selection: audited.action,
+              failedTests: failed.length,
+              falseNegatives: falseNegatives.map(rel),
+            });
+            const report: AuditReport = {
+              ...statsExtra,
+              selection: audited.action,
+              ...(audited.reason ? { reason: audited.reason } : {}),
+              affectedTests: audited.affectedTests.map(rel),
+              failedTests: [...failed].sort().map(rel),
+              falseNegatives: falseNegatives.map(rel),
+              changed: audited.changed.map(rel),
+            };
+            appendJsonLine(options.auditFile ?? DEFAULT_AUDIT_FILE, rootDir, report, 'audit report', verbose);
+            if (falseNegatives.length > 0) {
+              console.warn(
+                `${label} Audit: ${falseNegatives.length} failing test file(s) were not selected: ${falseNegatives.map(rel).join(', ')}`,
+              );
+            }
+            audited = undefined;
+          }
+        };
 
         // Inject runtime reporter that merges runtime edges into cached reverse map.
         // On selective runs only a subset of tests execute, so we merge new edges
         // into the existing cache rather than replacing it (which would destroy
         // graph data for tests that didn't run this time).
-        const { reporter, setRootDir } = createRuntimeReporter((edges) => {
-          if (!cacheDir) return;
+        const packageImports: PackageImportMemo = new Map();
+        const { reporter, setRootDir } = createRuntimeReporter(async (edges) => {
           try {
-            // Per-test overwrite: collect which tests ran this cycle, then
-            // remove their stale edges before adding new ones. This ensures
-            // removed imports are reflected (not just accumulated forever).
-            const ranTests = new Set<string>();
-            for (const tests of edges.values()) {
-              for (const t of tests) ranTests.add(t);
-            }
-            // Strip stale edges for tests that ran
-            for (const [file, tests] of reverse) {
-              for (const t of ranTests) tests.delete(t);
-              if (tests.size === 0) reverse.delete(file);
-            }
-            // Add fresh edges from this run
+            addStaticPackageEdges(edges, rootDir, packageImports);
+          } catch {
+            // Best-effort: lockfile changes fall back to the full suite without package edges
+          }
+          let symbols: Map<string, ModuleImports> | undefined;
+          if (options.symbolLevel) {
+            const loaded = new Set<string>();
             for (const [file, tests] of edges) {
-              if (!reverse.has(file)) {
-                reverse.set(file, new Set(tests));
-              } else {
-                for (const t of tests) {
-                  reverse.get(file)!.add(t);
-                }
-              }
+              if (!isPackageKey(file)) loaded.add(file);
+              for (const t of tests) loaded.add(t);
             }
-            saveCacheSync(cacheDir, reverse);
+            symbols = collectModuleImports(loaded, rootDir);
+          }
+          // Keep the in-memory map current for watch mode even if persisting fails
+          mergeRuntimeEdges(reverse, edges);
+          try {
+            // Re-read graph.json under a lock and apply only our per-test
+            // overwrite, so concurrent processes sharing the cache compose
+            const latest = await updateCache(cacheDir, rootDir, edges, { commit: headCommit, symbols, renames });
+            reverse.clear();
+            for (const [file, tests] of latest) reverse.set(file, tests);
           } catch {
             // Best-effort: runtime edge persistence failed — cache will be stale next run
+            return;
+          }
+          if (cacheStore && storeKeyContext) {
+            try {
+              await pushCacheToStore(cacheStore, cacheStorePushKeys(storeKeyContext), cacheDir);
+            } catch (err) {
+              console.warn(
+                `${label} Cache store push failed: ${err instanceof Error ? err.message : String(err)}`,
+              );
+            }
           }
+        }, {
+          ...(multiProject ? { projectName } : {}),
+          onTestResults,
         });
         setRootDir(rootDir);
+        injectReporter(vitest, projectName, reporter);
 
-        // configureVitest fires BEFORE Vitest's createReporters assigns vitest.reporters.
-        // A direct push onto the current (empty) array is lost when createReporters
-        // overwrites it with a new array. Use a property setter to intercept that
-        // assignment and append our reporter to whatever Vitest creates.
-        const vitestAny = vitest as unknown as { reporters: Reporter[] };
-        try {
-          let _reporters = vitestAny.reporters;
-          _reporters.push(reporter);
-          Object.defineProperty(vitest, 'reporters', {
-            configurable: true,
-            enumerable: true,
-            get() { return _reporters; },
-            set(value: Reporter[]) {
-              _reporters = value;
-              if (!value.includes(reporter)) {
-                value.push(reporter);
-              }
-            },
-          });
-        } catch {
-          // Fallback: direct push (works in unit tests with plain mock objects)
-          vitestAny.reporters.push(reporter);
-        }
-
-        // Register watch-mode filter: pass-through (Vitest's own module graph handles it)
+        // Register watch-mode filter backed by the live reverse map (kept current
+        // in-memory by the runtime reporter callback above)
         if (vitest.config.watch) {
-          vitest.onFilterWatchedSpecification(() => true);
-        }
-
-        // 6. Get changed files
-        let changed: string[];
-        let deleted: string[];
-        const changedFromCaller = options.changedFiles !== undefined;
-
-        if (changedFromCaller) {
-          // Resolve relative paths to rootDir and normalize to forward slashes (Vite convention)
-          const resolved = options.changedFiles!.map((f) =>
-            (path.isAbsolute(f) ? f : path.resolve(rootDir, f)).replaceAll('\\', '/'),
-          );
-          changed = resolved.filter((f) => existsSync(f));
-          deleted = resolved.filter((f) => !existsSync(f));
-        } else {
-          const result = await getChangedFiles(rootDir, options.ref);
-          changed = result.changed;
-          deleted = result.deleted;
-        }
-
-        // 6b. Filter irrelevant changed/deleted files before any graph analysis.
-        // Caller-provided changedFiles still get filtered unless explicitly opted out.
-        let ignoredCount = 0;
-        if (!(changedFromCaller && options.respectProvidedChangedFiles)) {
-          const filtered = filterRelevantChangedFiles(
-            { changed, deleted },
-            rootDir,
-            {
-              ignoreChangedFiles: options.ignoreChangedFiles,
-              includeChangedExtensions: options.includeChangedExtensions,
-              configBasenames: CONFIG_BASENAMES,
-            },
+          registerWatchFilter(
+            vitest,
+            reverse,
+            multiProject ? projectName : undefined,
+            watchIgnore(rootDir, options),
           );
-          ignoredCount = filtered.ignored.length;
-          changed = filtered.changed;
-          deleted = filtered.deleted;
-          if (verbose && ignoredCount > 0) {
-            console.warn(
-              `[vitest-affected] ignored ${ignoredCount} changed file(s) before graph analysis`,
-            );
-          }
         }
 
-        // 7. No changes check — run full suite
-        if (changed.length === 0 && deleted.length === 0) {
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'no-changes',
-            changedFiles: 0, deletedFiles: 0, ignoredFiles: ignoredCount,
-            graphSize: reverse.size,
+        // 5–16. Decide between a selective run and the full suite
+        let decision: PluginDecision = await selectAffectedTests(engineOptions, graph, context);
+        renames = decision.renames ?? [];
+        runSnapshot = decision.runSnapshot;
+        const writeOutput = (outcome: Partial<SelectionOutput> = {}): void => {
+          if (!options.outputFile) return;
+          const { chains: _chains, unreached: _unreached, ...selection } = formatSelection(decision, rootDir);
+          writeOutputFile(options.outputFile, rootDir, vitest, multiProject ? projectName : undefined, {
+            ...selection,
+            startedAt: new Date(startMs).toISOString(),
             durationMs: Date.now() - startMs,
+            ...outcome,
           }, verbose);
-          return;
-        }
+        };
 
-        // 8. Deleted file handling — treat as BFS seeds
-        if (deleted.length > 0 && verbose) {
-          console.warn(
-            `[vitest-affected] ${deleted.length} deleted file(s) — will include as BFS seeds`,
-          );
+        // Explanations exist once the graph walk ran (step 12)
+        if (options.explainFile && decision.totalTests !== undefined) {
+          const { chains: tests, unreached } = formatSelection(decision, rootDir);
+          const explanation: SelectionExplanation = { ...statsExtra, tests, unreached };
+          appendJsonLine(options.explainFile, rootDir, explanation, 'explanation', verbose);
         }
 
-        // 9. Force-rerun check: config file or setupFiles changes → full suite
-        const allChangedFiles = [...changed, ...deleted];
-        const hasConfigChange = allChangedFiles.some((f) =>
-          CONFIG_BASENAMES.has(path.basename(f)),
-        );
-        if (hasConfigChange) {
-          console.warn(
-            '[vitest-affected] Config file change detected — running full suite',
-          );
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'config-change',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            graphSize: reverse.size, durationMs: Date.now() - startMs,
-          }, verbose);
-          return;
+        // Safety net: a periodic full run, or a random sample of the skipped
+        // tests, to catch tests the graph should have selected
+        if (safety && !audit && decision.action === 'selective') {
+          const safetyReason = safetyFullRunReason(safety, readSafetyState(cacheDir));
+          if (safetyReason) {
+            console.warn(`${label} Safety run (${safetyReason}) — running full suite`);
+            decision = {
+              ...decision,
+              action: 'full-suite',
+              reason: safetyReason,
+              affectedTests: [],
+              ...(decision.stats ? { stats: { ...decision.stats, action: 'full-suite', reason: safetyReason } } : {}),
+            };
+          } else if (safety.sampleRate && decision.testFiles) {
+            const sampled = sampleSkippedTests(decision.testFiles, decision.affectedTests, safety.sampleRate);
+            if (sampled.length > 0) {
+              if (verbose) {
+                console.warn(`${label} Safety: sampled ${sampled.length} skipped test file(s)`);
+              }
+              decision = {
+                ...decision,
+                affectedTests: [...decision.affectedTests, ...sampled],
+                sampledTests: sampled,
+                ...(decision.stats ? { stats: { ...decision.stats, sampledTests: sampled.length } } : {}),
+              };
+              if (!dryRun) sampledTests = sampled;
+            }
+          }
         }
+        const recordRun = (fullRun: boolean): void => {
+          if (safety) recordSafetyRun(cacheDir, fullRun);
+        };
 
-        const setupFilesRaw = project.config.setupFiles ?? [];
-        const setupFileSet = new Set(
-          (Array.isArray(setupFilesRaw) ? setupFilesRaw : [setupFilesRaw]).map(
-            (f) => (path.isAbsolute(f) ? f : path.resolve(rootDir, f)).replaceAll('\\', '/'),
-          ),
-        );
-        const hasSetupFileChange = allChangedFiles.some((f) => setupFileSet.has(f));
-        if (hasSetupFileChange) {
-          console.warn(
-            '[vitest-affected] Setup file change detected — running full suite',
-          );
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'setup-file-change',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            graphSize: reverse.size, durationMs: Date.now() - startMs,
-          }, verbose);
+        // Dry run: report the selection, then hand Vitest nothing to run
+        if (dryRun) {
+          reportOutcome(false);
+          console.log(dryRun === 'json'
+            ? JSON.stringify({ ...statsExtra, ...formatSelection(decision, rootDir) })
+            : formatDryRunTable(decision, rootDir, label));
+          skipAllTests(vitest, project);
+          writeStats({ ...decision.stats, action: 'dry-run', reason: decision.reason, selection: decision.action });
+          writeOutput({ dryRun: true });
           return;
         }
 
-        // 10. Cache miss → full suite (first run collects runtime data)
-        if (!cacheHit) {
-          if (verbose) {
-            console.warn(
-              '[vitest-affected] No cached runtime graph — running full suite (will populate cache after run)',
-            );
+        // Audit: keep the selection to check failures against, but run the full suite
+        if (audit) {
+          audited = decision;
+          if (decision.stats) {
+            writeStats({ ...decision.stats, action: 'audit', reason: decision.reason, selection: decision.action });
           }
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'cache-miss',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            graphSize: 0, cacheHit: false,
-            durationMs: Date.now() - startMs,
-          }, verbose);
+          writeOutput({ audit: true });
+          recordRun(true);
           return;
         }
 
-        // 11. Delta parse: find new imports in changed files not yet in cache
-        const extraSeeds = deltaParseNewImports(changed, reverse, rootDir, verbose);
-        const bfsSeeds = [...allChangedFiles, ...extraSeeds];
-
-        // 12. Glob test files using project.config.include patterns
-        const includePatterns = project.config.include;
-        if (!includePatterns || includePatterns.length === 0) {
-          console.warn(
-            '[vitest-affected] No include patterns configured — running full suite',
-          );
-          return;
-        }
-
-        // Normalize glob results to forward slashes (Vite convention) for Windows compat
-        const testFiles = (await glob(includePatterns, {
-          cwd: rootDir,
-          absolute: true,
-          ignore: [...(project.config.exclude ?? []), '**/node_modules/**'],
-        })).map((f) => f.replaceAll('\\', '/'));
-
-        if (testFiles.length === 0) {
-          console.warn(
-            '[vitest-affected] No test files matched include patterns — running full suite',
-          );
+        if (decision.action === 'selective') {
+          if (decision.affectedTests.length === 0) {
+            reportOutcome(false);
+            // Not opted in through `allowNoTests`, so the empty run must pass
+            if (decision.reason === 'no-changes-since-last-run') skipAllTests(vitest, project);
+          }
+          project.config.include = decision.affectedTests;
+          if (decision.stats) writeStats(decision.stats);
+          writeOutput();
+          recordRun(false);
           return;
         }
 
-        const testFileSet = new Set(testFiles);
-
-        // 13. BFS: find affected tests
-        const affectedTests = bfsAffectedTests(
-          bfsSeeds,
-          reverse,
-          (f) => testFileSet.has(f),
-        );
-
-        // 14. Threshold check
-        if (affectedTests.length === 0) {
-          if (options.allowNoTests) {
-            project.config.include = [];
-            if (statsFile) writeStatsLine(statsFile, rootDir, {
-              action: 'selective', reason: 'allow-no-tests',
-              changedFiles: changed.length, deletedFiles: deleted.length,
-              ignoredFiles: ignoredCount,
-              affectedTests: 0, totalTests: testFiles.length,
-              graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
-            }, verbose);
-            return;
+        // Workspace: a change no test in this project reaches may be covered by
+        // another project's tests. Only skip this project when at least one
+        // other project runs tests.
+        if (decision.reason === 'no-affected-tests') {
+          if (coordinator) {
+            reportOutcome(false);
+            if (await coordinator.settled) {
+              project.config.include = [];
+              if (verbose) {
+                console.warn(
+                  `${label} No affected tests in this project — skipping it`,
+                );
+              }
+              writeStats({ ...decision.stats!, action: 'selective', reason: 'no-affected-tests-in-project' });
+              writeOutput({ action: 'selective', reason: 'no-affected-tests-in-project' });
+              recordRun(false);
+              return;
+            }
           }
           console.warn(
-            '[vitest-affected] No affected tests found — running full suite',
+            `${label} No affected tests found — running full suite`,
           );
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'no-affected-tests',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            affectedTests: 0, totalTests: testFiles.length,
-            graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
-          }, verbose);
-          return;
         }
-
-        const ratio = affectedTests.length / testFiles.length;
-        const threshold = options.threshold ?? 1.0;
-        if (ratio > threshold) {
+        if (decision.stats) writeStats(decision.stats);
+        writeOutput();
+        recordRun(true);
+      } catch (err) {
+        // 17. Catch-all: safety invariant — never crash, never skip silently
+        if (dryRun && project.config) {
           console.warn(
-            `[vitest-affected] Threshold exceeded (${affectedTests.length}/${testFiles.length} = ${(ratio * 100).toFixed(1)}%) — running full suite`,
+            `[vitest-affected] Unexpected error during dry run: ${err instanceof Error ? err.message : String(err)}`,
           );
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'threshold-exceeded',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            affectedTests: affectedTests.length, totalTests: testFiles.length,
-            graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
-          }, verbose);
+          skipAllTests(vitest, project);
           return;
         }
-
-        // 15. Verbose summary: count of changed files not in graph (was per-file warning)
-        if (options.verbose) {
-          const notInGraph = changed.filter((f) => !reverse.has(f)).length;
-          if (notInGraph > 0) {
-            console.warn(
-              `[vitest-affected] ${notInGraph} changed file(s) not in dependency graph (delta-parsed for new imports)`,
-            );
-          }
-        }
-
-        // 16. existsSync filter — warn on missing
-        const validTests = affectedTests.filter((f) => {
-          if (!existsSync(f)) {
-            console.warn(
-              `[vitest-affected] Affected test file not found on disk: ${f}`,
-            );
-            return false;
-          }
-          return true;
-        });
-
-        // 17. Apply results
-        if (validTests.length > 0) {
-          project.config.include = validTests;
-          if (statsFile) writeStatsLine(statsFile, rootDir, {
-            action: 'selective',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            affectedTests: validTests.length, totalTests: testFiles.length,
-            graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
-          }, verbose);
-        } else if (statsFile) {
-          writeStatsLine(statsFile, rootDir, {
-            action: 'full-suite', reason: 'no-valid-tests-on-disk',
-            changedFiles: changed.length, deletedFiles: deleted.length,
-            ignoredFiles: ignoredCount,
-            affectedTests: 0, totalTests: testFiles.length,
-            graphSize: reverse.size, cacheHit, durationMs: Date.now() - startMs,
-          }, verbose);
-        }
-      } catch (err) {
-        // 18. Catch-all: safety invariant — never crash, never skip silently
         console.warn(
           `[vitest-affected] Unexpected error — running full suite: ${err instanceof Error ? err.message : String(err)}`,
         );
+        if (options.outputFile && vitest.config?.root) {
+          const now = new Date().toISOString();
+          writeOutputFile(options.outputFile, vitest.config.root, vitest, multiProject ? project.name ?? '' : undefined, {
+            action: 'full-suite', reason: 'unexpected-error',
+            affectedTests: [], changed: [], deleted: [], ignored: [],
+            startedAt: now, durationMs: 0,
+          }, options.verbose ?? false);
+        }
+      } finally {
+        // Every path that did not narrow this project to zero tests runs something
+        reportOutcome(true);
       }
     },
   };
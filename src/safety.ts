@@ -0,0 +1,90 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+const SAFETY_FILE = 'safety.json';
+
+export interface SafetyOptions {
+  /** Make every Nth run a full one, counting from the last full run (e.g. 10). */
+  fullRunEvery?: number;
+  /** Run the full suite when the last full run started more than this many milliseconds ago. */
+  maxAge?: number;
+  /**
+   * Fraction (0–1) of the tests a selective run skips to run anyway, picked
+   * at random. Stats lines record how many were sampled and which failed.
+   */
+  sampleRate?: number;
+}
+
+/** What `safety.json` remembers between runs. */
+export interface SafetyState {
+  /** Selective runs since the last full run. */
+  selectiveRuns: number;
+  /** When the last full run started (ms since epoch). */
+  lastFullRunAt?: number;
+}
+
+/** Safety state for a cache directory; a missing or unreadable file starts from scratch. */
+export function readSafetyState(cacheDir: string): SafetyState {
+  try {
+    const raw = JSON.parse(readFileSync(path.join(cacheDir, SAFETY_FILE), 'utf-8')) as Partial<SafetyState>;
+    return {
+      selectiveRuns: typeof raw.selectiveRuns === 'number' ? raw.selectiveRuns : 0,
+      ...(typeof raw.lastFullRunAt === 'number' ? { lastFullRunAt: raw.lastFullRunAt } : {}),
+    };
+  } catch {
+    return { selectiveRuns: 0 };
+  }
+}
+
+/** Count a run: a full run resets the tally and its clock, a selective run adds to it. */
+export function recordSafetyRun(cacheDir: string, fullRun: boolean, now = Date.now()): void {
+  const state = readSafetyState(cacheDir);
+  const next: SafetyState = fullRun
+    ? { selectiveRuns: 0, lastFullRunAt: now }
+    : { ...state, selectiveRuns: state.selectiveRuns + 1 };
+  try {
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(path.join(cacheDir, SAFETY_FILE), JSON.stringify(next) + '\n');
+  } catch {
+    // Best-effort: the next run counts from the last state that was written
+  }
+}
+
+/**
+ * Why this run must be a full one, if it must: every `fullRunEvery`th run,
+ * or when no full run was recorded within `maxAge`.
+ */
+export function safetyFullRunReason(
+  safety: SafetyOptions,
+  state: SafetyState,
+  now = Date.now(),
+): 'safety-periodic' | 'safety-max-age' | undefined {
+  if (safety.fullRunEvery !== undefined && state.selectiveRuns + 1 >= safety.fullRunEvery) {
+    return 'safety-periodic';
+  }
+  if (
+    safety.maxAge !== undefined &&
+    (state.lastFullRunAt === undefined || now - state.lastFullRunAt > safety.maxAge)
+  ) {
+    return 'safety-max-age';
+  }
+  return undefined;
+}
+
+/** A random `sampleRate` share (rounded up) of the test files a selection skipped, sorted. */
+export function sampleSkippedTests(
+  testFiles: string[],
+  selected: string[],
+  sampleRate: number,
+  random: () => number = Math.random,
+): string[] {
+  const selectedSet = new Set(selected);
+  const skipped = testFiles.filter((f) => !selectedSet.has(f));
+  const count = Math.ceil(skipped.length * Math.min(Math.max(sampleRate, 0), 1));
+  // Partial Fisher–Yates: the first `count` slots end up a uniform sample
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (skipped.length - i));
+    [skipped[i], skipped[j]] = [skipped[j]!, skipped[i]!];
+  }
+  return skipped.slice(0, count).sort();
+}
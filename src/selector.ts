@@ -1,9 +1,19 @@
+/**
+ * Breadth-first walk from the changed files through the reverse map,
+ * returning every reached test file (sorted).
+ *
+ * When `parents` is given it receives, for every visited non-seed file, the
+ * file it was first reached from — the previous hop on its shortest route
+ * from a seed. `explainChain` turns that back into a route.
+ */
 export function bfsAffectedTests(
   changedFiles: string[],
   reverse: Map<string, Set<string>>,
-  isTestFile: (path: string) => boolean
+  isTestFile: (path: string) => boolean,
+  parents?: Map<string, string>,
 ): string[] {
   const visited = new Set<string>();
+  const seeds = new Set(changedFiles);
   const queue = [...changedFiles];
   let i = 0;
   const affectedTests: string[] = [];
@@ -16,10 +26,59 @@ export function bfsAffectedTests(
     const dependents = reverse.get(file);
     if (dependents) {
       for (const dep of dependents) {
-        if (!visited.has(dep)) queue.push(dep);
+        if (visited.has(dep)) continue;
+        if (parents && !seeds.has(dep) && !parents.has(dep)) parents.set(dep, file);
+        queue.push(dep);
       }
     }
   }
 
   return affectedTests.sort();
 }
+
+/** Route from the seed `file` was reached from to `file`, using `parents` from `bfsAffectedTests`. */
+export function explainChain(file: string, parents: Map<string, string>): string[] {
+  const chain = [file];
+  const seen = new Set(chain);
+  let current = parents.get(file);
+  while (current !== undefined && !seen.has(current)) {
+    chain.push(current);
+    seen.add(current);
+    current = parents.get(current);
+  }
+  return chain.reverse();
+}
+
+/** Seeds from which no test file is reachable through the reverse map. */
+export function findUnreachedSeeds(
+  seeds: string[],
+  reverse: Map<string, Set<string>>,
+  isTestFile: (path: string) => boolean,
+): string[] {
+  const reaches = new Set<string>();
+  const deadEnds = new Set<string>();
+
+  const search = (seed: string): boolean => {
+    const visited = new Set<string>();
+    const queue = [seed];
+    let i = 0;
+    while (i < queue.length) {
+      const file = queue[i++]!;
+      if (visited.has(file) || deadEnds.has(file)) continue;
+      if (reaches.has(file) || isTestFile(file)) return true;
+      visited.add(file);
+      for (const dep of reverse.get(file) ?? []) queue.push(dep);
+    }
+    // Nothing reachable from here leads to a test
+    for (const file of visited) deadEnds.add(file);
+    return false;
+  };
+
+  return seeds.filter((seed) => {
+    if (search(seed)) {
+      reaches.add(seed);
+      return false;
+    }
+    return true;
+  });
+}
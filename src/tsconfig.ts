@@ -0,0 +1,347 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { extractImportSpecifiers } from './graph/builder.js';
+import type { ChangeSource } from './vcs/types.js';
+
+/**
+ * Compiler options that only affect type checking or declaration output.
+ * Tests run through Vite's transform, which never reads them.
+ */
+const IGNORED_COMPILER_OPTIONS = new Set([
+  'allowUnreachableCode',
+  'allowUnusedLabels',
+  'composite',
+  'declaration',
+  'declarationDir',
+  'declarationMap',
+  'diagnostics',
+  'emitDeclarationOnly',
+  'exactOptionalPropertyTypes',
+  'extendedDiagnostics',
+  'forceConsistentCasingInFileNames',
+  'incremental',
+  'lib',
+  'listFiles',
+  'noEmit',
+  'noEmitOnError',
+  'noErrorTruncation',
+  'noFallthroughCasesInSwitch',
+  'noImplicitAny',
+  'noImplicitOverride',
+  'noImplicitReturns',
+  'noImplicitThis',
+  'noPropertyAccessFromIndexSignature',
+  'noUncheckedIndexedAccess',
+  'noUnusedLocals',
+  'noUnusedParameters',
+  'pretty',
+  'skipDefaultLibCheck',
+  'skipLibCheck',
+  'strictBindCallApply',
+  'strictBuiltinIteratorReturn',
+  'strictFunctionTypes',
+  'strictNullChecks',
+  'strictPropertyInitialization',
+  'traceResolution',
+  'tsBuildInfoFile',
+  'typeRoots',
+  'types',
+  'useUnknownInCatchVariables',
+]);
+
+/** Top-level fields that scope type checking or editor behaviour only. */
+const IGNORED_TOP_LEVEL_FIELDS = new Set([
+  '$schema',
+  'compileOnSave',
+  'display',
+  'exclude',
+  'files',
+  'include',
+  'typeAcquisition',
+  'watchOptions',
+]);
+
+/** A tsconfig with its `extends` chain applied. */
+export interface EffectiveTsconfig {
+  compilerOptions: Record<string, unknown>;
+  /** Top-level fields other than `compilerOptions` and `extends`. */
+  fields: Record<string, unknown>;
+  /** Absolute `baseUrl`, if any config in the chain sets one. */
+  baseUrl?: string;
+  /** Alias pattern → absolute target paths. */
+  paths: Map<string, string[]>;
+  /** Every config file read, starting with the one asked for. */
+  chain: string[];
+}
+
+export interface TsconfigChange {
+  /** `paths` patterns that were added, removed, or point somewhere else. */
+  aliases: string[];
+  /** `baseUrl` moved: any bare specifier may now resolve to a project file. */
+  baseUrlChanged: boolean;
+  /**
+   * Changed options that can change how every module is transformed
+   * (`compilerOptions.target`, `compilerOptions.jsx`, …) or that are not
+   * known to be safe. Non-empty means the caller should run the full suite.
+   */
+  fullSuiteOptions: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isDeepEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every((k) => Object.hasOwn(b, k) && isDeepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+/** JSON with comments and trailing commas, as tsc accepts. Returns undefined on error. */
+export function parseJsonc(content: string): unknown {
+  let out = '';
+  // Where in `out` the last comma outside a string went, while nothing but
+  // whitespace and comments has followed it
+  let trailingComma = -1;
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i]!;
+    if (ch === '"') {
+      const start = i++;
+      while (i < content.length && content[i] !== '"') i += content[i] === '\\' ? 2 : 1;
+      out += content.slice(start, ++i);
+      trailingComma = -1;
+    } else if (ch === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (ch === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 2;
+    } else {
+      if ((ch === '}' || ch === ']') && trailingComma !== -1) {
+        out = out.slice(0, trailingComma) + out.slice(trailingComma + 1);
+      }
+      if (ch === ',') trailingComma = out.length;
+      else if (!/\s/.test(ch)) trailingComma = -1;
+      out += ch;
+      i++;
+    }
+  }
+  try {
+    return JSON.parse(out);
+  } catch {
+    return undefined;
+  }
+}
+
+type ReadConfig = (absPath: string) => Promise<string | null>;
+
+/**
+ * Locate an `extends` entry. Relative entries live next to the config (and may
+ * omit `.json`); bare entries are packages, resolved from node_modules.
+ */
+async function readExtended(
+  fromDir: string,
+  specifier: string,
+  read: ReadConfig,
+): Promise<{ file: string; content: string } | null> {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    const file = path.resolve(fromDir, specifier);
+    for (const candidate of file.endsWith('.json') ? [file] : [file, `${file}.json`]) {
+      const content = await read(candidate);
+      if (content !== null) return { file: candidate, content };
+    }
+    return null;
+  }
+  const require = createRequire(path.join(fromDir, 'tsconfig.json'));
+  for (const candidate of [specifier, `${specifier}.json`, `${specifier}/tsconfig.json`]) {
+    try {
+      const file = require.resolve(candidate);
+      return { file, content: readFileSync(file, 'utf-8') };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Load `tsconfigPath` through `read` and apply its `extends` chain: options of
+ * the extending config win, and `baseUrl`/`paths` resolve against the config
+ * that declared them. Returns null when any config in the chain is missing or
+ * invalid.
+ */
+async function loadTsconfig(tsconfigPath: string, read: ReadConfig): Promise<EffectiveTsconfig | null> {
+  const result: EffectiveTsconfig = { compilerOptions: {}, fields: {}, paths: new Map(), chain: [] };
+  let pathsBase: string | undefined;
+  let rawPaths: Record<string, unknown> | undefined;
+
+  // Parents are applied before the config's own options, which override them
+  const apply = async (file: string, content: string): Promise<boolean> => {
+    if (result.chain.includes(file)) return false;
+    result.chain.push(file);
+    const config = parseJsonc(content);
+    if (!isPlainObject(config)) return false;
+    const dir = path.dirname(file);
+
+    const parents = config['extends'] === undefined ? [] : [config['extends']].flat();
+    for (const parent of parents) {
+      if (typeof parent !== 'string') return false;
+      const extended = await readExtended(dir, parent, read);
+      if (!extended || !(await apply(extended.file, extended.content))) return false;
+    }
+
+    for (const [field, value] of Object.entries(config)) {
+      if (field !== 'extends' && field !== 'compilerOptions') result.fields[field] = value;
+    }
+    const options = config['compilerOptions'];
+    if (options === undefined) return true;
+    if (!isPlainObject(options)) return false;
+    for (const [option, value] of Object.entries(options)) {
+      if (option === 'baseUrl' && typeof value === 'string') {
+        result.baseUrl = path.resolve(dir, value);
+      } else if (option === 'paths' && isPlainObject(value)) {
+        rawPaths = value;
+        pathsBase = dir;
+      } else {
+        result.compilerOptions[option] = value;
+      }
+    }
+    return true;
+  };
+
+  const content = await read(tsconfigPath);
+  if (content === null || !(await apply(tsconfigPath, content))) return null;
+
+  for (const [pattern, targets] of Object.entries(rawPaths ?? {})) {
+    const base = result.baseUrl ?? pathsBase!;
+    result.paths.set(
+      pattern,
+      (Array.isArray(targets) ? targets : [])
+        .filter((t): t is string => typeof t === 'string')
+        .map((t) => path.resolve(base, t).replaceAll('\\', '/')),
+    );
+  }
+  return result;
+}
+
+/** Diff two effective tsconfigs, separating alias changes from everything else. */
+export function diffTsconfig(before: EffectiveTsconfig, after: EffectiveTsconfig): TsconfigChange {
+  const fullSuiteOptions: string[] = [];
+  const fields = new Set([...Object.keys(before.fields), ...Object.keys(after.fields)]);
+  for (const field of fields) {
+    if (IGNORED_TOP_LEVEL_FIELDS.has(field)) continue;
+    if (!isDeepEqual(before.fields[field], after.fields[field])) fullSuiteOptions.push(field);
+  }
+  const options = new Set([...Object.keys(before.compilerOptions), ...Object.keys(after.compilerOptions)]);
+  for (const option of options) {
+    if (IGNORED_COMPILER_OPTIONS.has(option)) continue;
+    if (!isDeepEqual(before.compilerOptions[option], after.compilerOptions[option])) {
+      fullSuiteOptions.push(`compilerOptions.${option}`);
+    }
+  }
+
+  const aliases: string[] = [];
+  for (const pattern of new Set([...before.paths.keys(), ...after.paths.keys()])) {
+    if (!isDeepEqual(before.paths.get(pattern), after.paths.get(pattern))) aliases.push(pattern);
+  }
+
+  return {
+    aliases: aliases.sort(),
+    baseUrlChanged: before.baseUrl !== after.baseUrl,
+    fullSuiteOptions: fullSuiteOptions.sort(),
+  };
+}
+
+/** Config files in the working-tree `extends` chain of `tsconfigPath`, itself included. */
+export async function getTsconfigChain(tsconfigPath: string): Promise<string[]> {
+  const config = await loadTsconfig(tsconfigPath, readWorkingTree);
+  return config ? config.chain.map((f) => f.replaceAll('\\', '/')) : [];
+}
+
+async function readWorkingTree(absPath: string): Promise<string | null> {
+  try {
+    return readFileSync(absPath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Diff `tsconfigPath` (with its `extends` chain) between each base revision
+ * and the working tree, merging the results. Configs inside node_modules are
+ * read from disk on both sides: package upgrades are the lockfile's concern.
+ * Returns null when the change cannot be analysed: a config in either chain
+ * is missing or is not valid JSON.
+ */
+export async function getTsconfigChange(
+  rootDir: string,
+  tsconfigPath: string,
+  baseRevisions: string[],
+  source: ChangeSource,
+): Promise<TsconfigChange | null> {
+  const after = await loadTsconfig(tsconfigPath, readWorkingTree);
+  if (!after) return null;
+
+  const aliases = new Set<string>();
+  const fullSuiteOptions = new Set<string>();
+  let baseUrlChanged = false;
+  for (const rev of baseRevisions) {
+    const before = await loadTsconfig(tsconfigPath, async (absPath) =>
+      absPath.replaceAll('\\', '/').includes('/node_modules/')
+        ? readWorkingTree(absPath)
+        : (await source.readFileAtRevision?.(rootDir, rev, absPath)) ?? null,
+    );
+    if (!before) return null;
+    const change = diffTsconfig(before, after);
+    for (const alias of change.aliases) aliases.add(alias);
+    for (const option of change.fullSuiteOptions) fullSuiteOptions.add(option);
+    baseUrlChanged ||= change.baseUrlChanged;
+  }
+  return { aliases: [...aliases].sort(), baseUrlChanged, fullSuiteOptions: [...fullSuiteOptions].sort() };
+}
+
+/** Whether `specifier` matches a `paths` pattern (`@/*`, `~config`). */
+export function specifierMatchesAlias(specifier: string, pattern: string): boolean {
+  const star = pattern.indexOf('*');
+  if (star === -1) return specifier === pattern;
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  return specifier.length >= prefix.length + suffix.length &&
+    specifier.startsWith(prefix) && specifier.endsWith(suffix);
+}
+
+/**
+ * Files whose import specifiers may resolve differently after `change`: they
+ * match a changed alias, or — when `baseUrl` moved — are bare specifiers.
+ * Re-parses each file, so only call this once a tsconfig change is known.
+ */
+export function findFilesImportingAliases(
+  files: Iterable<string>,
+  change: Pick<TsconfigChange, 'aliases' | 'baseUrlChanged'>,
+): string[] {
+  const matches: string[] = [];
+  if (change.aliases.length === 0 && !change.baseUrlChanged) return matches;
+  for (const file of files) {
+    if (!/\.[cm]?[jt]sx?$/.test(file)) continue;
+    let specifiers: string[];
+    try {
+      specifiers = extractImportSpecifiers(file, readFileSync(file, 'utf-8'));
+    } catch {
+      continue;
+    }
+    const affected = specifiers.some((specifier) =>
+      (change.baseUrlChanged && !specifier.startsWith('.') && !path.isAbsolute(specifier)) ||
+      change.aliases.some((pattern) => specifierMatchesAlias(specifier, pattern)),
+    );
+    if (affected) matches.push(file);
+  }
+  return matches.sort();
+}
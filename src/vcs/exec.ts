@@ -0,0 +1,20 @@
+import { execFile as execFileCb } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFile = promisify(execFileCb);
+
+/** Run a VCS command; failures throw with the command line and its stderr. */
+export async function exec(
+  cmd: string,
+  args: string[],
+  opts: { cwd: string; maxBuffer?: number; env?: NodeJS.ProcessEnv },
+): Promise<{ stdout: string }> {
+  try {
+    const { stdout } = await execFile(cmd, args, { ...opts, encoding: 'utf-8' });
+    return { stdout: stdout ?? '' };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    const stderr = err && typeof err === 'object' && 'stderr' in err ? String(err.stderr) : undefined;
+    throw new Error(`${cmd} ${args.join(' ')} failed: ${stderr ?? msg}`);
+  }
+}
@@ -0,0 +1,14 @@
+import { getChangedFiles, getMergeBase, readFileAtRevision, resolveAutoRef } from '../git.js';
+import type { ChangeSource } from './types.js';
+
+/** The default source: committed changes since `ref...HEAD`, staged, unstaged and untracked files. */
+export function createGitChangeSource(): ChangeSource {
+  return {
+    name: 'git',
+    getChangedFiles: (rootDir, { ref, sinceCommit }) =>
+      getChangedFiles(rootDir, ref, sinceCommit !== undefined ? { sinceCommit } : {}),
+    resolveAutoRef: (rootDir) => resolveAutoRef(rootDir),
+    baseRevision: async (rootDir, ref) => (ref !== undefined ? getMergeBase(rootDir, ref) : 'HEAD'),
+    readFileAtRevision: (rootDir, rev, absPath) => readFileAtRevision(rootDir, rev, absPath),
+  };
+}
@@ -0,0 +1,93 @@
+import path from 'node:path';
+import { toChangedFiles, type ChangedEntry, type ChangedFiles, type ChangeKind } from '../git.js';
+import { exec } from './exec.js';
+import type { ChangeSource } from './types.js';
+
+const KIND_BY_STATUS: Record<string, ChangeKind> = {
+  M: 'modified',
+  A: 'added',
+  R: 'deleted',
+  // Missing: deleted without `hg remove`
+  '!': 'deleted',
+  '?': 'untracked',
+};
+
+/**
+ * @internal
+ * Parse `hg status --print0 --copies` output: `<status> <path>` records, each
+ * NUL-terminated, where an added file copied from another is followed by a
+ * `  <source>` record. A copy whose source was removed in the same change is
+ * a rename; Mercurial records both exactly, so the similarity is 100.
+ */
+export function parseHgStatus(stdout: string, hgRoot: string): ChangedEntry[] {
+  const toAbsolute = (rel: string): string => path.resolve(hgRoot, rel).replaceAll('\\', '/');
+  const records = stdout.split('\0').filter((r) => r.length > 1);
+  const entries: ChangedEntry[] = [];
+  const removed = new Set(
+    records.filter((r) => r[0] === 'R').map((r) => toAbsolute(r.slice(2))),
+  );
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]!;
+    const kind = KIND_BY_STATUS[record[0]!];
+    if (!kind) continue;
+    const file = toAbsolute(record.slice(2));
+    const copy = records[i + 1]?.startsWith('  ') ? toAbsolute(records[++i]!.slice(2)) : undefined;
+    if (kind === 'added' && copy !== undefined) {
+      entries.push({ path: file, kind: removed.has(copy) ? 'renamed' : 'copied', from: copy, similarity: 100 });
+    } else {
+      entries.push({ path: file, kind });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Mercurial working copies. With a ref, `hg status` compares the working
+ * directory against the common ancestor of `ref` and `.`, which covers
+ * committed and uncommitted changes in one call. Old revisions are read
+ * with `hg cat`.
+ */
+export function createHgChangeSource(): ChangeSource {
+  // HGPLAIN turns off user configuration that changes the output format
+  const env = { ...process.env, HGPLAIN: '1' };
+  return {
+    name: 'hg',
+    async getChangedFiles(rootDir, { ref }): Promise<ChangedFiles> {
+      try {
+        const { stdout: hgRootRaw } = await exec('hg', ['root'], { cwd: rootDir, env });
+        const hgRoot = hgRootRaw.trim();
+        const { stdout } = await exec(
+          'hg',
+          [
+            'status', '--print0', '--copies', '--modified', '--added', '--removed', '--deleted', '--unknown',
+            ...(ref !== undefined ? ['--rev', `ancestor(${ref}, .)`] : []),
+          ],
+          { cwd: hgRoot, env, maxBuffer: 64 * 1024 * 1024 },
+        );
+        return toChangedFiles(parseHgStatus(stdout, hgRoot));
+      } catch (err) {
+        console.warn(
+          `[vitest-affected] hg status failed — running full suite: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        return { changed: [], deleted: [], entries: [], renames: [] };
+      }
+    },
+    baseRevision: async (_rootDir, ref) => (ref !== undefined ? `ancestor(${ref}, .)` : '.'),
+    async readFileAtRevision(rootDir, rev, absPath) {
+      try {
+        const { stdout: hgRootRaw } = await exec('hg', ['root'], { cwd: rootDir, env });
+        const hgRoot = hgRootRaw.trim();
+        const rel = path.relative(hgRoot, absPath).replaceAll('\\', '/');
+        // `path:` matches the file literally rather than as a glob
+        const { stdout } = await exec('hg', ['cat', '--rev', rev, `path:${rel}`], {
+          cwd: hgRoot,
+          env,
+          maxBuffer: 256 * 1024 * 1024,
+        });
+        return stdout;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { createGitChangeSource } from './git.js';
+import { createHgChangeSource } from './hg.js';
+import { createJjChangeSource } from './jj.js';
+import { createMtimeChangeSource } from './mtime.js';
+import type { ChangeSource, VcsName } from './types.js';
+
+export type { ChangeSource, ChangeSourceOptions, VcsName } from './types.js';
+
+export const VCS_NAMES: readonly VcsName[] = ['git', 'hg', 'jj', 'mtime'];
+
+const FACTORIES: Record<VcsName, () => ChangeSource> = {
+  git: createGitChangeSource,
+  hg: createHgChangeSource,
+  jj: createJjChangeSource,
+  mtime: createMtimeChangeSource,
+};
+
+/**
+ * The version control system managing `rootDir`: the nearest directory up
+ * the tree holding `.jj`, `.git` or `.hg`. Jujutsu wins over git in the same
+ * directory, since colocated jj repositories keep a `.git` as well. Null when
+ * there is none.
+ */
+export function detectVcs(rootDir: string): Exclude<VcsName, 'mtime'> | null {
+  let dir = path.resolve(rootDir);
+  for (;;) {
+    if (existsSync(path.join(dir, '.jj'))) return 'jj';
+    if (existsSync(path.join(dir, '.git'))) return 'git';
+    if (existsSync(path.join(dir, '.hg'))) return 'hg';
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/** The change source for a `vcs` option; `'auto'` detects one and falls back to mtime snapshots. */
+export function resolveChangeSource(rootDir: string, vcs: 'auto' | VcsName | ChangeSource = 'auto'): ChangeSource {
+  if (typeof vcs === 'object') return vcs;
+  const name = vcs === 'auto' ? detectVcs(rootDir) ?? 'mtime' : vcs;
+  const factory = FACTORIES[name];
+  if (!factory) throw new Error(`[vitest-affected] Unknown vcs: ${String(vcs)}`);
+  return factory();
+}
@@ -0,0 +1,99 @@
+import path from 'node:path';
+import { toChangedFiles, type ChangedEntry, type ChangedFiles, type ChangeKind } from '../git.js';
+import { exec } from './exec.js';
+import type { ChangeSource } from './types.js';
+
+const KIND_BY_STATUS: Record<string, ChangeKind> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+};
+
+/**
+ * @internal
+ * Parse `jj diff --summary` output: one `<status> <path>` line per file.
+ * Renames and copies compress the two paths around their common prefix and
+ * suffix, as in `R src/{old.ts => new.ts}` or `R {lib => src}/util.ts`.
+ */
+export function parseJjSummary(stdout: string, jjRoot: string): ChangedEntry[] {
+  const toAbsolute = (rel: string): string => path.resolve(jjRoot, rel).replaceAll('\\', '/');
+  const entries: ChangedEntry[] = [];
+  for (const line of stdout.split('\n')) {
+    const kind = KIND_BY_STATUS[line[0] ?? ''];
+    if (!kind || line[1] !== ' ') continue;
+    const file = line.slice(2);
+    const pair = kind === 'renamed' || kind === 'copied' ? file.match(/^(.*)\{(.*) => (.*)\}(.*)$/) : null;
+    if (pair) {
+      const [, prefix, from, to, suffix] = pair;
+      entries.push({
+        path: toAbsolute(`${prefix}${to}${suffix}`),
+        kind,
+        from: toAbsolute(`${prefix}${from}${suffix}`),
+        // jj tracks renames exactly
+        similarity: 100,
+      });
+    } else {
+      entries.push({ path: toAbsolute(file), kind: kind === 'renamed' || kind === 'copied' ? 'added' : kind });
+    }
+  }
+  return entries;
+}
+
+/** Revset for the fork point of `ref` and the working-copy commit. */
+function forkPoint(ref: string): string {
+  return `heads(::(${ref}) & ::@)`;
+}
+
+/**
+ * Jujutsu working copies. The working copy is a commit (`@`), so without a
+ * ref the diff is `@` against its parent; with one, it starts at the fork
+ * point of `ref` and `@`. Running jj snapshots the working copy first, so
+ * new files are included. Old revisions are read with `jj file show`.
+ */
+export function createJjChangeSource(): ChangeSource {
+  return {
+    name: 'jj',
+    async getChangedFiles(rootDir, { ref }): Promise<ChangedFiles> {
+      try {
+        const { stdout: jjRootRaw } = await exec('jj', ['root'], { cwd: rootDir });
+        const jjRoot = jjRootRaw.trim();
+        const { stdout } = await exec(
+          'jj',
+          [
+            'diff', '--summary', '--no-pager', '--color=never',
+            ...(ref !== undefined ? ['--from', forkPoint(ref), '--to', '@'] : []),
+          ],
+          { cwd: jjRoot, maxBuffer: 64 * 1024 * 1024 },
+        );
+        return toChangedFiles(parseJjSummary(stdout, jjRoot));
+      } catch (err) {
+        console.warn(
+          `[vitest-affected] jj diff failed — running full suite: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        return { changed: [], deleted: [], entries: [], renames: [] };
+      }
+    },
+    baseRevision: async (_rootDir, ref) => (ref !== undefined ? forkPoint(ref) : '@-'),
+    async readFileAtRevision(rootDir, rev, absPath) {
+      try {
+        const { stdout: jjRootRaw } = await exec('jj', ['root'], { cwd: rootDir });
+        const jjRoot = jjRootRaw.trim();
+        const fileset = `root-file:${JSON.stringify(path.relative(jjRoot, absPath).replaceAll('\\', '/'))}`;
+        // `file show` prints nothing (and succeeds) for a path missing at `rev`
+        const { stdout: listed } = await exec('jj', ['file', 'list', '--no-pager', '-r', rev, fileset], {
+          cwd: jjRoot,
+        });
+        if (!listed.trim()) return null;
+        const { stdout } = await exec('jj', ['file', 'show', '--no-pager', '-r', rev, fileset], {
+          cwd: jjRoot,
+          maxBuffer: 256 * 1024 * 1024,
+        });
+        return stdout;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
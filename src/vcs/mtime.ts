@@ -0,0 +1,116 @@
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { ChangedEntry, ChangedFiles } from '../git.js';
+import type { ChangeSource } from './types.js';
+
+const SNAPSHOT_FILE = 'mtime-snapshot.json';
+
+interface FileStamp {
+  mtimeMs: number;
+  size: number;
+}
+
+/**
+ * Root-relative path → stamp, for every file outside node_modules,
+ * dot-directories and the skipped (cache and output) directories.
+ */
+type Snapshot = Record<string, FileStamp>;
+
+function scan(rootDir: string, skipDirs: string[] = []): Snapshot {
+  const skip = new Set(skipDirs.map((dir) => path.resolve(rootDir, dir).replaceAll('\\', '/')));
+  const files: Snapshot = {};
+  const walk = (dir: string): void => {
+    let dirents;
+    try {
+      dirents = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const dirent of dirents) {
+      const abs = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        if (dirent.name === 'node_modules' || dirent.name.startsWith('.')) continue;
+        if (!skip.has(abs.replaceAll('\\', '/'))) walk(abs);
+      } else if (dirent.isFile()) {
+        try {
+          const stat = statSync(abs);
+          files[path.relative(rootDir, abs).replaceAll('\\', '/')] = { mtimeMs: stat.mtimeMs, size: stat.size };
+        } catch {
+          // Removed while scanning
+        }
+      }
+    }
+  };
+  walk(rootDir);
+  return files;
+}
+
+function readSnapshot(cacheDir: string): Snapshot | null {
+  try {
+    const raw = JSON.parse(readFileSync(path.join(cacheDir, SNAPSHOT_FILE), 'utf-8')) as { files?: unknown };
+    return raw.files && typeof raw.files === 'object' ? (raw.files as Snapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** @internal Entries for files added, modified (mtime or size) or deleted between two snapshots. */
+export function diffSnapshots(previous: Snapshot, current: Snapshot, rootDir: string): ChangedEntry[] {
+  const toAbsolute = (rel: string): string => path.resolve(rootDir, rel).replaceAll('\\', '/');
+  const entries: ChangedEntry[] = [];
+  for (const [rel, stamp] of Object.entries(current)) {
+    const before = previous[rel];
+    if (!before) entries.push({ path: toAbsolute(rel), kind: 'added' });
+    else if (before.mtimeMs !== stamp.mtimeMs || before.size !== stamp.size) {
+      entries.push({ path: toAbsolute(rel), kind: 'modified' });
+    }
+  }
+  for (const rel of Object.keys(previous)) {
+    if (!(rel in current)) entries.push({ path: toAbsolute(rel), kind: 'deleted' });
+  }
+  return entries;
+}
+
+/**
+ * For directories without version control: files whose modification time or
+ * size changed since the last completed run, from a snapshot kept in the
+ * cache directory. There is no base to compare against, so `ref` is ignored;
+ * the first run (no snapshot yet) runs the full suite.
+ */
+export function createMtimeChangeSource(): ChangeSource {
+  // Taken when the changes are computed, so edits made during the run count next time
+  let pending: Snapshot | undefined;
+  // What the run writes (the graph, build output, coverage) is not a change
+  let skipDirs: string[] = [];
+  return {
+    name: 'mtime',
+    async getChangedFiles(rootDir, { cacheDir, outputDirs = [] }): Promise<ChangedFiles> {
+      skipDirs = [cacheDir, ...outputDirs];
+      pending = scan(rootDir, skipDirs);
+      const previous = readSnapshot(cacheDir);
+      if (!previous) {
+        console.warn('[vitest-affected] No mtime snapshot yet — running full suite');
+        return { changed: [], deleted: [], entries: [], renames: [] };
+      }
+      const entries = diffSnapshots(previous, pending, rootDir);
+      return {
+        changed: entries.filter((e) => e.kind !== 'deleted').map((e) => e.path),
+        deleted: entries.filter((e) => e.kind === 'deleted').map((e) => e.path),
+        entries,
+        renames: [],
+      };
+    },
+    // No history to read old contents from
+    readFileAtRevision: async () => null,
+    recordRun(rootDir, cacheDir) {
+      try {
+        mkdirSync(cacheDir, { recursive: true });
+        const files = pending ?? scan(rootDir, [cacheDir, ...skipDirs]);
+        writeFileSync(path.join(cacheDir, SNAPSHOT_FILE), JSON.stringify({ files }) + '\n');
+        pending = undefined;
+      } catch {
+        // Best-effort: the next run compares against the last snapshot written
+      }
+    },
+  };
+}
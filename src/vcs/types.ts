@@ -0,0 +1,43 @@
+import type { AutoRef, ChangedFiles } from '../git.js';
+
+/** Built-in change sources. */
+export type VcsName = 'git' | 'hg' | 'jj' | 'mtime';
+
+export interface ChangeSourceOptions {
+  /** Base revision to compare against, in the source's own syntax. */
+  ref?: string;
+  /** git only: also report the drift since the commit the graph was saved at. */
+  sinceCommit?: string;
+  /** Where the plugin keeps its state (snapshots live here). */
+  cacheDir: string;
+  /**
+   * Absolute directories runs write into (Vite's `build.outDir`, coverage
+   * reports). Sources that scan the file system skip them, and `cacheDir`.
+   */
+  outputDirs?: string[];
+}
+
+/**
+ * Where changed files come from. The plugin asks once per run for the files
+ * that changed against `ref` (or against the last commit when there is no
+ * ref) and, once the run completed, calls `recordRun` so sources without
+ * history of their own can remember what they saw.
+ */
+export interface ChangeSource {
+  readonly name: string;
+  /** Changed and deleted files, absolute with forward slashes. Empty means "unknown — run everything". */
+  getChangedFiles(rootDir: string, options: ChangeSourceOptions): Promise<ChangedFiles>;
+  /** Detect a base for `ref: 'auto'`; sources without it compare against the working copy's parent. */
+  resolveAutoRef?(rootDir: string): Promise<AutoRef | null>;
+  /**
+   * The revision `getChangedFiles` compares against for `ref` (the working
+   * copy's parent without one), in a form `readFileAtRevision` accepts.
+   * Sources without history omit it; the analyses that need an old revision
+   * then run the full suite.
+   */
+  baseRevision?(rootDir: string, ref: string | undefined): Promise<string | null>;
+  /** Contents of `absPath` at revision `rev`, or null when it did not exist there. */
+  readFileAtRevision?(rootDir: string, rev: string, absPath: string): Promise<string | null>;
+  /** Called after each completed run. */
+  recordRun?(rootDir: string, cacheDir: string): void;
+}
@@ -0,0 +1,201 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { computeAffected } from '../src/affected.js';
+import { saveCacheSync } from '../src/graph/cache.js';
+import { takeRunSnapshot, writeRunSnapshot } from '../src/last-run.js';
+import { createMtimeChangeSource } from '../src/vcs/mtime.js';
+import type { ChangeSource } from '../src/vcs/types.js';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+/** main.ts → main.test.ts in the cached graph; orphan.ts is loaded by no test. */
+function setupProject(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-api-'));
+  tempDirs.push(dir);
+  mkdirSync(path.join(dir, 'src'));
+  mkdirSync(path.join(dir, 'tests'));
+  writeFileSync(path.join(dir, 'src', 'main.ts'), 'export const main = 1;\n');
+  writeFileSync(path.join(dir, 'src', 'orphan.ts'), 'export const orphan = 1;\n');
+  writeFileSync(path.join(dir, 'tests', 'main.test.ts'), 'import { main } from "../src/main";\n');
+  writeFileSync(path.join(dir, 'tests', 'other.test.ts'), '\n');
+  saveCacheSync(path.join(dir, '.vitest-affected'), dir, new Map([
+    [path.join(dir, 'src', 'main.ts'), new Set([path.join(dir, 'tests', 'main.test.ts')])],
+  ]));
+  return dir;
+}
+
+describe('computeAffected', () => {
+  test('returns the selected tests with their chains', async () => {
+    const dir = setupProject();
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+
+    const result = await computeAffected({
+      rootDir: dir,
+      include: ['tests/**/*.test.ts'],
+      changedFiles: ['src/main.ts', 'src/orphan.ts', 'README.md'],
+    });
+
+    expect(result).toEqual({
+      action: 'selective',
+      affectedTests: [at('tests/main.test.ts')],
+      totalTests: 2,
+      changed: [at('src/main.ts'), at('src/orphan.ts')],
+      deleted: [],
+      ignored: [at('README.md')],
+      chains: { [at('tests/main.test.ts')]: [at('src/main.ts'), at('tests/main.test.ts')] },
+      unreached: [at('src/orphan.ts')],
+    });
+  });
+
+  test('reports why the full suite has to run', async () => {
+    const dir = setupProject();
+
+    const setup = await computeAffected({
+      rootDir: dir,
+      include: ['tests/**/*.test.ts'],
+      setupFiles: ['src/main.ts'],
+      changedFiles: ['src/main.ts'],
+    });
+    expect(setup).toMatchObject({ action: 'full-suite', reason: 'setup-file-change', affectedTests: [] });
+
+    const none = await computeAffected({
+      rootDir: dir,
+      include: ['tests/**/*.test.ts'],
+      changedFiles: ['src/orphan.ts'],
+    });
+    expect(none).toMatchObject({ action: 'full-suite', reason: 'no-affected-tests', totalTests: 2 });
+
+    const allowed = await computeAffected({
+      rootDir: dir,
+      include: ['tests/**/*.test.ts'],
+      changedFiles: ['src/orphan.ts'],
+      allowNoTests: true,
+    });
+    expect(allowed).toMatchObject({ action: 'selective', reason: 'allow-no-tests', affectedTests: [] });
+  });
+
+  test('selects from mtime snapshots outside version control', async () => {
+    const dir = setupProject();
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    const vcs = createMtimeChangeSource();
+    const options = { rootDir: dir, include: ['tests/**/*.test.ts'], vcs };
+
+    // No snapshot before the first completed run
+    expect(await computeAffected(options)).toMatchObject({ action: 'full-suite', reason: 'no-changes' });
+    vcs.recordRun!(dir, path.join(dir, '.vitest-affected'));
+
+    writeFileSync(path.join(dir, 'src', 'main.ts'), 'export const main = 12;\n');
+    expect(await computeAffected(options)).toMatchObject({
+      action: 'selective',
+      affectedTests: [at('tests/main.test.ts')],
+      changed: [at('src/main.ts')],
+    });
+  });
+
+  test("since: 'last-run' skips changes the last run already saw, across commits", async () => {
+    const dir = setupProject();
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' }).toString().trim();
+    git('init');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    writeFileSync(path.join(dir, '.gitignore'), '.vitest-affected/\n');
+    git('add', '.');
+    git('commit', '-m', 'initial');
+    // What the runtime reporter saves after a run, fingerprinting files as they are
+    const saveGraph = () => saveCacheSync(path.join(dir, '.vitest-affected'), dir, new Map([
+      [at('src/main.ts'), new Set([at('tests/main.test.ts')])],
+      [at('src/orphan.ts'), new Set([at('tests/other.test.ts')])],
+    ]));
+    saveGraph();
+    const options = { rootDir: dir, include: ['tests/**/*.test.ts'], since: 'last-run' as const };
+
+    // The last completed run was selected while main.ts was edited
+    writeFileSync(path.join(dir, 'src', 'main.ts'), 'export const main = 2;\n');
+    expect(await computeAffected(options)).toMatchObject({ affectedTests: [at('tests/main.test.ts')] });
+    writeRunSnapshot(
+      path.join(dir, '.vitest-affected'), dir, takeRunSnapshot([at('src/main.ts')], null, git('rev-parse', 'HEAD')),
+    );
+    saveGraph();
+
+    writeFileSync(path.join(dir, 'src', 'orphan.ts'), 'export const orphan = 2;\n');
+    expect(await computeAffected(options)).toMatchObject({
+      action: 'selective',
+      affectedTests: [at('tests/other.test.ts')],
+      changed: [at('src/orphan.ts')],
+    });
+
+    // Committing moves nothing into the selection; both files still differ as seen
+    git('commit', '-am', 'both');
+    expect(await computeAffected(options)).toMatchObject({
+      affectedTests: [at('tests/other.test.ts')],
+      changed: [at('src/orphan.ts')],
+    });
+  });
+
+  test('a renamed module keeps its tests', async () => {
+    const dir = setupProject();
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' });
+    git('init');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    writeFileSync(path.join(dir, '.gitignore'), '.vitest-affected/\n');
+    git('add', '.');
+    git('commit', '-m', 'initial');
+    git('mv', 'src/main.ts', 'src/entry.ts');
+
+    const result = await computeAffected({ rootDir: dir, include: ['tests/**/*.test.ts'] });
+    expect(result).toMatchObject({
+      action: 'selective',
+      affectedTests: [at('tests/main.test.ts')],
+      changed: [at('src/entry.ts')],
+      deleted: [at('src/main.ts')],
+    });
+    expect(result.chains[at('tests/main.test.ts')]).toEqual([at('src/entry.ts'), at('tests/main.test.ts')]);
+  });
+
+  test('dependency analysis reads the base revision through the change source', async () => {
+    const dir = setupProject();
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    const lockfile = (version: string) => JSON.stringify({
+      lockfileVersion: 3,
+      packages: { '': { name: 'app' }, 'node_modules/zod': { version } },
+    });
+    writeFileSync(path.join(dir, 'package-lock.json'), lockfile('3.1.0'));
+    saveCacheSync(path.join(dir, '.vitest-affected'), dir, new Map([
+      [at('src/main.ts'), new Set([at('tests/main.test.ts')])],
+      ['pkg:zod', new Set([at('tests/other.test.ts')])],
+    ]));
+    // No git here: the source alone knows the lockfile's old contents
+    const read: string[] = [];
+    const vcs: ChangeSource = {
+      name: 'memory',
+      getChangedFiles: async () =>
+        ({ changed: [at('package-lock.json')], deleted: [], entries: [], renames: [] }),
+      baseRevision: async (_rootDir, ref) => `fork(${ref})`,
+      readFileAtRevision: async (_rootDir, rev, absPath) => {
+        read.push(`${rev} ${path.basename(absPath)}`);
+        return lockfile('3.0.0');
+      },
+    };
+
+    const result = await computeAffected({ rootDir: dir, include: ['tests/**/*.test.ts'], ref: 'main', vcs });
+    expect(result).toMatchObject({ action: 'selective', affectedTests: [at('tests/other.test.ts')] });
+    expect(read).toEqual(['fork(main) package-lock.json']);
+
+    const { readFileAtRevision: _read, ...historyless } = vcs;
+    expect(await computeAffected({ rootDir: dir, include: ['tests/**/*.test.ts'], ref: 'main', vcs: historyless }))
+      .toMatchObject({ action: 'full-suite', reason: 'lockfile-unanalyzable' });
+  });
+});
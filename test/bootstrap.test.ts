@@ -0,0 +1,71 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { buildStaticReverseMap } from '../src/graph/bootstrap.js';
+
+const fixtureDir = (name: string) => path.resolve(import.meta.dirname, 'fixtures', name);
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+describe('buildStaticReverseMap', () => {
+  test('maps every transitively imported file and package to the tests that load it', async () => {
+    const dir = fixtureDir('diamond');
+    const abs = (rel: string) => path.join(dir, rel);
+    const aTest = abs('tests/a.test.ts');
+    const bTest = abs('tests/b.test.ts');
+
+    const reverse = await buildStaticReverseMap([aTest, bTest], dir);
+
+    expect(reverse.get(abs('src/a.ts'))).toEqual(new Set([aTest]));
+    expect(reverse.get(abs('src/d.ts'))).toEqual(new Set([aTest]));
+    expect(reverse.get(abs('src/b.ts'))).toEqual(new Set([aTest, bTest]));
+    expect(reverse.get(abs('src/c.ts'))).toEqual(new Set([aTest, bTest]));
+    expect(reverse.get('pkg:vitest')).toEqual(new Set([aTest, bTest]));
+    // Tests are values, never keys of their own edges
+    expect(reverse.has(aTest)).toBe(false);
+  });
+
+  test('handles cycles, skips non-script files and unresolvable imports', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-bootstrap-'));
+    tempDirs.push(dir);
+    mkdirSync(path.join(dir, 'src'));
+    mkdirSync(path.join(dir, 'tests'));
+    writeFileSync(path.join(dir, 'tsconfig.json'), '{}');
+    writeFileSync(path.join(dir, 'src', 'x.ts'), 'import { y } from "./y";\nimport data from "./data.json";\nexport const x = 1;\n');
+    writeFileSync(path.join(dir, 'src', 'y.ts'), 'import { x } from "./x";\nimport "./missing";\nexport const y = x;\n');
+    writeFileSync(path.join(dir, 'src', 'data.json'), '{"not": "javascript"}');
+    const test = path.join(dir, 'tests', 'x.test.ts');
+    writeFileSync(test, 'import { x } from "../src/x";\n');
+
+    const reverse = await buildStaticReverseMap([test], dir, { workers: 1 });
+
+    expect([...reverse.keys()].sort()).toEqual(
+      ['src/data.json', 'src/x.ts', 'src/y.ts'].map((f) => path.join(dir, f)),
+    );
+  });
+  test('a worker that exits without answering falls back to in-process resolution', async () => {
+    const workerDir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-worker-'));
+    tempDirs.push(workerDir);
+    // Stands in for an OOM kill or a resourceLimits termination
+    const workerFile = path.join(workerDir, 'crash.mjs');
+    writeFileSync(workerFile, 'import { parentPort } from "node:worker_threads";\nparentPort.on("message", () => process.exit(3));\n');
+    const dir = fixtureDir('diamond');
+    const tests = [path.join(dir, 'tests/a.test.ts'), path.join(dir, 'tests/b.test.ts')];
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const reverse = await buildStaticReverseMap(tests, dir, { workers: 2, workerUrl: pathToFileURL(workerFile) });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Bootstrap worker exited with code 3'));
+    warn.mockRestore();
+
+    expect(reverse).toEqual(await buildStaticReverseMap(tests, dir, { workers: 1 }));
+  });
+});
@@ -1,8 +1,14 @@
 import { describe, test, expect, vi, afterEach } from 'vitest';
 import path from 'node:path';
-import { writeFileSync, mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { writeFileSync, mkdirSync, mkdtempSync, rmSync, statSync, utimesSync } from 'node:fs';
 import { tmpdir } from 'node:os';
-import { resolveFileImports, createResolver, deltaParseNewImports } from '../src/graph/builder.js';
+import {
+  resolveFileImports,
+  createResolver,
+  deltaParseNewImports,
+  addStaticPackageEdges,
+  type PackageImportMemo,
+} from '../src/graph/builder.js';
 
 const fixtureDir = (name: string) => path.resolve(import.meta.dirname, 'fixtures', name);
 
@@ -212,3 +218,63 @@ describe('deltaParseNewImports', () => {
     warnSpy.mockRestore();
   });
 });
+
+describe('addStaticPackageEdges', () => {
+  function setup() {
+    const rootDir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-pkg-edges-')).replaceAll('\\', '/');
+    tempDirs.push(rootDir);
+    for (const dir of ['src', 'tests', 'node_modules/dep', 'node_modules/@scope/ui', 'node_modules/types-only']) {
+      mkdirSync(path.join(rootDir, dir), { recursive: true });
+    }
+    writeFileSync(path.join(rootDir, 'node_modules/dep/package.json'), '{"name":"dep","main":"index.js"}');
+    writeFileSync(path.join(rootDir, 'node_modules/dep/index.js'), 'export const dep = 1;');
+    writeFileSync(path.join(rootDir, 'node_modules/@scope/ui/package.json'), '{"name":"@scope/ui","main":"index.js"}');
+    writeFileSync(path.join(rootDir, 'node_modules/@scope/ui/index.js'), 'export const ui = 1;');
+    writeFileSync(path.join(rootDir, 'node_modules/types-only/package.json'), '{"name":"types-only","main":"index.js"}');
+    writeFileSync(path.join(rootDir, 'node_modules/types-only/index.js'), '');
+
+    const src = `${rootDir}/src/a.ts`;
+    const testFile = `${rootDir}/tests/a.test.ts`;
+    writeFileSync(src, "import { dep } from 'dep';\nimport type { T } from 'types-only';\nimport { b } from './b';\nexport const a = dep;\n");
+    writeFileSync(testFile, "import { ui } from '@scope/ui';\nimport { readFileSync } from 'node:fs';\nimport { a } from '../src/a';\n");
+    return { rootDir, src, testFile };
+  }
+
+  test('adds pkg edges for bare imports of loaded project files and the test itself', () => {
+    const { rootDir, src, testFile } = setup();
+    const edges = new Map([[src, new Set([testFile])]]);
+
+    addStaticPackageEdges(edges, rootDir);
+
+    expect(edges).toEqual(new Map([
+      [src, new Set([testFile])],
+      ['pkg:dep', new Set([testFile])],
+      ['pkg:@scope/ui', new Set([testFile])],
+    ]));
+  });
+
+  test('reuses the packages of files whose mtime and size are unchanged', () => {
+    const { rootDir, src, testFile } = setup();
+    // Whole seconds, so the timestamp survives being set again
+    const mtime = new Date(2026, 0, 1);
+    utimesSync(src, mtime, mtime);
+    const memo: PackageImportMemo = new Map();
+    addStaticPackageEdges(new Map([[src, new Set([testFile])]]), rootDir, memo);
+    expect(memo.get(src)?.packages).toEqual(['dep']);
+
+    // Same size and mtime: not re-read, so the memoized imports still apply
+    const { size } = statSync(src);
+    writeFileSync(src, 'export const a = 1;'.padEnd(size - 1) + '\n');
+    utimesSync(src, mtime, mtime);
+    const reused = new Map([[src, new Set([testFile])]]);
+    addStaticPackageEdges(reused, rootDir, memo);
+    expect(reused.get('pkg:dep')).toEqual(new Set([testFile]));
+
+    // Edited: re-read
+    utimesSync(src, mtime, new Date(mtime.getTime() + 5000));
+    const edited = new Map([[src, new Set([testFile])]]);
+    addStaticPackageEdges(edited, rootDir, memo);
+    expect(edited.has('pkg:dep')).toBe(false);
+    expect(memo.get(src)?.packages).toEqual([]);
+  });
+});
@@ -0,0 +1,702 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync, readFileSync, readdirSync, utimesSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import {
+  claimStaleLock,
+  loadCachedReverseMap,
+  mergeRuntimeEdges,
+  renameReverseEntries,
+  saveCacheSync,
+  updateCache,
+} from '../src/graph/cache.js';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+function makeTempDir(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-cache-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+describe('cache round-trip', () => {
+  test('saveCacheSync + loadCachedReverseMap returns same data', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    const reverse = new Map<string, Set<string>>();
+    reverse.set(
+      path.join(rootDir, 'src', 'a.ts'),
+      new Set([path.join(rootDir, 'test', 'a.test.ts')]),
+    );
+    reverse.set(
+      path.join(rootDir, 'src', 'b.ts'),
+      new Set([
+        path.join(rootDir, 'test', 'a.test.ts'),
+        path.join(rootDir, 'test', 'b.test.ts'),
+      ]),
+    );
+
+    saveCacheSync(cacheDir, rootDir, reverse);
+    const { reverse: loaded, hit } = loadCachedReverseMap(cacheDir, rootDir);
+
+    expect(hit).toBe(true);
+    expect(loaded.size).toBe(2);
+    expect([...loaded.get(path.join(rootDir, 'src', 'a.ts'))!]).toEqual([
+      path.join(rootDir, 'test', 'a.test.ts'),
+    ]);
+    expect(loaded.get(path.join(rootDir, 'src', 'b.ts'))!.size).toBe(2);
+  });
+
+  test('empty reverse map round-trips correctly', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    saveCacheSync(cacheDir, rootDir, new Map());
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+
+    expect(hit).toBe(true);
+    expect(reverse.size).toBe(0);
+  });
+
+  test('writes valid JSON with version: 4', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    saveCacheSync(cacheDir, rootDir, new Map());
+    const raw = readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8');
+    const parsed = JSON.parse(raw);
+
+    expect(parsed.version).toBe(4);
+    expect(typeof parsed.builtAt).toBe('number');
+    expect(typeof parsed.reverseMap).toBe('object');
+    expect(typeof parsed.files).toBe('object');
+  });
+});
+
+describe('v1 migration', () => {
+  test('v1 cache with runtimeEdges is migrated', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    const v1Cache = {
+      version: 1,
+      builtAt: Date.now(),
+      files: {
+        [path.join(rootDir, 'src', 'a.ts')]: { mtime: 1000, imports: [] },
+      },
+      runtimeEdges: {
+        [path.join(rootDir, 'src', 'a.ts')]: [
+          path.join(rootDir, 'test', 'a.test.ts'),
+        ],
+      },
+    };
+
+    writeFileSync(path.join(cacheDir, 'graph.json'), JSON.stringify(v1Cache));
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(true);
+    expect(reverse.size).toBe(1);
+    expect(reverse.get(path.join(rootDir, 'src', 'a.ts'))!.has(
+      path.join(rootDir, 'test', 'a.test.ts'),
+    )).toBe(true);
+  });
+
+  test('v1 cache without runtimeEdges is a cache miss', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    const v1Cache = {
+      version: 1,
+      builtAt: Date.now(),
+      files: {
+        [path.join(rootDir, 'src', 'a.ts')]: { mtime: 1000, imports: [] },
+      },
+    };
+
+    writeFileSync(path.join(cacheDir, 'graph.json'), JSON.stringify(v1Cache));
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(false);
+    expect(reverse.size).toBe(0);
+  });
+});
+
+describe('corruption recovery', () => {
+  test('corrupt JSON returns cache miss', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    writeFileSync(path.join(cacheDir, 'graph.json'), '{corrupted!!!');
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(false);
+    expect(reverse.size).toBe(0);
+  });
+
+  test('missing cache file returns cache miss', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(false);
+    expect(reverse.size).toBe(0);
+  });
+
+  test('unknown version returns cache miss', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({ version: 99, data: {} }),
+    );
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(false);
+    expect(reverse.size).toBe(0);
+  });
+
+  test('v2 with invalid reverseMap schema returns cache miss', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({ version: 2, builtAt: Date.now(), reverseMap: 'not-an-object' }),
+    );
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(false);
+    expect(reverse.size).toBe(0);
+  });
+});
+
+describe('path confinement', () => {
+  test('entries outside rootDir are excluded', () => {
+    const rootDir = makeTempDir();
+    const otherDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    const reverse = new Map<string, Set<string>>();
+    // Entry under rootDir
+    reverse.set(
+      path.join(rootDir, 'src', 'a.ts'),
+      new Set([path.join(rootDir, 'test', 'a.test.ts')]),
+    );
+    // Entry outside rootDir
+    reverse.set(
+      path.join(otherDir, 'src', 'evil.ts'),
+      new Set([path.join(otherDir, 'test', 'evil.test.ts')]),
+    );
+
+    saveCacheSync(cacheDir, rootDir, reverse);
+    const { reverse: loaded, hit } = loadCachedReverseMap(cacheDir, rootDir);
+
+    expect(hit).toBe(true);
+    // Only the entry under rootDir should be loaded
+    expect(loaded.size).toBe(1);
+    expect(loaded.has(path.join(rootDir, 'src', 'a.ts'))).toBe(true);
+    expect(loaded.has(path.join(otherDir, 'src', 'evil.ts'))).toBe(false);
+  });
+
+  test('test paths outside rootDir in values are filtered out', () => {
+    const rootDir = makeTempDir();
+    const otherDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    const reverse = new Map<string, Set<string>>();
+    reverse.set(
+      path.join(rootDir, 'src', 'a.ts'),
+      new Set([
+        path.join(rootDir, 'test', 'a.test.ts'),
+        path.join(otherDir, 'test', 'evil.test.ts'),
+      ]),
+    );
+
+    saveCacheSync(cacheDir, rootDir, reverse);
+    const { reverse: loaded, hit } = loadCachedReverseMap(cacheDir, rootDir);
+
+    expect(hit).toBe(true);
+    const tests = loaded.get(path.join(rootDir, 'src', 'a.ts'))!;
+    expect(tests.size).toBe(1);
+    expect(tests.has(path.join(rootDir, 'test', 'a.test.ts'))).toBe(true);
+  });
+});
+
+describe('proto-pollution protection', () => {
+  test('__proto__ keys in cache are rejected', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    // Craft a v2 cache with __proto__ key
+    const malicious = JSON.stringify({
+      version: 2,
+      builtAt: Date.now(),
+      reverseMap: {
+        __proto__: [path.join(rootDir, 'test', 'a.test.ts')],
+        [path.join(rootDir, 'src', 'a.ts')]: [path.join(rootDir, 'test', 'a.test.ts')],
+      },
+    });
+    writeFileSync(path.join(cacheDir, 'graph.json'), malicious);
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(true);
+    // __proto__ key should have been removed by safeJsonReviver
+    expect(reverse.size).toBe(1);
+  });
+});
+
+describe('orphaned tmp cleanup', () => {
+  test('cleans up .tmp- files on load', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    // Create orphaned tmp files, old enough that no live writer owns them
+    const past = new Date(Date.now() - 120_000);
+    for (const name of ['.tmp-abc123', '.tmp-def456']) {
+      writeFileSync(path.join(cacheDir, name), 'garbage');
+      utimesSync(path.join(cacheDir, name), past, past);
+    }
+
+    loadCachedReverseMap(cacheDir, rootDir);
+
+    // Should not throw and orphans should be cleaned
+    const entries = readdirSync(cacheDir);
+    expect(entries.filter((e: string) => e.startsWith('.tmp-'))).toEqual([]);
+  });
+
+  test('leaves recent .tmp- files from a concurrent writer alone', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(path.join(cacheDir, '.tmp-inflight'), 'partial');
+
+    loadCachedReverseMap(cacheDir, rootDir);
+
+    expect(readdirSync(cacheDir)).toContain('.tmp-inflight');
+  });
+});
+
+describe('verbose logging', () => {
+  test('logs v4 cache hit in verbose mode', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    saveCacheSync(cacheDir, rootDir, new Map());
+    loadCachedReverseMap(cacheDir, rootDir, true);
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('v4 cache hit'),
+    );
+    warnSpy.mockRestore();
+  });
+
+  test('logs v1 migration in verbose mode', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({
+        version: 1,
+        builtAt: Date.now(),
+        files: {},
+        runtimeEdges: {
+          [path.join(rootDir, 'src', 'a.ts')]: [path.join(rootDir, 'test', 'a.test.ts')],
+        },
+      }),
+    );
+
+    loadCachedReverseMap(cacheDir, rootDir, true);
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('v1→v4 migration'),
+    );
+    warnSpy.mockRestore();
+  });
+});
+
+describe('v3 content fingerprints', () => {
+  function setup() {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(path.join(rootDir, 'src'), { recursive: true });
+    mkdirSync(path.join(rootDir, 'test'), { recursive: true });
+    const src = path.join(rootDir, 'src', 'a.ts');
+    const testFile = path.join(rootDir, 'test', 'a.test.ts');
+    writeFileSync(src, 'export const a = 1;\n');
+    writeFileSync(testFile, 'import { a } from "../src/a";\n');
+    saveCacheSync(cacheDir, rootDir, new Map([[src, new Set([testFile])]]));
+    return { rootDir, cacheDir, src, testFile };
+  }
+
+  test('records a fingerprint for every tracked source and test file', () => {
+    const { cacheDir, src, testFile } = setup();
+    const parsed = JSON.parse(readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8'));
+    expect(Object.keys(parsed.files).sort()).toEqual(['src/a.ts', 'test/a.test.ts']);
+    expect(parsed.files['src/a.ts'].hash).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  test('unchanged files are not stale', () => {
+    const { rootDir, cacheDir } = setup();
+    const { hit, stale } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(true);
+    expect(stale).toEqual([]);
+  });
+
+  test('files edited after the save are reported stale', () => {
+    const { rootDir, cacheDir, src } = setup();
+    writeFileSync(src, 'export const a = 2; // edited outside git\n');
+    const { stale } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(stale).toEqual([src]);
+  });
+
+  test('rewritten file with identical content is not stale', () => {
+    const { rootDir, cacheDir, src } = setup();
+    const future = new Date(Date.now() + 60_000);
+    writeFileSync(src, 'export const a = 1;\n');
+    utimesSync(src, future, future);
+    const { stale } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(stale).toEqual([]);
+  });
+
+  test('deleted tracked files are reported stale', () => {
+    const { rootDir, cacheDir, testFile } = setup();
+    rmSync(testFile);
+    const { stale } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(stale).toEqual([testFile]);
+  });
+
+  test('v2 cache is migrated with no stale entries and rewritten as v4 on save', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+    const src = path.join(rootDir, 'src', 'a.ts');
+    const testFile = path.join(rootDir, 'test', 'a.test.ts');
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({ version: 2, builtAt: Date.now(), reverseMap: { [src]: [testFile] } }),
+    );
+
+    const { reverse, hit, stale } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(true);
+    expect(stale).toEqual([]);
+    expect(reverse.get(src)).toEqual(new Set([testFile]));
+
+    saveCacheSync(cacheDir, rootDir, reverse);
+    const parsed = JSON.parse(readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8'));
+    expect(parsed.version).toBe(4);
+    expect(parsed.reverseMap).toEqual({ 'src/a.ts': ['test/a.test.ts'] });
+  });
+
+  test('v3 with invalid files schema returns cache miss', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({ version: 3, builtAt: Date.now(), reverseMap: {}, files: { x: 'nope' } }),
+    );
+
+    const { hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(false);
+  });
+});
+
+describe('portable paths', () => {
+  function writeProject(rootDir: string) {
+    mkdirSync(path.join(rootDir, 'src'), { recursive: true });
+    mkdirSync(path.join(rootDir, 'test'), { recursive: true });
+    writeFileSync(path.join(rootDir, 'src', 'a.ts'), 'export const a = 1;\n');
+    writeFileSync(path.join(rootDir, 'test', 'a.test.ts'), 'import { a } from "../src/a";\n');
+  }
+
+  test('stores root-relative POSIX paths on disk', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    writeProject(rootDir);
+    saveCacheSync(cacheDir, rootDir, new Map([
+      [path.join(rootDir, 'src', 'a.ts'), new Set([path.join(rootDir, 'test', 'a.test.ts')])],
+    ]));
+
+    const raw = readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8');
+    expect(raw).not.toContain(rootDir);
+    expect(JSON.parse(raw).reverseMap).toEqual({ 'src/a.ts': ['test/a.test.ts'] });
+  });
+
+  test('cache restored into a different checkout directory still hits', () => {
+    const original = makeTempDir();
+    const relocated = makeTempDir();
+    writeProject(original);
+    writeProject(relocated);
+    saveCacheSync(path.join(original, '.vitest-affected'), original, new Map([
+      [path.join(original, 'src', 'a.ts'), new Set([path.join(original, 'test', 'a.test.ts')])],
+    ]));
+
+    const relocatedCacheDir = path.join(relocated, '.vitest-affected');
+    mkdirSync(relocatedCacheDir, { recursive: true });
+    writeFileSync(
+      path.join(relocatedCacheDir, 'graph.json'),
+      readFileSync(path.join(original, '.vitest-affected', 'graph.json')),
+    );
+
+    const { reverse, hit, stale } = loadCachedReverseMap(relocatedCacheDir, relocated);
+    expect(hit).toBe(true);
+    expect(stale).toEqual([]);
+    expect(reverse.get(path.join(relocated, 'src', 'a.ts'))).toEqual(
+      new Set([path.join(relocated, 'test', 'a.test.ts')]),
+    );
+  });
+
+  test('relative entries that escape rootDir are dropped', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({
+        version: 4,
+        builtAt: Date.now(),
+        reverseMap: {
+          'src/a.ts': ['test/a.test.ts', '../outside/evil.test.ts'],
+          '../outside/evil.ts': ['test/a.test.ts'],
+        },
+        files: {},
+      }),
+    );
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(true);
+    expect([...reverse.keys()]).toEqual([path.join(rootDir, 'src', 'a.ts')]);
+    expect(reverse.get(path.join(rootDir, 'src', 'a.ts'))).toEqual(
+      new Set([path.join(rootDir, 'test', 'a.test.ts')]),
+    );
+  });
+
+  test('v3 caches with absolute paths still load', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+    const src = path.join(rootDir, 'src', 'a.ts');
+    const testFile = path.join(rootDir, 'test', 'a.test.ts');
+    writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({ version: 3, builtAt: Date.now(), reverseMap: { [src]: [testFile] }, files: {} }),
+    );
+
+    const { reverse, hit } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(hit).toBe(true);
+    expect(reverse.get(src)).toEqual(new Set([testFile]));
+  });
+
+  test('entries in the other version\'s path form are dropped', () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    mkdirSync(cacheDir, { recursive: true });
+    const src = path.join(rootDir, 'src', 'a.ts');
+    const testFile = path.join(rootDir, 'test', 'a.test.ts');
+    const write = (version: number) => writeFileSync(
+      path.join(cacheDir, 'graph.json'),
+      JSON.stringify({
+        version,
+        builtAt: Date.now(),
+        reverseMap: { [src]: ['test/a.test.ts', testFile], 'src/b.ts': [testFile, 'test/a.test.ts'] },
+        files: {},
+      }),
+    );
+
+    write(3);
+    expect(loadCachedReverseMap(cacheDir, rootDir).reverse).toEqual(new Map([[src, new Set([testFile])]]));
+    write(4);
+    expect(loadCachedReverseMap(cacheDir, rootDir).reverse).toEqual(
+      new Map([[path.join(rootDir, 'src', 'b.ts'), new Set([testFile])]]),
+    );
+  });
+});
+
+describe('concurrent writers', () => {
+  function setup() {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    const p = (rel: string) => path.join(rootDir, rel);
+    return { rootDir, cacheDir, p };
+  }
+
+  test('mergeRuntimeEdges replaces edges only for tests that ran', () => {
+    const reverse = new Map([
+      ['/r/src/a.ts', new Set(['/r/test/a.test.ts', '/r/test/b.test.ts'])],
+      ['/r/src/old.ts', new Set(['/r/test/a.test.ts'])],
+    ]);
+    mergeRuntimeEdges(reverse, new Map([['/r/src/new.ts', new Set(['/r/test/a.test.ts'])]]));
+
+    expect(reverse).toEqual(new Map([
+      ['/r/src/a.ts', new Set(['/r/test/b.test.ts'])],
+      ['/r/src/new.ts', new Set(['/r/test/a.test.ts'])],
+    ]));
+  });
+
+  test('writers that loaded the same snapshot both keep their edges', async () => {
+    const { rootDir, cacheDir, p } = setup();
+    saveCacheSync(cacheDir, rootDir, new Map([[p('src/shared.ts'), new Set([p('test/c.test.ts')])]]));
+
+    // Two processes start from the same graph.json, then finish in turn
+    await updateCache(cacheDir, rootDir, new Map([[p('src/a.ts'), new Set([p('test/a.test.ts')])]]));
+    await updateCache(cacheDir, rootDir, new Map([[p('src/b.ts'), new Set([p('test/b.test.ts')])]]));
+
+    const { reverse } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(reverse).toEqual(new Map([
+      [p('src/shared.ts'), new Set([p('test/c.test.ts')])],
+      [p('src/a.ts'), new Set([p('test/a.test.ts')])],
+      [p('src/b.ts'), new Set([p('test/b.test.ts')])],
+    ]));
+  });
+
+  test('returns the merged map and releases the lock', async () => {
+    const { rootDir, cacheDir, p } = setup();
+    const merged = await updateCache(cacheDir, rootDir, new Map([[p('src/a.ts'), new Set([p('test/a.test.ts')])]]));
+
+    expect(merged.get(p('src/a.ts'))).toEqual(new Set([p('test/a.test.ts')]));
+    expect(readdirSync(cacheDir)).not.toContain('graph.lock');
+  });
+
+  test('times out while another writer holds the lock', async () => {
+    const { rootDir, cacheDir, p } = setup();
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(path.join(cacheDir, 'graph.lock'), '99999');
+
+    await expect(updateCache(
+      cacheDir, rootDir, new Map([[p('src/a.ts'), new Set([p('test/a.test.ts')])]]), { lockTimeoutMs: 50 },
+    )).rejects.toThrow(/cache lock/);
+    expect(readdirSync(cacheDir)).not.toContain('graph.json');
+  });
+
+  test('steals a lock abandoned by a crashed writer', async () => {
+    const { rootDir, cacheDir, p } = setup();
+    mkdirSync(cacheDir, { recursive: true });
+    const lockPath = path.join(cacheDir, 'graph.lock');
+    writeFileSync(lockPath, '99999');
+    const past = new Date(Date.now() - 120_000);
+    utimesSync(lockPath, past, past);
+
+    await updateCache(
+      cacheDir, rootDir, new Map([[p('src/a.ts'), new Set([p('test/a.test.ts')])]]), { lockTimeoutMs: 50 },
+    );
+
+    const { reverse } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(reverse.has(p('src/a.ts'))).toBe(true);
+    expect(readdirSync(cacheDir)).not.toContain('graph.lock');
+  });
+});
+
+describe('claimStaleLock', () => {
+  test('only the waiter that finds the token it saw stale takes the lock', () => {
+    const cacheDir = makeTempDir();
+    const lockPath = path.join(cacheDir, 'graph.lock');
+    writeFileSync(lockPath, 'crashed');
+
+    expect(claimStaleLock(lockPath, 'crashed')).toBe(true);
+    expect(existsSync(lockPath)).toBe(false);
+
+    // The first waiter took a fresh lock; a second one that also saw 'crashed' leaves it alone
+    writeFileSync(lockPath, 'fresh');
+    expect(claimStaleLock(lockPath, 'crashed')).toBe(false);
+    expect(readFileSync(lockPath, 'utf-8')).toBe('fresh');
+    expect(readdirSync(cacheDir)).toEqual(['graph.lock']);
+  });
+});
+
+describe('renames', () => {
+  test('renameReverseEntries moves source keys and test values to the new path', () => {
+    const reverse = new Map([
+      ['/r/src/old.ts', new Set(['/r/test/old.test.ts', '/r/test/b.test.ts'])],
+      ['/r/src/new.ts', new Set(['/r/test/c.test.ts'])],
+      ['/r/src/util.ts', new Set(['/r/test/old.test.ts'])],
+    ]);
+    const applied = renameReverseEntries(reverse, [
+      { from: '/r/src/old.ts', to: '/r/src/new.ts' },
+      { from: '/r/test/old.test.ts', to: '/r/test/mid.test.ts' },
+      { from: '/r/test/mid.test.ts', to: '/r/test/final.test.ts' },
+      { from: '/r/src/unknown.ts', to: '/r/src/elsewhere.ts' },
+    ]);
+
+    expect(applied).toBe(3);
+    expect(reverse).toEqual(new Map([
+      ['/r/src/new.ts', new Set(['/r/test/c.test.ts', '/r/test/final.test.ts', '/r/test/b.test.ts'])],
+      ['/r/src/util.ts', new Set(['/r/test/final.test.ts'])],
+    ]));
+  });
+
+  test('updateCache re-keys the latest graph before merging', async () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    const p = (rel: string) => path.join(rootDir, rel);
+    saveCacheSync(cacheDir, rootDir, new Map([[p('src/old.ts'), new Set([p('test/a.test.ts')])]]));
+
+    await updateCache(cacheDir, rootDir, new Map([[p('src/b.ts'), new Set([p('test/b.test.ts')])]]), {
+      renames: [{ from: p('src/old.ts'), to: p('src/new.ts') }],
+    });
+
+    const { reverse } = loadCachedReverseMap(cacheDir, rootDir);
+    expect(reverse).toEqual(new Map([
+      [p('src/new.ts'), new Set([p('test/a.test.ts')])],
+      [p('src/b.ts'), new Set([p('test/b.test.ts')])],
+    ]));
+  });
+});
+
+describe('symbol records', () => {
+  test('round-trip, merge per module, and are cleared by writers that record none', async () => {
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    const p = (rel: string) => path.join(rootDir, rel);
+    mkdirSync(p('src'));
+    mkdirSync(p('test'));
+    for (const rel of ['src/a.ts', 'src/b.ts', 'test/a.test.ts', 'test/b.test.ts']) writeFileSync(p(rel), rel);
+    const imports = (target: string, names: string[]) =>
+      ({ imports: new Map([[target, new Set(names)]]), opaque: false });
+
+    await updateCache(cacheDir, rootDir, new Map([[p('src/a.ts'), new Set([p('test/a.test.ts')])]]), {
+      symbols: new Map([[p('test/a.test.ts'), imports(p('src/a.ts'), ['a'])]]),
+    });
+    await updateCache(cacheDir, rootDir, new Map([[p('src/b.ts'), new Set([p('test/b.test.ts')])]]), {
+      symbols: new Map([
+        [p('test/b.test.ts'), imports(p('src/b.ts'), ['default'])],
+        // Not in the graph: dropped
+        [p('src/gone.ts'), imports(p('src/a.ts'), ['*'])],
+      ]),
+    });
+
+    const stored = JSON.parse(readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8'));
+    expect(stored.symbols).toEqual({
+      'test/a.test.ts': { imports: { 'src/a.ts': ['a'] } },
+      'test/b.test.ts': { imports: { 'src/b.ts': ['default'] } },
+    });
+
+    // A stale module's record is dropped on load
+    writeFileSync(p('test/b.test.ts'), 'edited');
+    expect(loadCachedReverseMap(cacheDir, rootDir).symbols).toEqual(new Map([
+      [p('test/a.test.ts'), imports(p('src/a.ts'), ['a'])],
+    ]));
+
+    await updateCache(cacheDir, rootDir, new Map([[p('src/a.ts'), new Set([p('test/a.test.ts')])]]));
+    expect(loadCachedReverseMap(cacheDir, rootDir).symbols).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { computeAffected } from '../src/affected.js';
+import { runCli } from '../src/cli.js';
+import { saveCacheSync } from '../src/graph/cache.js';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+/**
+ * Committed project where money.ts is loaded by both tests and cart.ts only
+ * by checkout.test.ts, with a cached graph matching the working tree.
+ */
+function setupProject(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-cli-'));
+  tempDirs.push(dir);
+  const files: Record<string, string> = {
+    'src/money.ts': 'export const cents = (n: number) => n * 100;\n',
+    'src/cart.ts': 'import { cents } from "./money";\nexport const total = cents(1);\n',
+    'tests/checkout.test.ts': 'import { total } from "../src/cart";\n',
+    'tests/money.test.ts': 'import { cents } from "../src/money";\n',
+  };
+  for (const [rel, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+    writeFileSync(path.join(dir, rel), content);
+  }
+  const abs = (rel: string) => path.join(dir, rel);
+  saveCacheSync(path.join(dir, '.vitest-affected'), dir, new Map([
+    [abs('src/money.ts'), new Set([abs('tests/checkout.test.ts'), abs('tests/money.test.ts')])],
+    [abs('src/cart.ts'), new Set([abs('tests/checkout.test.ts')])],
+    ['pkg:zod', new Set([abs('tests/money.test.ts')])],
+  ]));
+
+  const git = (args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' });
+  git(['init']);
+  git(['config', 'user.email', 'test@test.com']);
+  git(['config', 'user.name', 'Test']);
+  git(['add', 'src', 'tests']);
+  git(['commit', '-m', 'initial']);
+  return dir;
+}
+
+async function cli(dir: string, ...argv: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(argv, { cwd: dir, out: (l) => out.push(l), err: (l) => err.push(l) });
+  return { code, out, err };
+}
+
+describe('runCli', () => {
+  test('list prints the tests affected by the working-tree diff', async () => {
+    const dir = setupProject();
+    expect((await cli(dir, 'list')).out).toEqual([]);
+
+    writeFileSync(path.join(dir, 'src', 'cart.ts'), 'export const total = 1;\n');
+    writeFileSync(path.join(dir, 'src', 'new.ts'), 'export const x = 1;\n');
+    const { code, out } = await cli(dir, 'list', '--json');
+    expect(code).toBe(0);
+    expect(JSON.parse(out.join('\n'))).toEqual({
+      action: 'selective',
+      changedFiles: ['src/cart.ts', 'src/new.ts'],
+      tests: ['tests/checkout.test.ts'],
+      unreached: ['src/new.ts'],
+    });
+  });
+
+  test('list makes the same decision as computeAffected', async () => {
+    const dir = setupProject();
+    const lockfile = (version: string) => JSON.stringify({
+      lockfileVersion: 3,
+      packages: { '': { name: 'app' }, 'node_modules/zod': { version } },
+    });
+    writeFileSync(path.join(dir, 'package-lock.json'), lockfile('3.0.0'));
+    execFileSync('git', ['add', 'package-lock.json'], { cwd: dir, stdio: 'pipe' });
+    execFileSync('git', ['commit', '-m', 'lockfile'], { cwd: dir, stdio: 'pipe' });
+    const include = ['tests/**/*.test.ts'];
+    const expected = async () => {
+      const result = await computeAffected({ rootDir: dir, include });
+      const rel = (files: string[]) => files.map((f) => path.relative(dir, f).replaceAll('\\', '/'));
+      return {
+        action: result.action,
+        ...(result.reason ? { reason: result.reason } : {}),
+        changedFiles: rel([...result.changed, ...result.deleted]).sort(),
+        tests: rel(result.affectedTests),
+        unreached: rel(result.unreached),
+      };
+    };
+
+    // Lockfile change: mapped to the package, not a full suite
+    writeFileSync(path.join(dir, 'package-lock.json'), lockfile('3.1.0'));
+    const lockfileList = JSON.parse((await cli(dir, 'list', '--json', '--include', include[0]!)).out.join('\n'));
+    expect(lockfileList).toEqual(await expected());
+    expect(lockfileList).toMatchObject({ action: 'selective', tests: ['tests/money.test.ts'] });
+
+    // Config change: full suite, with the reason printed
+    writeFileSync(path.join(dir, 'vitest.config.ts'), 'export default {};\n');
+    const configList = JSON.parse((await cli(dir, 'list', '--json', '--include', include[0]!)).out.join('\n'));
+    expect(configList).toEqual(await expected());
+    expect(configList).toMatchObject({ action: 'full-suite', reason: 'config-change', tests: [] });
+    const text = await cli(dir, 'list');
+    expect(text.out).toEqual([]);
+    expect(text.err).toEqual(['[vitest-affected] Full suite: config-change']);
+    expect((await cli(dir, 'why', 'tests/money.test.ts')).out)
+      .toEqual(['tests/money.test.ts runs with the full suite: config-change']);
+  });
+
+  test('why prints the chain to a test, deps the tests loading a file', async () => {
+    const dir = setupProject();
+    writeFileSync(path.join(dir, 'src', 'money.ts'), 'export const cents = (n: number) => n * 1000;\n');
+
+    expect((await cli(dir, 'why', 'tests/checkout.test.ts')).out)
+      .toEqual(['src/money.ts → tests/checkout.test.ts']);
+    expect((await cli(dir, 'deps', 'src/cart.ts')).out).toEqual(['tests/checkout.test.ts']);
+    expect((await cli(dir, 'deps', 'pkg:zod')).out).toEqual(['tests/money.test.ts']);
+  });
+
+  test('cache info, verify and clear', async () => {
+    const dir = setupProject();
+    const info = JSON.parse((await cli(dir, 'cache', 'info', '--json')).out.join('\n'));
+    expect(info).toMatchObject({ version: 4, modules: 2, packages: 1, tests: 2, staleFiles: 0 });
+
+    expect((await cli(dir, 'cache', 'verify')).code).toBe(0);
+    writeFileSync(path.join(dir, 'src', 'cart.ts'), 'export const total = 2;\n');
+    const verify = await cli(dir, 'cache', 'verify');
+    expect(verify.code).toBe(1);
+    expect(verify.out).toContain('  src/cart.ts');
+
+    expect((await cli(dir, 'cache', 'clear')).code).toBe(0);
+    expect(existsSync(path.join(dir, '.vitest-affected', 'graph.json'))).toBe(false);
+    expect((await cli(dir, 'list')).code).toBe(1);
+  });
+
+  test('stats summarises the stats file', async () => {
+    const dir = setupProject();
+    writeFileSync(path.join(dir, '.vitest-affected', 'stats.jsonl'), [
+      { action: 'selective', affectedTests: 1, totalTests: 10, durationMs: 10 },
+      { action: 'selective', affectedTests: 3, totalTests: 10, durationMs: 20 },
+      { action: 'full-suite', reason: 'config-change', durationMs: 30 },
+      { action: 'audit', selection: 'selective', durationMs: 20 },
+      { action: 'audit-result', selection: 'selective', failedTests: 2, falseNegatives: ['tests/b.test.ts'] },
+    ].map((line) => JSON.stringify(line)).join('\n') + '\n');
+
+    const { out } = await cli(dir, 'stats', '--json');
+    expect(JSON.parse(out.join('\n'))).toEqual({
+      runs: 4,
+      selective: 2,
+      fullSuite: 2,
+      selectedRatio: 0.2,
+      avgDurationMs: 20,
+      audits: 1,
+      falseNegatives: 1,
+      sampledTests: 0,
+      sampledFailures: 0,
+      reasons: { 'config-change': 1 },
+    });
+  });
+
+  test('usage errors exit with 2', async () => {
+    const dir = setupProject();
+    expect((await cli(dir)).code).toBe(2);
+    expect((await cli(dir, 'why')).code).toBe(2);
+    expect((await cli(dir, 'list', '--bogus')).code).toBe(2);
+    expect((await cli(dir, '--help')).code).toBe(0);
+  });
+});
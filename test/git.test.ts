@@ -4,7 +4,14 @@ import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { execFile as execFileCb } from 'node:child_process';
 import { promisify } from 'node:util';
-import { getChangedFiles } from '../src/git.js';
+import {
+  getChangedFiles,
+  getCommitDrift,
+  getHeadCommit,
+  parseNameStatus,
+  parseStatusV2,
+  resolveAutoRef,
+} from '../src/git.js';
 
 const execFile = promisify(execFileCb);
 const git = (args: string[], cwd: string) => execFile('git', args, { cwd });
@@ -171,4 +178,149 @@ describe('getChangedFiles', () => {
     // old.ts no longer exists → deleted
     expect(result.deleted).toContain(path.join(dir, 'old.ts'));
   });
+
+  // 11. Unusual file names come back verbatim, not C-quoted
+  test('returns paths with spaces, non-ASCII characters and newlines unquoted', async () => {
+    const dir = await makeTempRepo();
+    await git(['config', 'core.quotePath', 'true'], dir);
+    const names = ['with space.ts', 'ünïcödé.ts', ...(process.platform === 'win32' ? [] : ['new\nline.ts'])];
+    for (const name of names) writeFileSync(path.join(dir, name), 'export const x = 1;\n');
+    await git(['add', '.'], dir);
+    await git(['commit', '-m', 'initial'], dir);
+
+    for (const name of names) writeFileSync(path.join(dir, name), 'export const x = 2;\n');
+    const result = await getChangedFiles(dir, 'HEAD');
+    expect(result.changed.sort()).toEqual(names.map((name) => path.join(dir, name)).sort());
+  });
+
+  // 12. Structured entries carry the rename source and similarity
+  test('reports staged renames as entries with their source', async () => {
+    const dir = await makeTempRepo();
+    writeFileSync(path.join(dir, 'old.ts'), 'export const old = 1;\n');
+    await git(['add', 'old.ts'], dir);
+    await git(['commit', '-m', 'initial'], dir);
+    await git(['mv', 'old.ts', 'renamed.ts'], dir);
+
+    const { entries } = await getChangedFiles(dir);
+    expect(entries).toEqual([
+      { path: path.join(dir, 'renamed.ts'), kind: 'renamed', from: path.join(dir, 'old.ts'), similarity: 100 },
+    ]);
+  });
+});
+
+describe('git output parsing', () => {
+  test('parseNameStatus decodes every status, including rename and copy pairs', () => {
+    const out = ['M', 'a.ts', 'R086', 'old.ts', 'new.ts', 'C100', 'src.ts', 'copy.ts', 'T', 'link.ts', 'D', 'gone.ts', '']
+      .join('\0');
+    expect(parseNameStatus(out, '/repo')).toEqual([
+      { path: '/repo/a.ts', kind: 'modified' },
+      { path: '/repo/new.ts', kind: 'renamed', from: '/repo/old.ts', similarity: 86 },
+      { path: '/repo/copy.ts', kind: 'copied', from: '/repo/src.ts', similarity: 100 },
+      { path: '/repo/link.ts', kind: 'type-changed' },
+      { path: '/repo/gone.ts', kind: 'deleted' },
+    ]);
+  });
+
+  test('parseStatusV2 decodes ordinary, renamed, unmerged and untracked records', () => {
+    const sha = '0'.repeat(40);
+    const out = [
+      `1 .M N... 100644 100644 100644 ${sha} ${sha} dir/with space.ts`,
+      `1 A. N... 000000 100644 100644 ${sha} ${sha} added.ts`,
+      `2 R. N... 100644 100644 100644 ${sha} ${sha} R90 to.ts`, 'from.ts',
+      `u UU N... 100644 100644 100644 100644 ${sha} ${sha} ${sha} conflict.ts`,
+      '? new.ts',
+      '',
+    ].join('\0');
+    expect(parseStatusV2(out, '/repo')).toEqual([
+      { path: '/repo/dir/with space.ts', kind: 'modified' },
+      { path: '/repo/added.ts', kind: 'added' },
+      { path: '/repo/to.ts', kind: 'renamed', from: '/repo/from.ts', similarity: 90 },
+      { path: '/repo/conflict.ts', kind: 'modified' },
+      { path: '/repo/new.ts', kind: 'untracked' },
+    ]);
+  });
+});
+
+describe('commit drift', () => {
+  async function repoWithTwoCommits() {
+    const dir = await makeTempRepo();
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    writeFileSync(path.join(dir, 'b.ts'), 'export const b = 1;\n');
+    await git(['add', '.'], dir);
+    await git(['commit', '-m', 'initial'], dir);
+    const base = (await getHeadCommit(dir))!;
+
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 2;\n');
+    rmSync(path.join(dir, 'b.ts'));
+    await git(['add', '-A'], dir);
+    await git(['commit', '-m', 'drift'], dir);
+    return { dir, base };
+  }
+
+  test('getHeadCommit returns a full SHA', async () => {
+    const { dir } = await repoWithTwoCommits();
+    expect(await getHeadCommit(dir)).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  test('getHeadCommit returns null outside git', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'not-a-git-repo-'));
+    tempDirs.push(dir);
+    expect(await getHeadCommit(dir)).toBeNull();
+  });
+
+  test('getCommitDrift reports files changed between the commit and HEAD', async () => {
+    const { dir, base } = await repoWithTwoCommits();
+    const drift = await getCommitDrift(dir, base);
+    expect(drift.reachable).toBe(true);
+    expect(drift.changed).toEqual([path.join(dir, 'a.ts')]);
+    expect(drift.deleted).toEqual([path.join(dir, 'b.ts')]);
+  });
+
+  test('getCommitDrift flags an unknown commit as unreachable', async () => {
+    const { dir } = await repoWithTwoCommits();
+    const drift = await getCommitDrift(dir, 'f'.repeat(40));
+    expect(drift.reachable).toBe(false);
+  });
+
+  test('getChangedFiles merges drift into changed/deleted when sinceCommit is given', async () => {
+    const { dir, base } = await repoWithTwoCommits();
+    const result = await getChangedFiles(dir, undefined, { sinceCommit: base });
+    expect(result.changed).toContain(path.join(dir, 'a.ts'));
+    expect(result.deleted).toContain(path.join(dir, 'b.ts'));
+    expect(result.drift?.reachable).toBe(true);
+  });
+});
+
+describe('resolveAutoRef', () => {
+  /** main with one commit, and a checked-out feature branch one commit ahead. */
+  async function makeFeatureRepo(): Promise<string> {
+    const dir = await makeTempRepo();
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    await git(['add', '.'], dir);
+    await git(['commit', '-m', 'initial'], dir);
+    await git(['branch', '-M', 'main'], dir);
+    await git(['checkout', '-b', 'feature'], dir);
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 2;\n');
+    await git(['commit', '-am', 'feature'], dir);
+    return dir;
+  }
+
+  test('prefers the pull request base from CI variables', async () => {
+    const dir = await makeFeatureRepo();
+    expect(await resolveAutoRef(dir, { GITHUB_BASE_REF: 'main' })).toEqual({ ref: 'main', strategy: 'github' });
+    // A base this clone does not have is skipped
+    expect(await resolveAutoRef(dir, { BUILDKITE_PULL_REQUEST_BASE_BRANCH: 'release' })).toBeNull();
+  });
+
+  test('falls back to an upstream on another branch, then the remote default branch', async () => {
+    const dir = await makeFeatureRepo();
+    await git(['branch', '--set-upstream-to=main'], dir);
+    expect(await resolveAutoRef(dir, {})).toEqual({ ref: 'main', strategy: 'upstream' });
+
+    await git(['branch', '--unset-upstream'], dir);
+    await git(['update-ref', 'refs/remotes/origin/main', 'main'], dir);
+    expect(await resolveAutoRef(dir, {})).toEqual({ ref: 'origin/main', strategy: 'merge-base' });
+    const { changed } = await getChangedFiles(dir, 'origin/main');
+    expect(changed).toEqual([path.join(dir, 'a.ts')]);
+  });
 });
@@ -147,19 +147,19 @@ describe('integration: plugin orchestration', () => {
 
       const pluginEnv = { VITEST_AFFECTED_DISABLED: '0' };
 
-      // First run: no cache → full suite → runtime reporter writes v2 cache
+      // First run: no cache → full suite → runtime reporter writes v4 cache
       const report1 = await runVitest(tmp, pluginEnv);
       const testFiles1 = report1.testResults.map((r) => r.name);
       // Full suite: all tests run (simple fixture has 1 test)
       expect(testFiles1.some((f) => f.includes('a.test.ts'))).toBe(true);
 
-      // Verify cache file was created with v2 format
+      // Verify cache file was created with v4 format
       const cacheFile = path.join(tmp, '.vitest-affected', 'graph.json');
       expect(existsSync(cacheFile)).toBe(true);
       const cache = JSON.parse(readFileSync(cacheFile, 'utf-8')) as {
         version: number;
       };
-      expect(cache.version).toBe(2);
+      expect(cache.version).toBe(4);
 
       // Second run: cache hit → selective execution
       const report2 = await runVitest(tmp, pluginEnv);
@@ -346,11 +346,11 @@ export default defineConfig({
   );
 
   /**
-   * Test 6: Cache file created after first run with v2 format
-   * Run vitest → verify .vitest-affected/graph.json is created with version: 2
+   * Test 6: Cache file created after first run with v4 format
+   * Run vitest → verify .vitest-affected/graph.json is created with version: 4
    */
   test(
-    'cache persistence: graph.json exists after first run with v2 format',
+    'cache persistence: graph.json exists after first run with v4 format',
     async () => {
       const tmp = setupFixture('simple');
       await gitInit(tmp);
@@ -367,14 +367,14 @@ export default defineConfig({
       const report1 = await runVitest(tmp, pluginEnv);
       expect(report1.testResults.length).toBeGreaterThan(0);
 
-      // Verify cache file was created with v2 format
+      // Verify cache file was created with v4 format
       const cacheFile = path.join(tmp, '.vitest-affected', 'graph.json');
       expect(existsSync(cacheFile)).toBe(true);
       const cache = JSON.parse(readFileSync(cacheFile, 'utf-8')) as {
         version: number;
         reverseMap?: Record<string, string[]>;
       };
-      expect(cache.version).toBe(2);
+      expect(cache.version).toBe(4);
       expect(typeof cache.reverseMap).toBe('object');
     },
     30_000,
@@ -383,7 +383,7 @@ export default defineConfig({
   /**
    * Test 7: Corrupt cache graceful recovery
    * Write invalid JSON to graph.json → first run falls back to full suite (cache miss).
-   * Runtime reporter overwrites with valid v2 cache.
+   * Runtime reporter overwrites with valid v4 cache.
    */
   test(
     'cache recovery: corrupt graph.json triggers full suite, then cache is repopulated',
@@ -414,10 +414,10 @@ export default defineConfig({
       expect(testFiles.some((f) => f.includes('a.test.ts'))).toBe(true);
       expect(testFiles.some((f) => f.includes('b.test.ts'))).toBe(true);
 
-      // Verify cache was repopulated with v2 format
+      // Verify cache was repopulated with v4 format
       const cacheFile = path.join(tmp, '.vitest-affected', 'graph.json');
       const cache = JSON.parse(readFileSync(cacheFile, 'utf-8')) as { version: number };
-      expect(cache.version).toBe(2);
+      expect(cache.version).toBe(4);
     },
     30_000,
   );
@@ -464,4 +464,217 @@ export default defineConfig({
     },
     30_000,
   );
+  /**
+   * Test 9: Lockfile upgrade selects only tests that imported the package.
+   * The runtime reporter records pkg:<name> edges for node_modules imports;
+   * a package-lock.json version bump seeds BFS with the changed package.
+   */
+  test(
+    'lockfile change selects tests that imported the upgraded package',
+    async () => {
+      const tmp = setupFixture('diamond');
+      writeFileSync(
+        path.join(tmp, 'tests', 'a.test.ts'),
+        "import { a } from '../src/a';\nimport { glob } from 'tinyglobby';\nimport { test, expect } from 'vitest';\ntest('a works', () => { expect(a).toBeDefined(); expect(glob).toBeTypeOf('function'); });\n",
+      );
+      const lockWith = (version: string) => JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          'node_modules/tinyglobby': { version },
+          'node_modules/vitest': { version: '3.2.4' },
+        },
+      });
+      writeFileSync(path.join(tmp, 'package-lock.json'), lockWith('0.2.0'));
+      await gitInit(tmp);
+
+      const pluginEnv = { VITEST_AFFECTED_DISABLED: '0' };
+
+      // First run: populate cache, including the package-level edge
+      await runVitest(tmp, pluginEnv);
+      const cache = JSON.parse(
+        readFileSync(path.join(tmp, '.vitest-affected', 'graph.json'), 'utf-8'),
+      ) as { reverseMap: Record<string, string[]> };
+      expect(cache.reverseMap['pkg:tinyglobby']).toEqual(['tests/a.test.ts']);
+
+      // Bump tinyglobby in the lockfile only
+      writeFileSync(path.join(tmp, 'package-lock.json'), lockWith('0.2.1'));
+
+      const report = await runVitest(tmp, pluginEnv);
+      const testFiles = report.testResults.map((r) => r.name);
+      expect(testFiles).toHaveLength(1);
+      expect(testFiles[0]).toContain('a.test.ts');
+    },
+    30_000,
+  );
+
+  /**
+   * Test 10: With `bootstrap`, a cache miss builds a static graph (in worker
+   * threads, from the built bundle) and the first run is already selective.
+   */
+  test(
+    'bootstrap selects from a static graph on the first run',
+    async () => {
+      const tmp = setupFixture('diamond');
+      writeFileSync(
+        path.join(tmp, 'vitest.config.ts'),
+        `
+import { defineConfig } from 'vitest/config';
+import { vitestAffected } from '${distUrl}';
+export default defineConfig({
+  plugins: [vitestAffected({ verbose: true, bootstrap: true, bootstrapWorkers: 2 })],
+  test: { include: ['tests/**/*.test.ts'] },
+});
+`,
+      );
+      await gitInit(tmp);
+
+      // d.ts is only reachable from a.test.ts
+      writeFileSync(path.join(tmp, 'src', 'd.ts'), "import { c } from './c';\nexport const d = c + 3;\n");
+
+      const report = await runVitest(tmp, { VITEST_AFFECTED_DISABLED: '0' });
+      const testFiles = report.testResults.map((r) => r.name);
+      expect(testFiles).toHaveLength(1);
+      expect(testFiles[0]).toContain('a.test.ts');
+
+      // The static graph was saved, with b.test.ts's edges kept for next time
+      const cache = JSON.parse(
+        readFileSync(path.join(tmp, '.vitest-affected', 'graph.json'), 'utf-8'),
+      ) as { reverseMap: Record<string, string[]> };
+      expect(cache.reverseMap['src/c.ts']?.sort()).toEqual(['tests/a.test.ts', 'tests/b.test.ts']);
+    },
+    30_000,
+  );
+
+  /**
+   * Test 11: With `symbolLevel`, changing one export of a shared module only
+   * reruns the tests that import that export.
+   */
+  test(
+    'symbolLevel selects only tests importing the changed export',
+    async () => {
+      const tmp = setupFixture('diamond');
+      writeFileSync(
+        path.join(tmp, 'vitest.config.ts'),
+        `
+import { defineConfig } from 'vitest/config';
+import { vitestAffected } from '${distUrl}';
+export default defineConfig({
+  plugins: [vitestAffected({ verbose: true, symbolLevel: true, allowNoTests: true })],
+  test: { include: ['tests/**/*.test.ts'] },
+});
+`,
+      );
+      // b.test.ts now also imports c.ts directly, but only its `c` export
+      writeFileSync(path.join(tmp, 'src', 'c.ts'), 'export const c = 1;\nexport const unused = 2;\n');
+      writeFileSync(
+        path.join(tmp, 'tests', 'b.test.ts'),
+        "import { b } from '../src/b';\nimport { c } from '../src/c';\nimport { test, expect } from 'vitest';\ntest('b works', () => { expect(b).toBe(c + 1); });\n",
+      );
+      await gitInit(tmp);
+
+      const pluginEnv = { VITEST_AFFECTED_DISABLED: '0' };
+
+      // First run: full suite, records what each module imports
+      await runVitest(tmp, pluginEnv);
+
+      // `unused` is imported by nobody
+      writeFileSync(path.join(tmp, 'src', 'c.ts'), 'export const c = 1;\nexport const unused = 3;\n');
+      const report = await runVitest(tmp, pluginEnv);
+      expect(report.testResults).toHaveLength(0);
+
+      // `c` is imported by b.ts, d.ts and b.test.ts
+      writeFileSync(path.join(tmp, 'src', 'c.ts'), 'export const c = 5;\nexport const unused = 2;\n');
+      const report2 = await runVitest(tmp, pluginEnv);
+      expect(report2.testResults).toHaveLength(2);
+    },
+    30_000,
+  );
+
+  /**
+   * Test 12: Dry run prints the selection and runs nothing, exiting 0.
+   */
+  test(
+    'dry run reports the selection without running tests',
+    async () => {
+      const tmp = setupFixture('diamond');
+      await gitInit(tmp);
+      const pluginEnv = { VITEST_AFFECTED_DISABLED: '0' };
+
+      // Populate the cache
+      await runVitest(tmp, pluginEnv);
+
+      writeFileSync(path.join(tmp, 'src', 'd.ts'), 'export const d = 99;\n');
+      const result = await execa('npx', ['vitest', 'run'], {
+        cwd: tmp,
+        env: { ...process.env, ...pluginEnv, VITEST_AFFECTED_DRY_RUN: '1' },
+        reject: false,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Dry run — 1 of 2 test file(s) would run');
+      expect(result.stdout).toContain('tests/a.test.ts  ← src/d.ts');
+      expect(result.stdout).not.toMatch(/Tests\s+\d+ passed/);
+    },
+    30_000,
+  );
+});
+
+describe('integration: multi-project workspace', () => {
+  /**
+   * Two projects (packages/a, packages/b) inherit the plugin from the root config.
+   * First run populates one graph per project; changing packages/a/src/a.ts then
+   * runs only packages/a's test.
+   */
+  test(
+    'change in one project runs only that project\'s affected tests',
+    async () => {
+      const tmp = mkdtempSync(path.join(tmpdir(), 'vitest-affected-workspace-'));
+      tempDirs.push(tmp);
+      symlinkSync(path.join(projectRoot, 'node_modules'), path.join(tmp, 'node_modules'));
+      writeFileSync(path.join(tmp, 'package.json'), '{"name":"ws","type":"module"}\n');
+      writeFileSync(path.join(tmp, 'tsconfig.json'), '{"compilerOptions":{"strict":true}}\n');
+      for (const pkg of ['a', 'b']) {
+        mkdirSync(path.join(tmp, 'packages', pkg, 'src'), { recursive: true });
+        mkdirSync(path.join(tmp, 'packages', pkg, 'tests'), { recursive: true });
+        writeFileSync(path.join(tmp, 'packages', pkg, 'src', `${pkg}.ts`), `export const ${pkg} = 1;\n`);
+        writeFileSync(
+          path.join(tmp, 'packages', pkg, 'tests', `${pkg}.test.ts`),
+          `import { test, expect } from 'vitest';\nimport { ${pkg} } from '../src/${pkg}';\ntest('${pkg}', () => expect(${pkg}).toBe(1));\n`,
+        );
+      }
+      writeFileSync(
+        path.join(tmp, 'vitest.config.ts'),
+        `
+import { defineConfig } from 'vitest/config';
+import { vitestAffected } from '${distUrl}';
+export default defineConfig({
+  plugins: [vitestAffected({ verbose: true })],
+  test: {
+    projects: [
+      { extends: true, test: { name: 'a', root: './packages/a', include: ['tests/**/*.test.ts'] } },
+      { extends: true, test: { name: 'b', root: './packages/b', include: ['tests/**/*.test.ts'] } },
+    ],
+  },
+});
+`,
+      );
+      await gitInit(tmp);
+
+      const pluginEnv = { VITEST_AFFECTED_DISABLED: '0' };
+
+      // First run: no caches → both projects run in full and record their graphs
+      const report1 = await runVitest(tmp, pluginEnv);
+      expect(report1.testResults).toHaveLength(2);
+      expect(existsSync(path.join(tmp, '.vitest-affected', 'projects', 'a', 'graph.json'))).toBe(true);
+      expect(existsSync(path.join(tmp, '.vitest-affected', 'projects', 'b', 'graph.json'))).toBe(true);
+
+      writeFileSync(path.join(tmp, 'packages', 'a', 'src', 'a.ts'), 'export const a = 1; // touched\n');
+
+      const report2 = await runVitest(tmp, pluginEnv);
+      const testFiles = report2.testResults.map((r) => r.name);
+      expect(testFiles).toHaveLength(1);
+      expect(testFiles[0]).toContain('a.test.ts');
+    },
+    60_000,
+  );
 });
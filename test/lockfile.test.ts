@@ -0,0 +1,272 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import {
+  diffLockfilePackages,
+  getChangedLockfilePackages,
+  parseLockfile,
+  withDependents,
+} from '../src/lockfile.js';
+import { createGitChangeSource } from '../src/vcs/git.js';
+
+const tempDirs: string[] = [];
+const gitSource = createGitChangeSource();
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+const asObject = (map: Map<string, Set<string>> | undefined) =>
+  map && Object.fromEntries([...map].map(([k, v]) => [k, [...v].sort()]));
+const versionsOf = (basename: string, content: string) => asObject(parseLockfile(basename, content)?.versions);
+const dependentsOf = (basename: string, content: string) => asObject(parseLockfile(basename, content)?.dependents);
+
+describe('parseLockfile', () => {
+  test('npm v3 packages map, including nested and scoped installs', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app' },
+        'node_modules/lodash': { version: '4.17.21', integrity: 'sha512-a' },
+        'node_modules/@scope/ui': { version: '1.0.0' },
+        'node_modules/@scope/ui/node_modules/lodash': { version: '3.10.1', integrity: 'sha512-b' },
+        'node_modules/my-lib': { resolved: 'packages/my-lib', link: true },
+        'packages/my-lib': { version: '0.0.0' },
+      },
+    });
+    expect(versionsOf('package-lock.json', lock)).toEqual({
+      lodash: ['3.10.1 sha512-b', '4.17.21 sha512-a'],
+      '@scope/ui': ['1.0.0'],
+      'my-lib': ['link:packages/my-lib'],
+    });
+  });
+
+  test('npm v1 nested dependencies', () => {
+    const lock = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        a: { version: '1.0.0', dependencies: { b: { version: '2.0.0' } } },
+      },
+    });
+    expect(versionsOf('package-lock.json', lock)).toEqual({ a: ['1.0.0'], b: ['2.0.0'] });
+  });
+
+  test('pnpm v5, v6 and v9 package keys', () => {
+    const v5 = [
+      'lockfileVersion: 5.4',
+      'packages:',
+      '  /lodash/4.17.21:',
+      '    resolution: {integrity: sha512-a}',
+      '  /@babel/core/7.22.0_supports-color@5.5.0:',
+      '    dev: true',
+    ].join('\n');
+    expect(versionsOf('pnpm-lock.yaml', v5)).toEqual({
+      lodash: ['4.17.21'],
+      '@babel/core': ['7.22.0_supports-color@5.5.0'],
+    });
+
+    const v6 = [
+      "lockfileVersion: '6.0'",
+      'packages:',
+      '  /lodash@4.17.21:',
+      '    resolution: {integrity: sha512-a}',
+      '  /@babel/core@7.22.0(supports-color@5.5.0):',
+      '    dev: true',
+    ].join('\n');
+    expect(versionsOf('pnpm-lock.yaml', v6)).toEqual({
+      lodash: ['4.17.21'],
+      '@babel/core': ['7.22.0(supports-color@5.5.0)'],
+    });
+
+    const v9 = [
+      "lockfileVersion: '9.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      lodash:',
+      '        specifier: ^4.17.0',
+      'packages:',
+      '  lodash@4.17.21:',
+      '    resolution: {integrity: sha512-a}',
+      "  '@types/node@20.0.0':",
+      '    resolution: {integrity: sha512-b}',
+      'snapshots:',
+      '  lodash@4.17.21: {}',
+      "  '@types/node@20.0.0': {}",
+    ].join('\n');
+    expect(versionsOf('pnpm-lock.yaml', v9)).toEqual({
+      lodash: ['4.17.21'],
+      '@types/node': ['20.0.0'],
+    });
+  });
+
+  test('yarn classic and berry', () => {
+    const classic = [
+      '# yarn lockfile v1',
+      '',
+      '"@scope/ui@^1.0.0":',
+      '  version "1.2.0"',
+      '  resolved "https://registry/x"',
+      '',
+      'lodash@^4.17.0, lodash@^4.17.21:',
+      '  version "4.17.21"',
+    ].join('\n');
+    expect(versionsOf('yarn.lock', classic)).toEqual({
+      '@scope/ui': ['1.2.0'],
+      lodash: ['4.17.21'],
+    });
+
+    const berry = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"lodash@npm:^4.17.0, lodash@npm:^4.17.21":',
+      '  version: 4.17.21',
+      '  resolution: "lodash@npm:4.17.21"',
+    ].join('\n');
+    expect(versionsOf('yarn.lock', berry)).toEqual({ lodash: ['4.17.21'] });
+  });
+
+  test('unknown or unparseable lockfiles return null', () => {
+    expect(parseLockfile('bun.lockb', 'binary')).toBeNull();
+    expect(parseLockfile('package-lock.json', '{not json')).toBeNull();
+    expect(parseLockfile('pnpm-lock.yaml', 'lockfileVersion: 9')).toBeNull();
+  });
+});
+
+describe('diffLockfilePackages', () => {
+  test('reports upgraded, added and removed packages', () => {
+    const before = {
+      versions: new Map([
+        ['a', new Set(['1.0.0'])],
+        ['b', new Set(['1.0.0'])],
+        ['c', new Set(['1.0.0', '2.0.0'])],
+        ['same', new Set(['1.0.0'])],
+      ]),
+      dependents: new Map(),
+    };
+    const after = {
+      versions: new Map([
+        ['a', new Set(['1.1.0'])],
+        ['c', new Set(['2.0.0'])],
+        ['d', new Set(['1.0.0'])],
+        ['same', new Set(['1.0.0'])],
+      ]),
+      dependents: new Map(),
+    };
+    expect(diffLockfilePackages(before, after)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('dependents', () => {
+  test('npm records dependents from dependencies and requires', () => {
+    const v3 = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        'node_modules/a': { version: '1.0.0', dependencies: { b: '^1.0.0' } },
+        'node_modules/b': { version: '1.0.0', optionalDependencies: { c: '^1.0.0' } },
+        'node_modules/c': { version: '1.0.0' },
+      },
+    });
+    expect(dependentsOf('package-lock.json', v3)).toEqual({ b: ['a'], c: ['b'] });
+
+    const v1 = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: { a: { version: '1.0.0', requires: { b: '^1.0.0' } }, b: { version: '1.0.0' } },
+    });
+    expect(dependentsOf('package-lock.json', v1)).toEqual({ b: ['a'] });
+  });
+
+  test('pnpm and yarn dependency blocks', () => {
+    const pnpm = [
+      "lockfileVersion: '9.0'",
+      'packages:',
+      '  a@1.0.0:',
+      '    resolution: {integrity: sha512-a}',
+      'snapshots:',
+      '  a@1.0.0:',
+      '    dependencies:',
+      "      '@scope/b': 1.0.0",
+      '    optionalDependencies:',
+      '      c: 1.0.0',
+      '  c@1.0.0: {}',
+    ].join('\n');
+    expect(dependentsOf('pnpm-lock.yaml', pnpm)).toEqual({ '@scope/b': ['a'], c: ['a'] });
+
+    const classic = [
+      'a@^1.0.0:',
+      '  version "1.0.0"',
+      '  dependencies:',
+      '    "@scope/b" "^1.0.0"',
+      '',
+      '"@scope/b@^1.0.0":',
+      '  version "1.0.0"',
+    ].join('\n');
+    expect(dependentsOf('yarn.lock', classic)).toEqual({ '@scope/b': ['a'] });
+
+    const berry = [
+      '"a@npm:^1.0.0":',
+      '  version: 1.0.0',
+      '  dependencies:',
+      '    b: "npm:^1.0.0"',
+      '  checksum: abc',
+    ].join('\n');
+    expect(dependentsOf('yarn.lock', berry)).toEqual({ b: ['a'] });
+  });
+
+  test('withDependents follows dependents transitively across lockfiles', () => {
+    const lock = {
+      versions: new Map(),
+      dependents: new Map([
+        ['c', new Set(['b'])],
+        ['b', new Set(['a'])],
+      ]),
+    };
+    const other = { versions: new Map(), dependents: new Map([['a', new Set(['z'])]]) };
+    expect(withDependents(['c'], lock, other)).toEqual(['a', 'b', 'c', 'z']);
+  });
+});
+
+describe('getChangedLockfilePackages', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  function setupRepo(lock: object) {
+    const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-lockfile-'));
+    tempDirs.push(dir);
+    git(['init'], dir);
+    git(['config', 'user.email', 'test@test.com'], dir);
+    git(['config', 'user.name', 'Test'], dir);
+    const lockfile = path.join(dir, 'package-lock.json');
+    writeFileSync(lockfile, JSON.stringify(lock));
+    git(['add', '.'], dir);
+    git(['commit', '-m', 'initial'], dir);
+    return { dir, lockfile };
+  }
+
+  const lockWith = (lodash: string) => ({
+    lockfileVersion: 3,
+    packages: {
+      'node_modules/lodash': { version: lodash },
+      'node_modules/lodash-wrapper': { version: '1.0.0', dependencies: { lodash: '^4.0.0' } },
+      'node_modules/zod': { version: '3.22.0' },
+    },
+  });
+
+  test('diffs the working tree against the base revision, including dependents', async () => {
+    const { dir, lockfile } = setupRepo(lockWith('4.17.20'));
+    writeFileSync(lockfile, JSON.stringify(lockWith('4.17.21')));
+    expect(await getChangedLockfilePackages(dir, lockfile, ['HEAD'], gitSource)).toEqual(['lodash', 'lodash-wrapper']);
+  });
+
+  test('returns null when the lockfile is new relative to the base', async () => {
+    const { dir } = setupRepo(lockWith('4.17.20'));
+    const other = path.join(dir, 'npm-shrinkwrap.json');
+    writeFileSync(other, JSON.stringify(lockWith('4.17.21')));
+    expect(await getChangedLockfilePackages(dir, other, ['HEAD'], gitSource)).toBeNull();
+  });
+});
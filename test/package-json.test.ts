@@ -0,0 +1,97 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { diffPackageJson, getPackageJsonChange } from '../src/package-json.js';
+import { createGitChangeSource } from '../src/vcs/git.js';
+
+const tempDirs: string[] = [];
+const gitSource = createGitChangeSource();
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+const base = {
+  name: 'app',
+  version: '1.0.0',
+  type: 'module',
+  scripts: { test: 'vitest' },
+  dependencies: { lodash: '^4.17.20', zod: '^3.22.0' },
+  devDependencies: { eslint: '^8.0.0' },
+};
+const diff = (changes: Record<string, unknown>) =>
+  diffPackageJson(JSON.stringify(base), JSON.stringify({ ...base, ...changes }));
+
+describe('diffPackageJson', () => {
+  test('identical documents (even reformatted) have no changes', () => {
+    expect(diffPackageJson(JSON.stringify(base), JSON.stringify(base, null, 2)))
+      .toEqual({ packages: [], fullSuiteFields: [] });
+  });
+
+  test('non-runtime fields are ignored', () => {
+    expect(diff({
+      scripts: { test: 'vitest run', lint: 'eslint .' },
+      description: 'now with words',
+      version: '1.1.0',
+      keywords: ['x'],
+    })).toEqual({ packages: [], fullSuiteFields: [] });
+  });
+
+  test('dependency changes map to package names', () => {
+    expect(diff({
+      dependencies: { lodash: '^4.17.21', zod: '^3.22.0', 'new-dep': '^1.0.0' },
+      devDependencies: {},
+      peerDependencies: { react: '^18.0.0' },
+    })).toEqual({ packages: ['eslint', 'lodash', 'new-dep', 'react'], fullSuiteFields: [] });
+  });
+
+  test('moving a package between dependency fields counts as a change', () => {
+    expect(diff({
+      dependencies: { lodash: '^4.17.20' },
+      devDependencies: { eslint: '^8.0.0', zod: '^3.22.0' },
+    })).toEqual({ packages: ['zod'], fullSuiteFields: [] });
+  });
+
+  test('exports, imports, type and unknown fields force the full suite', () => {
+    expect(diff({
+      type: 'commonjs',
+      exports: { '.': './dist/index.js' },
+      imports: { '#internal': './src/internal.ts' },
+      overrides: { lodash: '4.17.21' },
+    })?.fullSuiteFields).toEqual(['exports', 'imports', 'overrides', 'type']);
+  });
+
+  test('invalid JSON or non-object documents return null', () => {
+    expect(diffPackageJson('{', '{}')).toBeNull();
+    expect(diffPackageJson('[]', '{}')).toBeNull();
+  });
+});
+
+describe('getPackageJsonChange', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  test('diffs the working tree against each base revision', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-package-json-'));
+    tempDirs.push(dir);
+    git(['init'], dir);
+    git(['config', 'user.email', 'test@test.com'], dir);
+    git(['config', 'user.name', 'Test'], dir);
+    const manifest = path.join(dir, 'package.json');
+    writeFileSync(manifest, JSON.stringify(base));
+    git(['add', '.'], dir);
+    git(['commit', '-m', 'initial'], dir);
+
+    writeFileSync(manifest, JSON.stringify({ ...base, dependencies: { ...base.dependencies, zod: '^3.23.0' } }));
+    expect(await getPackageJsonChange(dir, manifest, ['HEAD'], gitSource))
+      .toEqual({ packages: ['zod'], fullSuiteFields: [] });
+
+    const nested = path.join(dir, 'packages-new.json');
+    writeFileSync(nested, '{}');
+    expect(await getPackageJsonChange(dir, nested, ['HEAD'], gitSource)).toBeNull();
+  });
+});
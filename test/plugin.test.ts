@@ -1,10 +1,15 @@
 /// <reference types="vitest/config" />
-import { describe, test, expect, afterEach, beforeEach } from 'vitest';
+import { describe, test, expect, afterEach, beforeEach, vi } from 'vitest';
+import type { Reporter } from 'vitest/reporters';
+import type { TestModule } from 'vitest/node';
 import path from 'node:path';
-import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { existsSync, mkdirSync, mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
 import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
 import { vitestAffected } from '../src/plugin.js';
 import { saveCacheSync } from '../src/graph/cache.js';
+import type { CacheStore } from '../src/graph/store.js';
+import type { ChangeSource } from '../src/vcs/index.js';
 
 const tempDirs: string[] = [];
 
@@ -35,7 +40,7 @@ afterEach(() => {
  * The orphan file is NOT in any test's dependency chain — changing it
  * produces zero affected tests.
  *
- * Also writes a v2 cache that maps main.ts → main.test.ts (but NOT orphan.ts).
+ * Also writes a cache that maps main.ts → main.test.ts (but NOT orphan.ts).
  */
 function setupOrphanFixture(): { tmpDir: string; orphanPath: string } {
   const tmpDir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-plugin-'));
@@ -52,14 +57,14 @@ function setupOrphanFixture(): { tmpDir: string; orphanPath: string } {
     'import { main } from "../src/main";\nimport { test, expect } from "vitest";\ntest("main", () => expect(main).toBe(1));\n',
   );
 
-  // Write a v2 cache: main.ts → main.test.ts (orphan.ts not in cache)
+  // Write a cache: main.ts → main.test.ts (orphan.ts not in cache)
   const cacheDir = path.join(tmpDir, '.vitest-affected');
   const reverse = new Map<string, Set<string>>();
   reverse.set(
     path.join(tmpDir, 'src', 'main.ts'),
     new Set([path.join(tmpDir, 'tests', 'main.test.ts')]),
   );
-  saveCacheSync(cacheDir, reverse);
+  saveCacheSync(cacheDir, tmpDir, reverse);
 
   return { tmpDir, orphanPath: path.join(tmpDir, 'src', 'orphan.ts') };
 }
@@ -127,3 +132,822 @@ describe('allowNoTests option', () => {
     expect(projectConfig.include).toEqual(originalInclude);
   });
 });
+
+/**
+ * Two-package workspace: packages/a and packages/b each own one source file
+ * and one test. Per-project caches live under .vitest-affected/projects/<name>/.
+ */
+function setupWorkspaceFixture(): { tmpDir: string; aSrc: string; aTest: string; bSrc: string; bTest: string } {
+  const tmpDir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-workspace-'));
+  tempDirs.push(tmpDir);
+  writeFileSync(path.join(tmpDir, 'tsconfig.json'), '{"compilerOptions":{"strict":true}}');
+
+  const files: Record<string, string> = {};
+  for (const pkg of ['a', 'b']) {
+    const pkgDir = path.join(tmpDir, 'packages', pkg);
+    mkdirSync(path.join(pkgDir, 'src'), { recursive: true });
+    mkdirSync(path.join(pkgDir, 'tests'), { recursive: true });
+    files[`${pkg}Src`] = path.join(pkgDir, 'src', `${pkg}.ts`);
+    files[`${pkg}Test`] = path.join(pkgDir, 'tests', `${pkg}.test.ts`);
+    writeFileSync(files[`${pkg}Src`]!, `export const ${pkg} = 1;\n`);
+    writeFileSync(files[`${pkg}Test`]!, `import { ${pkg} } from "../src/${pkg}";\n`);
+    saveCacheSync(
+      path.join(tmpDir, '.vitest-affected', 'projects', pkg),
+      tmpDir,
+      new Map([[files[`${pkg}Src`]!, new Set([files[`${pkg}Test`]!])]]),
+    );
+  }
+  return {
+    tmpDir,
+    aSrc: files.aSrc!, aTest: files.aTest!,
+    bSrc: files.bSrc!, bTest: files.bTest!,
+  };
+}
+
+function createWorkspaceContext(rootDir: string) {
+  const makeProject = (name: string) => ({
+    name,
+    config: {
+      root: path.join(rootDir, 'packages', name),
+      include: ['tests/**/*.test.ts'],
+      exclude: [] as string[],
+      setupFiles: [] as string[],
+    },
+  });
+  const a = makeProject('a');
+  const b = makeProject('b');
+  const vitest = {
+    config: { root: rootDir, watch: false },
+    projects: [a, b],
+    reporters: [] as unknown[],
+    onFilterWatchedSpecification: () => {},
+  };
+  return { vitest, a, b };
+}
+
+async function runWorkspaceHooks(
+  plugin: ReturnType<typeof vitestAffected>,
+  ctx: ReturnType<typeof createWorkspaceContext>,
+): Promise<void> {
+  const hook = (plugin as Record<string, unknown>).configureVitest as (
+    c: { vitest: typeof ctx.vitest; project: typeof ctx.a },
+  ) => Promise<void>;
+  // Vitest invokes every project's hook concurrently
+  await Promise.all([ctx.a, ctx.b].map((project) => hook({ vitest: ctx.vitest, project })));
+}
+
+describe('multi-project workspace', () => {
+  test('change in one package selects only that package and skips the other', async () => {
+    const { tmpDir, aSrc, aTest } = setupWorkspaceFixture();
+    const ctx = createWorkspaceContext(tmpDir);
+
+    await runWorkspaceHooks(vitestAffected({ changedFiles: [aSrc] }), ctx);
+
+    expect(ctx.a.config.include).toEqual([aTest]);
+    expect(ctx.b.config.include).toEqual([]);
+  });
+
+  test('change reaching no project falls back to full suite everywhere', async () => {
+    const { tmpDir } = setupWorkspaceFixture();
+    const orphan = path.join(tmpDir, 'packages', 'a', 'src', 'orphan.ts');
+    writeFileSync(orphan, 'export const orphan = 1;\n');
+    const ctx = createWorkspaceContext(tmpDir);
+
+    await runWorkspaceHooks(vitestAffected({ changedFiles: [orphan] }), ctx);
+
+    expect(ctx.a.config.include).toEqual(['tests/**/*.test.ts']);
+    expect(ctx.b.config.include).toEqual(['tests/**/*.test.ts']);
+  });
+
+  test('projects whose hook never runs are not waited for', async () => {
+    const { tmpDir, aSrc, aTest } = setupWorkspaceFixture();
+    const ctx = createWorkspaceContext(tmpDir);
+    // Inline project without a Vite config of its own: no plugin, no hook call
+    ctx.vitest.projects.push({
+      name: 'inline',
+      config: { root: tmpDir, include: ['inline/**/*.test.ts'], exclude: [], setupFiles: [] },
+    });
+
+    await runWorkspaceHooks(vitestAffected({ changedFiles: [aSrc] }), ctx);
+
+    expect(ctx.a.config.include).toEqual([aTest]);
+    expect(ctx.b.config.include).toEqual([]);
+  });
+
+  test('injects one reporter per project', async () => {
+    const { tmpDir, aSrc } = setupWorkspaceFixture();
+    const ctx = createWorkspaceContext(tmpDir);
+
+    await runWorkspaceHooks(vitestAffected({ changedFiles: [aSrc] }), ctx);
+
+    expect(ctx.vitest.reporters).toHaveLength(2);
+  });
+
+  test('outputFile summarises every project', async () => {
+    const { tmpDir, aSrc } = setupWorkspaceFixture();
+    const ctx = createWorkspaceContext(tmpDir);
+
+    await runWorkspaceHooks(vitestAffected({ changedFiles: [aSrc], outputFile: 'affected.json' }), ctx);
+
+    const output = JSON.parse(readFileSync(path.join(tmpDir, 'affected.json'), 'utf-8'));
+    expect(output).toMatchObject({
+      action: 'selective',
+      affectedTests: ['packages/a/tests/a.test.ts'],
+      projects: {
+        a: { action: 'selective', affectedTests: ['packages/a/tests/a.test.ts'] },
+        b: { action: 'selective', reason: 'no-affected-tests-in-project', affectedTests: [] },
+      },
+    });
+  });
+});
+
+describe('outputFile option', () => {
+  test('writes the decision, files and timings as JSON', async () => {
+    const { tmpDir, orphanPath } = setupOrphanFixture();
+
+    const plugin = vitestAffected({
+      changedFiles: [path.join(tmpDir, 'src', 'main.ts'), orphanPath, path.join(tmpDir, 'notes.md')],
+      outputFile: '.vitest-affected/affected.json',
+    });
+    const { vitest, project } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+
+    const output = JSON.parse(readFileSync(path.join(tmpDir, '.vitest-affected', 'affected.json'), 'utf-8'));
+    expect(output).toEqual({
+      action: 'selective',
+      affectedTests: ['tests/main.test.ts'],
+      totalTests: 1,
+      changed: ['src/main.ts', 'src/orphan.ts'],
+      deleted: [],
+      ignored: ['notes.md'],
+      startedAt: expect.any(String),
+      durationMs: expect.any(Number),
+    });
+  });
+});
+
+describe('explainFile option', () => {
+  test('records the chain to each selected test and the changed files that reached none', async () => {
+    const { tmpDir, orphanPath } = setupOrphanFixture();
+    const mainTs = path.join(tmpDir, 'src', 'main.ts');
+
+    const plugin = vitestAffected({
+      changedFiles: [mainTs, orphanPath],
+      explainFile: '.vitest-affected/explain.jsonl',
+    });
+    const { vitest, project } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+
+    const lines = readFileSync(path.join(tmpDir, '.vitest-affected', 'explain.jsonl'), 'utf-8')
+      .trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]!)).toMatchObject({
+      tests: { 'tests/main.test.ts': ['src/main.ts', 'tests/main.test.ts'] },
+      unreached: ['src/orphan.ts'],
+    });
+  });
+});
+
+describe('dryRun option', () => {
+  test('prints the selection, logs a dry-run stats line and runs nothing', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const plugin = vitestAffected({
+      dryRun: 'json',
+      changedFiles: [path.join(tmpDir, 'src', 'main.ts')],
+      statsFile: '.vitest-affected/stats.jsonl',
+    });
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+    const printed = log.mock.calls.map((call) => String(call[0]));
+    log.mockRestore();
+
+    expect(projectConfig.include).toEqual([]);
+    expect((vitest.config as { passWithNoTests?: boolean }).passWithNoTests).toBe(true);
+    expect(JSON.parse(printed[0]!)).toMatchObject({
+      action: 'selective',
+      affectedTests: ['tests/main.test.ts'],
+      changed: ['src/main.ts'],
+    });
+    const stats = JSON.parse(readFileSync(path.join(tmpDir, '.vitest-affected', 'stats.jsonl'), 'utf-8'));
+    expect(stats).toMatchObject({ action: 'dry-run', selection: 'selective', affectedTests: 1 });
+  });
+
+  test('VITEST_AFFECTED_DRY_RUN=1 prints a table for a full-suite decision', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    process.env.VITEST_AFFECTED_DRY_RUN = '1';
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    let printed: string[] = [];
+    try {
+      const plugin = vitestAffected({ changedFiles: [path.join(tmpDir, 'package.json')] });
+      const { vitest, project, projectConfig } = createMockContext(tmpDir);
+      const hook = (plugin as Record<string, unknown>).configureVitest as (
+        ctx: { vitest: typeof vitest; project: typeof project },
+      ) => Promise<void>;
+      await hook({ vitest, project });
+      printed = log.mock.calls.map((call) => String(call[0]));
+      expect(projectConfig.include).toEqual([]);
+    } finally {
+      delete process.env.VITEST_AFFECTED_DRY_RUN;
+      log.mockRestore();
+    }
+    expect(printed[0]).toContain('Dry run — the full suite would run (config-change)');
+  });
+});
+
+describe('safety option', () => {
+  test('fullRunEvery turns every Nth run into a full run', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const plugin = vitestAffected({
+      changedFiles: [path.join(tmpDir, 'src', 'main.ts')],
+      statsFile: '.vitest-affected/stats.jsonl',
+      safety: { fullRunEvery: 2 },
+    });
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: ReturnType<typeof createMockContext>,
+    ) => Promise<void>;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const includes: string[][] = [];
+    for (let run = 0; run < 3; run++) {
+      const context = createMockContext(tmpDir);
+      await hook(context);
+      includes.push(context.projectConfig.include);
+    }
+    warn.mockRestore();
+
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts').replaceAll('\\', '/');
+    expect(includes).toEqual([[mainTest], ['tests/**/*.test.ts'], [mainTest]]);
+    const stats = readFileSync(path.join(tmpDir, '.vitest-affected', 'stats.jsonl'), 'utf-8')
+      .trim().split('\n').map((line) => JSON.parse(line));
+    expect(stats[1]).toMatchObject({ action: 'full-suite', reason: 'safety-periodic', affectedTests: 1 });
+  });
+
+  test('sampleRate adds skipped tests and logs which of them failed', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const otherTest = path.join(tmpDir, 'tests', 'other.test.ts').replaceAll('\\', '/');
+    writeFileSync(otherTest, 'import { test } from "vitest";\ntest("other", () => {});\n');
+
+    const plugin = vitestAffected({
+      changedFiles: [path.join(tmpDir, 'src', 'main.ts')],
+      statsFile: '.vitest-affected/stats.jsonl',
+      safety: { sampleRate: 1 },
+    });
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+
+    expect(projectConfig.include).toContain(otherTest);
+    const failed = { moduleId: otherTest, project: { name: '' }, state: () => 'failed' };
+    const reporter = vitest.reporters[0] as Reporter;
+    await reporter.onTestRunEnd!([failed as unknown as TestModule], [], 'failed');
+
+    const stats = readFileSync(path.join(tmpDir, '.vitest-affected', 'stats.jsonl'), 'utf-8')
+      .trim().split('\n').map((line) => JSON.parse(line));
+    expect(stats).toMatchObject([
+      { action: 'selective', affectedTests: 1, sampledTests: 1 },
+      { action: 'sample-result', sampledTests: 1, sampledFailures: ['tests/other.test.ts'] },
+    ]);
+  });
+});
+
+describe('audit option', () => {
+  test('runs the full suite and records failing tests the selection skipped', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts').replaceAll('\\', '/');
+    const otherTest = path.join(tmpDir, 'tests', 'other.test.ts').replaceAll('\\', '/');
+    writeFileSync(otherTest, 'import { test } from "vitest";\ntest("other", () => {});\n');
+
+    const plugin = vitestAffected({
+      audit: true,
+      changedFiles: [path.join(tmpDir, 'src', 'main.ts')],
+      statsFile: '.vitest-affected/stats.jsonl',
+    });
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+    expect(projectConfig.include).toEqual(['tests/**/*.test.ts']);
+
+    const failed = [mainTest, otherTest].map((moduleId) =>
+      ({ moduleId, project: { name: '' }, state: () => 'failed' }) as unknown as TestModule);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await (vitest.reporters[0] as Reporter).onTestRunEnd!(failed, [], 'failed');
+    warn.mockRestore();
+
+    const stats = readFileSync(path.join(tmpDir, '.vitest-affected', 'stats.jsonl'), 'utf-8')
+      .trim().split('\n').map((line) => JSON.parse(line));
+    expect(stats).toMatchObject([
+      { action: 'audit', selection: 'selective', affectedTests: 1 },
+      { action: 'audit-result', selection: 'selective', failedTests: 2, falseNegatives: ['tests/other.test.ts'] },
+    ]);
+    const report = JSON.parse(readFileSync(path.join(tmpDir, '.vitest-affected', 'audit.jsonl'), 'utf-8'));
+    expect(report).toMatchObject({
+      selection: 'selective',
+      affectedTests: ['tests/main.test.ts'],
+      failedTests: ['tests/main.test.ts', 'tests/other.test.ts'],
+      falseNegatives: ['tests/other.test.ts'],
+      changed: ['src/main.ts'],
+    });
+  });
+});
+
+describe('includeLastFailed option', () => {
+  test('keeps selecting a failed test until it passes', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts').replaceAll('\\', '/');
+    const otherTest = path.join(tmpDir, 'tests', 'other.test.ts').replaceAll('\\', '/');
+    writeFileSync(otherTest, 'import { test } from "vitest";\ntest("other", () => {});\n');
+    const lastFailedFile = path.join(tmpDir, '.vitest-affected', 'last-failed.json');
+
+    const plugin = vitestAffected({
+      includeLastFailed: true,
+      changedFiles: [path.join(tmpDir, 'src', 'main.ts')],
+    });
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: ReturnType<typeof createMockContext>,
+    ) => Promise<void>;
+    const run = async (results: Record<string, 'passed' | 'failed'>) => {
+      const context = createMockContext(tmpDir);
+      await hook(context);
+      const modules = Object.entries(results).map(([moduleId, state]) =>
+        ({ moduleId, project: { name: '' }, state: () => state }) as unknown as TestModule);
+      await (context.vitest.reporters[0] as Reporter).onTestRunEnd!(modules, [], 'passed');
+      return context.projectConfig.include;
+    };
+
+    expect(await run({ [mainTest]: 'passed', [otherTest]: 'failed' })).toEqual([mainTest]);
+    expect(JSON.parse(readFileSync(lastFailedFile, 'utf-8'))).toEqual({ tests: ['tests/other.test.ts'] });
+
+    expect(await run({ [mainTest]: 'passed', [otherTest]: 'passed' })).toEqual([mainTest, otherTest]);
+    expect(existsSync(lastFailedFile)).toBe(false);
+
+    expect(await run({ [mainTest]: 'passed' })).toEqual([mainTest]);
+  });
+});
+
+describe('since option', () => {
+  test("'last-run' selects only for changes made since the last completed run", async () => {
+    const { tmpDir, orphanPath } = setupOrphanFixture();
+    const mainTs = path.join(tmpDir, 'src', 'main.ts').replaceAll('\\', '/');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts').replaceAll('\\', '/');
+    // Uncommitted edits the diff keeps reporting on every run
+    const vcs: ChangeSource = {
+      name: 'fixed',
+      getChangedFiles: async () =>
+        ({ changed: [mainTs, orphanPath], deleted: [], entries: [], renames: [] }),
+    };
+
+    const plugin = vitestAffected({ since: 'last-run', vcs, statsFile: '.vitest-affected/stats.jsonl' });
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: ReturnType<typeof createMockContext>,
+    ) => Promise<void>;
+    let passWithNoTests: boolean | undefined;
+    const run = async () => {
+      const context = createMockContext(tmpDir);
+      await hook(context);
+      passWithNoTests = (context.vitest.config as { passWithNoTests?: boolean }).passWithNoTests;
+      const module = { moduleId: mainTest, project: { name: '' }, state: () => 'passed' } as unknown as TestModule;
+      await (context.vitest.reporters[0] as Reporter).onTestRunEnd!([module], [], 'passed');
+      return context.projectConfig.include;
+    };
+
+    // No snapshot yet: the whole diff counts
+    expect(await run()).toEqual([mainTest]);
+    const snapshot = JSON.parse(readFileSync(path.join(tmpDir, '.vitest-affected', 'last-run.json'), 'utf-8'));
+    expect(Object.keys(snapshot.files).sort()).toEqual(['src/main.ts', 'src/orphan.ts']);
+
+    // Nothing edited since: nothing runs, and the empty run passes
+    expect(await run()).toEqual([]);
+    expect(passWithNoTests).toBe(true);
+    const stats = readFileSync(path.join(tmpDir, '.vitest-affected', 'stats.jsonl'), 'utf-8')
+      .trim().split('\n').map((line) => JSON.parse(line));
+    expect(stats[1]).toMatchObject({ action: 'selective', reason: 'no-changes-since-last-run', affectedTests: 0 });
+
+    writeFileSync(mainTs, 'export const main = 12;\n');
+    expect(await run()).toEqual([mainTest]);
+  });
+
+  test("'last-run' with includeLastFailed reruns only the failed tests when nothing changed", async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const mainTs = path.join(tmpDir, 'src', 'main.ts').replaceAll('\\', '/');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts').replaceAll('\\', '/');
+    const vcs: ChangeSource = {
+      name: 'fixed',
+      getChangedFiles: async () => ({ changed: [mainTs], deleted: [], entries: [], renames: [] }),
+    };
+
+    const plugin = vitestAffected({ since: 'last-run', includeLastFailed: true, vcs });
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: ReturnType<typeof createMockContext>,
+    ) => Promise<void>;
+    const run = async (state: 'passed' | 'failed') => {
+      const context = createMockContext(tmpDir);
+      await hook(context);
+      const module = { moduleId: mainTest, project: { name: '' }, state: () => state } as unknown as TestModule;
+      await (context.vitest.reporters[0] as Reporter).onTestRunEnd!([module], [], 'passed');
+      return context.projectConfig.include;
+    };
+
+    expect(await run('failed')).toEqual([mainTest]);
+    expect(await run('passed')).toEqual([mainTest]);
+    expect(await run('passed')).toEqual([]);
+  });
+});
+
+describe('stale cache entries', () => {
+  test('file edited since the graph was saved is added as a BFS seed', async () => {
+    const { tmpDir } = setupOrphanFixture();
+    const mainTs = path.join(tmpDir, 'src', 'main.ts');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts');
+    // Edited outside git after the cache was written (e.g. codegen)
+    writeFileSync(mainTs, 'export const main = 2;\n');
+    // The only reported change is unrelated to the graph
+    const orphan = path.join(tmpDir, 'src', 'orphan.ts');
+
+    const plugin = vitestAffected({ changedFiles: [orphan] });
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+
+    expect(projectConfig.include).toEqual([mainTest]);
+  });
+});
+
+describe('cache commit drift', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  /**
+   * Orphan fixture committed to git, then main.ts changed in a second commit.
+   * The cache claims to be built at the first commit but fingerprints the
+   * current content, so only the commit drift (not staleness) can seed main.ts.
+   */
+  function setupDriftFixture() {
+    const { tmpDir } = setupOrphanFixture();
+    git(['init'], tmpDir);
+    git(['config', 'user.email', 'test@test.com'], tmpDir);
+    git(['config', 'user.name', 'Test'], tmpDir);
+    git(['add', '.'], tmpDir);
+    git(['commit', '-m', 'initial'], tmpDir);
+    const base = git(['rev-parse', 'HEAD'], tmpDir).toString().trim();
+
+    const mainTs = path.join(tmpDir, 'src', 'main.ts');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts');
+    writeFileSync(mainTs, 'export const main = 2;\n');
+    git(['commit', '-am', 'drift'], tmpDir);
+
+    const cacheDir = path.join(tmpDir, '.vitest-affected');
+    saveCacheSync(cacheDir, tmpDir, new Map([[mainTs, new Set([mainTest])]]), { commit: base });
+    return { tmpDir, cacheDir, mainTs, mainTest };
+  }
+
+  async function run(tmpDir: string, opts: Parameters<typeof vitestAffected>[0]) {
+    const plugin = vitestAffected(opts);
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+    return projectConfig;
+  }
+
+  test('files changed since the cached commit are BFS seeds on a clean checkout', async () => {
+    const { tmpDir, mainTest } = setupDriftFixture();
+    const config = await run(tmpDir, {});
+    expect(config.include).toEqual([mainTest]);
+  });
+
+  test('unreachable cached commit runs the full suite', async () => {
+    const { tmpDir, cacheDir, mainTs } = setupDriftFixture();
+    saveCacheSync(cacheDir, tmpDir,
+      new Map([[mainTs, new Set([path.join(tmpDir, 'tests', 'main.test.ts')])]]),
+      { commit: 'f'.repeat(40) },
+    );
+    const config = await run(tmpDir, { changedFiles: [mainTs] });
+    expect(config.include).toEqual(['tests/**/*.test.ts']);
+  });
+
+  test('drift above maxCacheDrift runs the full suite', async () => {
+    const { tmpDir } = setupDriftFixture();
+    const config = await run(tmpDir, { maxCacheDrift: 0 });
+    expect(config.include).toEqual(['tests/**/*.test.ts']);
+  });
+});
+
+describe('cache store', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  function createMemoryStore(initial: Record<string, string> = {}) {
+    const data = new Map(Object.entries(initial));
+    const gets: string[] = [];
+    const store: CacheStore = {
+      async get(key) {
+        gets.push(key);
+        return data.get(key) ?? null;
+      },
+      async put(key, value) {
+        data.set(key, value);
+      },
+    };
+    return { store, data, gets };
+  }
+
+  /** Orphan fixture whose local graph has been moved into the store under branch/main. */
+  function setupStoreFixture() {
+    const { tmpDir } = setupOrphanFixture();
+    const cacheDir = path.join(tmpDir, '.vitest-affected');
+    const graph = readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8');
+    rmSync(cacheDir, { recursive: true, force: true });
+    return {
+      tmpDir,
+      cacheDir,
+      graph,
+      mainTs: path.join(tmpDir, 'src', 'main.ts'),
+      mainTest: path.join(tmpDir, 'tests', 'main.test.ts'),
+    };
+  }
+
+  async function run(tmpDir: string, opts: Parameters<typeof vitestAffected>[0]) {
+    const plugin = vitestAffected(opts);
+    const ctx = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      c: { vitest: typeof ctx.vitest; project: typeof ctx.project },
+    ) => Promise<void>;
+    await hook({ vitest: ctx.vitest, project: ctx.project });
+    return ctx;
+  }
+
+  test('pulls the fallback branch graph on a local cache miss', async () => {
+    const { tmpDir, cacheDir, graph, mainTs, mainTest } = setupStoreFixture();
+    const { store, gets } = createMemoryStore({ 'branch/main': graph });
+
+    const { projectConfig } = await run(tmpDir, { changedFiles: [mainTs], cacheStore: store });
+
+    expect(gets).toEqual(['branch/main']);
+    expect(projectConfig.include).toEqual([mainTest]);
+    expect(readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8')).toBe(graph);
+  });
+
+  test('does not consult the store on a local cache hit', async () => {
+    const { tmpDir, mainTs, mainTest } = setupStoreFixture();
+    saveCacheSync(path.join(tmpDir, '.vitest-affected'), tmpDir, new Map([[mainTs, new Set([mainTest])]]));
+    const { store, gets } = createMemoryStore();
+
+    await run(tmpDir, { changedFiles: [mainTs], cacheStore: store });
+
+    expect(gets).toEqual([]);
+  });
+
+  test('store errors warn and fall back to the full suite', async () => {
+    const { tmpDir, mainTs } = setupStoreFixture();
+    const store: CacheStore = {
+      get: async () => { throw new Error('connection refused'); },
+      put: async () => {},
+    };
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { projectConfig } = await run(tmpDir, { changedFiles: [mainTs], cacheStore: store });
+
+    expect(projectConfig.include).toEqual(['tests/**/*.test.ts']);
+    expect(warnSpy.mock.calls.some(([msg]) => String(msg).includes('Cache store pull failed: connection refused')))
+      .toBe(true);
+    warnSpy.mockRestore();
+  });
+
+  test('pushes the updated graph under the commit and branch keys after a run', async () => {
+    const { tmpDir, cacheDir, mainTs, mainTest } = setupStoreFixture();
+    git(['init', '-b', 'feature'], tmpDir);
+    git(['config', 'user.email', 'test@test.com'], tmpDir);
+    git(['config', 'user.name', 'Test'], tmpDir);
+    git(['add', '.'], tmpDir);
+    git(['commit', '-m', 'initial'], tmpDir);
+    const head = git(['rev-parse', 'HEAD'], tmpDir).toString().trim();
+    const { store, data } = createMemoryStore();
+
+    const { vitest } = await run(tmpDir, { cacheStore: store });
+
+    // Vitest assigns its reporters array after configureVitest; ours is appended
+    vitest.reporters = [];
+    const reporter = vitest.reporters[0] as Reporter;
+    reporter.onTestModuleEnd!({
+      moduleId: mainTest,
+      project: { name: '' },
+      diagnostic: () => ({ importDurations: { [mainTs]: { selfTime: 1, totalTime: 1 } } }),
+    } as unknown as TestModule);
+    await reporter.onTestRunEnd!([], [], 'passed');
+
+    const graph = readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8');
+    expect(Object.fromEntries(data)).toEqual({
+      [`commit/${head}`]: graph,
+      'branch/feature': graph,
+    });
+  });
+});
+
+describe('lockfile changes', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+  const lockWith = (lodash: string) => JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      'node_modules/lodash': { version: lodash },
+      'node_modules/zod': { version: '3.22.0' },
+    },
+  });
+
+  /** Orphan fixture + committed package-lock.json; the cache maps pkg:lodash → main.test.ts. */
+  function setupLockfileFixture(withPackageEdges = true) {
+    const { tmpDir } = setupOrphanFixture();
+    const lockfile = path.join(tmpDir, 'package-lock.json');
+    writeFileSync(lockfile, lockWith('4.17.20'));
+    git(['init'], tmpDir);
+    git(['config', 'user.email', 'test@test.com'], tmpDir);
+    git(['config', 'user.name', 'Test'], tmpDir);
+    git(['add', '.'], tmpDir);
+    git(['commit', '-m', 'initial'], tmpDir);
+
+    const mainTs = path.join(tmpDir, 'src', 'main.ts');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts');
+    const reverse = new Map([[mainTs, new Set([mainTest])]]);
+    if (withPackageEdges) reverse.set('pkg:lodash', new Set([mainTest]));
+    saveCacheSync(path.join(tmpDir, '.vitest-affected'), tmpDir, reverse);
+    return { tmpDir, lockfile, mainTest };
+  }
+
+  async function run(tmpDir: string, opts: Parameters<typeof vitestAffected>[0]) {
+    const plugin = vitestAffected(opts);
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+    return projectConfig;
+  }
+
+  test('selects tests that imported the upgraded package', async () => {
+    const { tmpDir, lockfile, mainTest } = setupLockfileFixture();
+    writeFileSync(lockfile, lockWith('4.17.21'));
+    const config = await run(tmpDir, {});
+    expect(config.include).toEqual([mainTest]);
+  });
+
+  test('upgrading a package no test imports selects nothing (full suite by default)', async () => {
+    const { tmpDir, lockfile } = setupLockfileFixture();
+    writeFileSync(lockfile, lockWith('4.17.20').replace('3.22.0', '3.23.0'));
+    expect((await run(tmpDir, {})).include).toEqual(['tests/**/*.test.ts']);
+    expect((await run(tmpDir, { allowNoTests: true })).include).toEqual([]);
+  });
+
+  test('a graph without package edges runs the full suite', async () => {
+    const { tmpDir, lockfile } = setupLockfileFixture(false);
+    writeFileSync(lockfile, lockWith('4.17.21'));
+    const config = await run(tmpDir, {});
+    expect(config.include).toEqual(['tests/**/*.test.ts']);
+  });
+
+  test('bun.lockb changes still run the full suite', async () => {
+    const { tmpDir } = setupLockfileFixture();
+    writeFileSync(path.join(tmpDir, 'bun.lockb'), 'binary');
+    const config = await run(tmpDir, {});
+    expect(config.include).toEqual(['tests/**/*.test.ts']);
+  });
+});
+
+describe('package.json changes', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+  const manifest = {
+    name: 'fixture',
+    type: 'module',
+    scripts: { test: 'vitest' },
+    dependencies: { lodash: '^4.17.20', zod: '^3.22.0' },
+  };
+
+  /** Orphan fixture + committed package.json; the cache maps pkg:lodash → main.test.ts. */
+  function setupManifestFixture() {
+    const { tmpDir } = setupOrphanFixture();
+    const manifestPath = path.join(tmpDir, 'package.json');
+    writeFileSync(manifestPath, JSON.stringify(manifest));
+    git(['init'], tmpDir);
+    git(['config', 'user.email', 'test@test.com'], tmpDir);
+    git(['config', 'user.name', 'Test'], tmpDir);
+    git(['add', '.'], tmpDir);
+    git(['commit', '-m', 'initial'], tmpDir);
+
+    const mainTs = path.join(tmpDir, 'src', 'main.ts');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts');
+    saveCacheSync(path.join(tmpDir, '.vitest-affected'), tmpDir, new Map([
+      [mainTs, new Set([mainTest])],
+      ['pkg:lodash', new Set([mainTest])],
+    ]));
+    return { tmpDir, manifestPath, mainTest };
+  }
+
+  async function run(tmpDir: string, opts: Parameters<typeof vitestAffected>[0]) {
+    const plugin = vitestAffected(opts);
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+    return projectConfig;
+  }
+
+  test('a dependency range change selects tests that import the package', async () => {
+    const { tmpDir, manifestPath, mainTest } = setupManifestFixture();
+    writeFileSync(manifestPath, JSON.stringify({
+      ...manifest, dependencies: { ...manifest.dependencies, lodash: '^4.17.21' },
+    }));
+    expect((await run(tmpDir, {})).include).toEqual([mainTest]);
+  });
+
+  test('a scripts-only change selects nothing', async () => {
+    const { tmpDir, manifestPath } = setupManifestFixture();
+    writeFileSync(manifestPath, JSON.stringify({ ...manifest, scripts: { test: 'vitest run' } }));
+    expect((await run(tmpDir, { allowNoTests: true })).include).toEqual([]);
+  });
+
+  test('an exports change runs the full suite', async () => {
+    const { tmpDir, manifestPath } = setupManifestFixture();
+    writeFileSync(manifestPath, JSON.stringify({ ...manifest, exports: './src/main.ts' }));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await run(tmpDir, { allowNoTests: true })).include).toEqual(['tests/**/*.test.ts']);
+    expect(warnSpy).toHaveBeenCalledWith('[vitest-affected] package.json change to exports — running full suite');
+    warnSpy.mockRestore();
+  });
+});
+
+describe('tsconfig.json changes', () => {
+  const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  /**
+   * Orphan fixture where main.ts imports `@/orphan` through a `paths` alias;
+   * the cache maps main.ts → main.test.ts.
+   */
+  function setupAliasFixture() {
+    const { tmpDir } = setupOrphanFixture();
+    const tsconfigPath = path.join(tmpDir, 'tsconfig.json');
+    writeFileSync(tsconfigPath, JSON.stringify({ compilerOptions: { strict: true, paths: { '@/*': ['./src/*'] } } }));
+    const mainTs = path.join(tmpDir, 'src', 'main.ts');
+    const mainTest = path.join(tmpDir, 'tests', 'main.test.ts');
+    writeFileSync(mainTs, 'import { orphan } from "@/orphan";\nexport const main = orphan;\n');
+    saveCacheSync(path.join(tmpDir, '.vitest-affected'), tmpDir, new Map([[mainTs, new Set([mainTest])]]));
+    git(['init'], tmpDir);
+    git(['config', 'user.email', 'test@test.com'], tmpDir);
+    git(['config', 'user.name', 'Test'], tmpDir);
+    git(['add', '.'], tmpDir);
+    git(['commit', '-m', 'initial'], tmpDir);
+    return { tmpDir, tsconfigPath, mainTest };
+  }
+
+  async function run(tmpDir: string, opts: Parameters<typeof vitestAffected>[0]) {
+    const plugin = vitestAffected(opts);
+    const { vitest, project, projectConfig } = createMockContext(tmpDir);
+    const hook = (plugin as Record<string, unknown>).configureVitest as (
+      ctx: { vitest: typeof vitest; project: typeof project },
+    ) => Promise<void>;
+    await hook({ vitest, project });
+    return projectConfig;
+  }
+
+  test('a retargeted alias selects tests of the files that import it', async () => {
+    const { tmpDir, tsconfigPath, mainTest } = setupAliasFixture();
+    writeFileSync(tsconfigPath, JSON.stringify({ compilerOptions: { strict: true, paths: { '@/*': ['./lib/*'] } } }));
+    expect((await run(tmpDir, {})).include).toEqual([mainTest]);
+  });
+
+  test('a type-check-only option change selects nothing', async () => {
+    const { tmpDir, tsconfigPath } = setupAliasFixture();
+    writeFileSync(tsconfigPath, JSON.stringify({
+      compilerOptions: { strict: true, noUnusedLocals: true, paths: { '@/*': ['./src/*'] } },
+    }));
+    expect((await run(tmpDir, { allowNoTests: true })).include).toEqual([]);
+  });
+
+  test('a target change runs the full suite', async () => {
+    const { tmpDir, tsconfigPath } = setupAliasFixture();
+    writeFileSync(tsconfigPath, JSON.stringify({
+      compilerOptions: { strict: true, target: 'ES2017', paths: { '@/*': ['./src/*'] } },
+    }));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await run(tmpDir, { allowNoTests: true })).include).toEqual(['tests/**/*.test.ts']);
+    expect(warnSpy).toHaveBeenCalledWith(
+      '[vitest-affected] tsconfig.json change to compilerOptions.target — running full suite',
+    );
+    warnSpy.mockRestore();
+  });
+});
@@ -11,9 +11,11 @@ import { createRuntimeReporter } from '../src/plugin.js';
 function createMockTestModule(
   moduleId: string,
   importDurations: Record<string, { selfTime: number; totalTime: number }>,
+  projectName = '',
 ): TestModule {
   return {
     moduleId,
+    project: { name: projectName },
     diagnostic: () => ({ importDurations }),
   } as unknown as TestModule;
 }
@@ -68,12 +70,36 @@ describe('createRuntimeReporter', () => {
 
     expect(collected).toHaveLength(1);
     const edges = collected[0];
-    // node_modules should NOT appear
+    // node_modules files should NOT appear
     expect(edges.has('/project/node_modules/lodash/index.js')).toBe(false);
     // project source should appear
     expect(edges.has('/project/src/a.ts')).toBe(true);
   });
 
+  test('records package-level edges for node_modules imports', () => {
+    const collected: Map<string, Set<string>>[] = [];
+    const { reporter, setRootDir } = createRuntimeReporter((edges) => {
+      collected.push(new Map(edges));
+    });
+
+    setRootDir('/repo/packages/app');
+
+    const testPath = '/repo/packages/app/tests/a.test.ts';
+    reporter.onTestModuleEnd!(createMockTestModule(testPath, {
+      '/repo/packages/app/node_modules/lodash/index.js': { selfTime: 1, totalTime: 2 },
+      '/repo/packages/app/node_modules/lodash/fp.js': { selfTime: 1, totalTime: 2 },
+      // Hoisted above rootDir, scoped, pnpm layout
+      '/repo/node_modules/@scope/ui/dist/index.mjs': { selfTime: 1, totalTime: 2 },
+      '/repo/node_modules/.pnpm/zod@3.22.0/node_modules/zod/lib/index.js': { selfTime: 1, totalTime: 2 },
+      // Vite's pre-bundle directory is not a package
+      '/repo/packages/app/node_modules/.vite/deps/chunk-abc.js': { selfTime: 1, totalTime: 2 },
+    }));
+    reporter.onTestRunEnd!([], [], 'passed' as TestRunEndReason);
+
+    expect([...collected[0]!.keys()].sort()).toEqual(['pkg:@scope/ui', 'pkg:lodash', 'pkg:zod']);
+    expect(collected[0]!.get('pkg:lodash')).toEqual(new Set([testPath]));
+  });
+
   test('filters out self-reference (testPath === depPath)', () => {
     const collected: Map<string, Set<string>>[] = [];
     const { reporter, setRootDir } = createRuntimeReporter((edges) => {
@@ -199,4 +225,44 @@ describe('createRuntimeReporter', () => {
     // Empty map — should NOT call onEdgesCollected
     expect(collected).toHaveLength(0);
   });
+
+  test('attributes edges only to the configured project', () => {
+    const collected: Map<string, Set<string>>[] = [];
+    const { reporter, setRootDir } = createRuntimeReporter((edges) => {
+      collected.push(new Map(edges));
+    }, { projectName: 'web' });
+
+    setRootDir('/project');
+
+    reporter.onTestModuleEnd!(createMockTestModule('/project/packages/web/a.test.ts', {
+      '/project/packages/web/a.ts': { selfTime: 1, totalTime: 2 },
+    }, 'web'));
+    reporter.onTestModuleEnd!(createMockTestModule('/project/packages/api/b.test.ts', {
+      '/project/packages/api/b.ts': { selfTime: 1, totalTime: 2 },
+    }, 'api'));
+    reporter.onTestRunEnd!([], [], 'passed' as TestRunEndReason);
+
+    expect(collected).toHaveLength(1);
+    const edges = collected[0];
+    expect(edges.has('/project/packages/web/a.ts')).toBe(true);
+    expect(edges.has('/project/packages/api/b.ts')).toBe(false);
+  });
+
+  test('returns the callback promise so Vitest awaits async persistence', async () => {
+    let persisted = false;
+    const { reporter, setRootDir } = createRuntimeReporter(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      persisted = true;
+    });
+
+    setRootDir('/project');
+    reporter.onTestModuleEnd!(createMockTestModule('/project/tests/a.test.ts', {
+      '/project/src/a.ts': { selfTime: 1, totalTime: 2 },
+    }));
+    const result = reporter.onTestRunEnd!([], [], 'passed' as TestRunEndReason);
+
+    expect(persisted).toBe(false);
+    await result;
+    expect(persisted).toBe(true);
+  });
 });
@@ -329,7 +329,7 @@ describe('Reporter: module filtering (comprehensive)', () => {
 
     const testPath = '/project/tests/a.test.ts';
     const projectDep = '/project/src/utils.ts';            // should be collected
-    const nodeModuleDep = '/project/node_modules/lodash/index.js'; // skip node_modules
+    const nodeModuleDep = '/project/node_modules/lodash/index.js'; // package edge only
     const virtualDep = '/@vite/env';                        // not absolute under rootDir
     const outsideDep = '/other-project/src/lib.ts';         // outside rootDir
     // selfRef = testPath === modulePath                     // self-reference skip
@@ -346,9 +346,11 @@ describe('Reporter: module filtering (comprehensive)', () => {
     expect(collected).toHaveLength(1);
     const edges = collected[0];
 
-    // Only projectDep should appear
+    // Only projectDep (and the package-level edge for lodash) should appear
     expect(edges.get(projectDep)).toEqual(new Set([testPath]));
     expect(edges.has(nodeModuleDep)).toBe(false);
+    expect(edges.get('pkg:lodash')).toEqual(new Set([testPath]));
+    expect(edges.size).toBe(2);
     expect(edges.has(virtualDep)).toBe(false);
     expect(edges.has(outsideDep)).toBe(false);
     expect(edges.has(testPath)).toBe(false); // self-reference excluded
@@ -405,10 +407,10 @@ describe('Reporter: virtual testModule.moduleId', () => {
 });
 
 // ---------------------------------------------------------------------------
-// Scenario 9: v2 cache round-trip with runtime reporter
+// Scenario 9: cache round-trip with runtime reporter
 // ---------------------------------------------------------------------------
 
-describe('Cache persistence: runtime edges via v2 format', () => {
+describe('Cache persistence: runtime edges via v3 format', () => {
   test('round-trip: saveCacheSync → loadCachedReverseMap returns correct reverse map', () => {
     const rootDir = makeTmpDir();
     tempDirs.push(rootDir);
@@ -422,7 +424,7 @@ describe('Cache persistence: runtime edges via v2 format', () => {
     });
 
     const reverse = new Map<string, Set<string>>([[srcFile, new Set([testFile])]]);
-    saveCacheSync(cacheDir, reverse);
+    saveCacheSync(cacheDir, rootDir, reverse);
 
     const { reverse: loaded, hit } = loadCachedReverseMap(cacheDir, rootDir);
     expect(hit).toBe(true);
@@ -451,11 +453,11 @@ describe('Cache persistence: ENOENT on fresh install', () => {
     tempDirs.push(rootDir);
     const cacheDir = path.join(rootDir, '.vitest-affected');
 
-    expect(() => saveCacheSync(cacheDir, new Map())).not.toThrow();
+    expect(() => saveCacheSync(cacheDir, rootDir, new Map())).not.toThrow();
 
     const raw = readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8');
     const parsed = JSON.parse(raw) as { version: number; reverseMap: Record<string, string[]> };
-    expect(parsed.version).toBe(2);
+    expect(parsed.version).toBe(4);
     expect(typeof parsed.reverseMap).toBe('object');
   });
 });
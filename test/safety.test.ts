@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { safetyFullRunReason, sampleSkippedTests } from '../src/safety.js';
+
+describe('safetyFullRunReason', () => {
+  test('maxAge forces a full run when the last one is too old or unknown', () => {
+    const hour = 60 * 60 * 1000;
+    const now = 10 * hour;
+    expect(safetyFullRunReason({ maxAge: 2 * hour }, { selectiveRuns: 5, lastFullRunAt: now - hour }, now))
+      .toBeUndefined();
+    expect(safetyFullRunReason({ maxAge: 2 * hour }, { selectiveRuns: 5, lastFullRunAt: now - 3 * hour }, now))
+      .toBe('safety-max-age');
+    expect(safetyFullRunReason({ maxAge: 2 * hour }, { selectiveRuns: 0 }, now)).toBe('safety-max-age');
+  });
+
+  test('fullRunEvery counts the selective runs since the last full run', () => {
+    expect(safetyFullRunReason({ fullRunEvery: 3 }, { selectiveRuns: 1 })).toBeUndefined();
+    expect(safetyFullRunReason({ fullRunEvery: 3 }, { selectiveRuns: 2 })).toBe('safety-periodic');
+  });
+});
+
+describe('sampleSkippedTests', () => {
+  const tests = ['/p/a.test.ts', '/p/b.test.ts', '/p/c.test.ts', '/p/d.test.ts', '/p/e.test.ts'];
+
+  test('samples a share of the skipped tests, rounded up', () => {
+    const sampled = sampleSkippedTests(tests, ['/p/a.test.ts'], 0.3, () => 0.5);
+    expect(sampled).toHaveLength(2);
+    expect(sampled).not.toContain('/p/a.test.ts');
+    expect(new Set(sampled).size).toBe(2);
+  });
+
+  test('a zero rate samples nothing and a full rate samples everything skipped', () => {
+    expect(sampleSkippedTests(tests, [], 0)).toEqual([]);
+    expect(sampleSkippedTests(tests, ['/p/c.test.ts'], 1))
+      .toEqual(['/p/a.test.ts', '/p/b.test.ts', '/p/d.test.ts', '/p/e.test.ts']);
+  });
+});
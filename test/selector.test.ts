@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { bfsAffectedTests } from '../src/selector.js';
+import { bfsAffectedTests, explainChain, findUnreachedSeeds } from '../src/selector.js';
 
 const isTest = (f: string) => f.includes('.test.');
 
@@ -82,3 +82,39 @@ describe('bfsAffectedTests', () => {
       .toEqual(['/tests/a.test.ts', '/tests/b.test.ts']);
   });
 });
+
+describe('explainChain', () => {
+  const reverse = new Map([
+    ['/src/money.ts', new Set(['/src/cart.ts', '/src/price.ts'])],
+    ['/src/price.ts', new Set(['/src/cart.ts'])],
+    ['/src/cart.ts', new Set(['/tests/checkout.test.ts'])],
+    ['/tests/helpers.ts', new Set(['/tests/checkout.test.ts'])],
+  ]);
+
+  test('rebuilds the shortest route from a seed to each test', () => {
+    const parents = new Map<string, string>();
+    bfsAffectedTests(['/src/money.ts'], reverse, isTest, parents);
+    expect(explainChain('/tests/checkout.test.ts', parents))
+      .toEqual(['/src/money.ts', '/src/cart.ts', '/tests/checkout.test.ts']);
+  });
+
+  test('a seed has no parent, even when another seed reaches it', () => {
+    const parents = new Map<string, string>();
+    bfsAffectedTests(['/src/money.ts', '/src/cart.ts', '/tests/checkout.test.ts'], reverse, isTest, parents);
+    expect(explainChain('/src/cart.ts', parents)).toEqual(['/src/cart.ts']);
+    expect(explainChain('/tests/checkout.test.ts', parents)).toEqual(['/tests/checkout.test.ts']);
+  });
+});
+
+describe('findUnreachedSeeds', () => {
+  test('returns the seeds from which no test is reachable', () => {
+    const reverse = new Map([
+      ['/src/a.ts', new Set(['/src/b.ts'])],
+      ['/src/b.ts', new Set(['/tests/b.test.ts'])],
+      ['/src/x.ts', new Set(['/src/y.ts'])],
+      ['/src/y.ts', new Set(['/src/x.ts'])],
+    ]);
+    expect(findUnreachedSeeds(['/src/b.ts', '/src/a.ts', '/src/x.ts', '/src/new.ts'], reverse, isTest))
+      .toEqual(['/src/x.ts', '/src/new.ts']);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, test, expect, afterEach, beforeAll, afterAll } from 'vitest';
+import path from 'node:path';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { saveCacheSync } from '../src/graph/cache.js';
+import {
+  cacheStorePullKeys,
+  cacheStorePushKeys,
+  createHttpCacheStore,
+  createLocalCacheStore,
+  pullCacheFromStore,
+  pushCacheToStore,
+  type CacheStore,
+} from '../src/graph/store.js';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+function makeTempDir(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-store-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function createMemoryStore(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  const gets: string[] = [];
+  const store: CacheStore = {
+    async get(key) {
+      gets.push(key);
+      return data.get(key) ?? null;
+    },
+    async put(key, value) {
+      data.set(key, value);
+    },
+  };
+  return { store, data, gets };
+}
+
+describe('createLocalCacheStore', () => {
+  test('round-trips values and returns null for missing keys', async () => {
+    const store = createLocalCacheStore(makeTempDir());
+    expect(await store.get('branch/main')).toBeNull();
+    await store.put('branch/main', '{"version":3}');
+    expect(await store.get('branch/main')).toBe('{"version":3}');
+  });
+
+  test('encodes branch names with slashes and special characters', async () => {
+    const dir = makeTempDir();
+    const store = createLocalCacheStore(dir);
+    await store.put('branch/feature/x y', 'v');
+    expect(await store.get('branch/feature/x y')).toBe('v');
+    expect(readFileSync(path.join(dir, 'branch', 'feature', 'x%20y.json'), 'utf-8')).toBe('v');
+  });
+
+  test('rejects keys that would escape the directory', async () => {
+    const store = createLocalCacheStore(makeTempDir());
+    await expect(store.put('../evil', 'v')).rejects.toThrow(/Invalid cache store key/);
+    await expect(store.get('branch/../../evil')).rejects.toThrow(/Invalid cache store key/);
+  });
+});
+
+describe('createHttpCacheStore', () => {
+  const data = new Map<string, string>();
+  const requests: Array<{ method: string; url: string; auth?: string }> = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push({ method: req.method!, url: req.url!, auth: req.headers.authorization });
+      if (req.url!.startsWith('/broken/')) {
+        res.writeHead(500).end();
+        return;
+      }
+      if (req.method === 'GET') {
+        const value = data.get(req.url!);
+        if (value === undefined) res.writeHead(404).end();
+        else res.writeHead(200, { 'content-type': 'application/json' }).end(value);
+        return;
+      }
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        data.set(req.url!, body);
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('GET/PUT round-trip under the base URL with custom headers', async () => {
+    const store = createHttpCacheStore({ url: `${baseUrl}/cache/`, headers: { authorization: 'Bearer t' } });
+    expect(await store.get('commit/abc')).toBeNull();
+    await store.put('commit/abc', '{"version":3}');
+    expect(await store.get('commit/abc')).toBe('{"version":3}');
+
+    expect(requests.slice(-3)).toEqual([
+      { method: 'GET', url: '/cache/commit/abc', auth: 'Bearer t' },
+      { method: 'PUT', url: '/cache/commit/abc', auth: 'Bearer t' },
+      { method: 'GET', url: '/cache/commit/abc', auth: 'Bearer t' },
+    ]);
+  });
+
+  test('non-404 errors are thrown', async () => {
+    const store = createHttpCacheStore({ url: `${baseUrl}/broken` });
+    await expect(store.get('branch/main')).rejects.toThrow(/HTTP 500/);
+    await expect(store.put('branch/main', 'v')).rejects.toThrow(/HTTP 500/);
+  });
+});
+
+describe('cache store keys', () => {
+  test('pull tries commit, branch, then fallback branch', () => {
+    expect(cacheStorePullKeys({ commit: 'abc', branch: 'feat', fallbackBranch: 'main' }))
+      .toEqual(['commit/abc', 'branch/feat', 'branch/main']);
+  });
+
+  test('pull deduplicates when on the fallback branch, and skips unknown parts', () => {
+    expect(cacheStorePullKeys({ branch: 'main', fallbackBranch: 'main' })).toEqual(['branch/main']);
+  });
+
+  test('push publishes under commit and branch, with project prefix', () => {
+    expect(cacheStorePushKeys({ commit: 'abc', branch: 'feat', fallbackBranch: 'main', prefix: 'projects/web/' }))
+      .toEqual(['projects/web/commit/abc', 'projects/web/branch/feat']);
+  });
+});
+
+describe('pullCacheFromStore / pushCacheToStore', () => {
+  function buildGraph(): { rootDir: string; contents: string } {
+    const rootDir = makeTempDir();
+    mkdirSync(path.join(rootDir, 'src'), { recursive: true });
+    writeFileSync(path.join(rootDir, 'src', 'a.ts'), 'export const a = 1;\n');
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+    saveCacheSync(cacheDir, rootDir, new Map([
+      [path.join(rootDir, 'src', 'a.ts'), new Set([path.join(rootDir, 'src', 'a.test.ts')])],
+    ]));
+    return { rootDir, contents: readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8') };
+  }
+
+  test('first valid graph wins and is written to the cache dir', async () => {
+    const { contents } = buildGraph();
+    const { store, gets } = createMemoryStore({ 'branch/feat': 'not json', 'branch/main': contents });
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    const pulled = await pullCacheFromStore(store, ['commit/abc', 'branch/feat', 'branch/main'], cacheDir, rootDir);
+
+    expect(gets).toEqual(['commit/abc', 'branch/feat', 'branch/main']);
+    expect(pulled?.key).toBe('branch/main');
+    // Root-relative paths re-anchor to the pulling checkout
+    expect(pulled?.cached.reverse.get(path.join(rootDir, 'src', 'a.ts'))).toEqual(
+      new Set([path.join(rootDir, 'src', 'a.test.ts')]),
+    );
+    expect(readFileSync(path.join(cacheDir, 'graph.json'), 'utf-8')).toBe(contents);
+  });
+
+  test('invalid remote values are never written to disk', async () => {
+    const { store } = createMemoryStore({
+      'branch/feat': '{"version":4,"reverseMap":{"src/a.ts":',
+      'branch/main': JSON.stringify({ version: 4, reverseMap: 'foreign', files: {} }),
+    });
+    const rootDir = makeTempDir();
+    const cacheDir = path.join(rootDir, '.vitest-affected');
+
+    expect(await pullCacheFromStore(store, ['branch/feat', 'branch/main'], cacheDir, rootDir)).toBeNull();
+    expect(existsSync(path.join(cacheDir, 'graph.json'))).toBe(false);
+  });
+
+  test('returns null when no key has a graph', async () => {
+    const { store } = createMemoryStore();
+    const rootDir = makeTempDir();
+    expect(await pullCacheFromStore(store, ['branch/main'], path.join(rootDir, '.vitest-affected'), rootDir))
+      .toBeNull();
+  });
+
+  test('push publishes graph.json under every key', async () => {
+    const { rootDir, contents } = buildGraph();
+    const { store, data } = createMemoryStore();
+    await pushCacheToStore(store, ['commit/abc', 'branch/feat'], path.join(rootDir, '.vitest-affected'));
+    expect(Object.fromEntries(data)).toEqual({ 'commit/abc': contents, 'branch/feat': contents });
+  });
+
+  test('push without a cache file is a no-op', async () => {
+    const { store, data } = createMemoryStore();
+    await pushCacheToStore(store, ['branch/main'], path.join(makeTempDir(), '.vitest-affected'));
+    expect(data.size).toBe(0);
+  });
+});
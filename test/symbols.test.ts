@@ -0,0 +1,190 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { createResolver } from '../src/graph/builder.js';
+import {
+  collectModuleImports,
+  diffExportedSymbols,
+  extractModuleImports,
+  getChangedExports,
+  symbolLevelSeeds,
+  type ModuleImports,
+} from '../src/graph/symbols.js';
+import { createGitChangeSource } from '../src/vcs/git.js';
+
+const tempDirs: string[] = [];
+const gitSource = createGitChangeSource();
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+function makeTempDir(files: Record<string, string>): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-symbols-'));
+  tempDirs.push(dir);
+  writeFileSync(path.join(dir, 'tsconfig.json'), '{}');
+  for (const [rel, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+    writeFileSync(path.join(dir, rel), content);
+  }
+  return dir;
+}
+
+const utils = `import { round } from './math';
+
+function clamp(n: number) { return Math.max(0, n); }
+
+export function add(a: number, b: number) { return round(a + b); }
+export function sub(a: number, b: number) { return clamp(a - b); }
+export const PI = 3.14;
+export interface Options { precise: boolean }
+export { sub as subtract };
+export default function describe() { return 'utils'; }
+`;
+
+const diff = (after: string) => diffExportedSymbols('utils.ts', utils, after);
+
+describe('diffExportedSymbols', () => {
+  test('reports only the exports whose declaration changed', () => {
+    expect(diff(utils.replace('round(a + b)', 'round(a + b + 0)'))).toEqual(new Set(['add']));
+  });
+
+  test('follows changes through private helpers and export aliases', () => {
+    expect(diff(utils.replace('Math.max(0, n)', 'Math.max(1, n)'))).toEqual(new Set(['sub', 'subtract']));
+  });
+
+  test('a changed import changes every export that uses it', () => {
+    expect(diff(utils.replace("from './math'", "from './math2'"))).toEqual(new Set(['add']));
+  });
+
+  test('type-only changes change nothing', () => {
+    expect(diff(utils.replace('precise: boolean', 'precise?: boolean'))).toEqual(new Set());
+  });
+
+  test('added, removed and re-pointed exports count as changed', () => {
+    expect(diff(utils.replace('export const PI = 3.14;', 'export const TAU = 6.28;')))
+      .toEqual(new Set(['PI', 'TAU']));
+    expect(diff(utils.replace('export { sub as subtract }', 'export { add as subtract }')))
+      .toEqual(new Set(['subtract']));
+  });
+
+  test('side-effect and export-star changes are ambiguous', () => {
+    expect(diff(`${utils}console.log('loaded');\n`)).toBeNull();
+    expect(diffExportedSymbols('a.ts', "export * from './b';\n", "export * from './b';\nexport const x = 1;\n"))
+      .toBeNull();
+    // Unchanged side effect that calls a changed binding
+    const withEffect = `${utils}sub(1, 2);\n`;
+    expect(diffExportedSymbols('utils.ts', withEffect, withEffect.replace('Math.max(0, n)', 'Math.max(1, n)')))
+      .toBeNull();
+  });
+});
+
+describe('extractModuleImports', () => {
+  test('records the names imported from each project file', () => {
+    const dir = makeTempDir({
+      'src/a.ts': '',
+      'src/b.ts': '',
+      'src/c.ts': '',
+      'src/d.ts': '',
+      'src/e.ts': '',
+      'src/types.ts': '',
+    });
+    const source = `import def, { add, type Options } from './a';
+import * as ns from './b';
+import type { T } from './types';
+import './c';
+export { PI as pi } from './d';
+const lazy = () => import('./e');
+`;
+    const file = path.join(dir, 'src', 'main.ts');
+    const result = extractModuleImports(file, source, dir, createResolver(dir, false));
+    const at = (rel: string) => path.join(dir, 'src', rel);
+
+    expect(result.opaque).toBe(false);
+    expect(result.imports).toEqual(new Map([
+      [at('a.ts'), new Set(['default', 'add'])],
+      [at('b.ts'), new Set(['*'])],
+      [at('c.ts'), new Set()],
+      [at('d.ts'), new Set(['PI'])],
+      [at('e.ts'), new Set(['*'])],
+    ]));
+  });
+
+  test('require, non-literal import() and parse errors make a module opaque', () => {
+    const dir = makeTempDir({
+      'src/cjs.ts': 'const a = require("./a");\n',
+      'src/dyn.ts': 'export const load = (name: string) => import(`./${name}`);\n',
+      'src/broken.ts': 'export const = ;\n',
+    });
+    const collected = collectModuleImports(
+      ['cjs.ts', 'dyn.ts', 'broken.ts'].map((f) => path.join(dir, 'src', f)),
+      dir,
+    );
+    expect([...collected.values()].map((m) => m.opaque)).toEqual([true, true, true]);
+  });
+});
+
+describe('symbolLevelSeeds', () => {
+  const utilsFile = '/p/src/utils.ts';
+  const mathView = '/p/src/math-view.ts';
+  const pi = '/p/src/pi.ts';
+  const addTest = '/p/tests/add.test.ts';
+  const piTest = '/p/tests/pi.test.ts';
+  const hiddenTest = '/p/tests/hidden.test.ts';
+  const isTestFile = (f: string) => f.startsWith('/p/tests/');
+
+  const reverse = new Map([
+    [utilsFile, new Set([addTest, piTest, hiddenTest])],
+    [mathView, new Set([addTest])],
+    [pi, new Set([piTest])],
+  ]);
+  const imports = (entries: Array<[string, string[]]>, opaque = false): ModuleImports => ({
+    imports: new Map(entries.map(([target, names]) => [target, new Set(names)])),
+    opaque,
+  });
+  const moduleImports = new Map([
+    [mathView, imports([[utilsFile, ['add']]])],
+    [pi, imports([[utilsFile, ['PI']]])],
+    [addTest, imports([[mathView, ['view']]])],
+    [piTest, imports([[pi, ['pi']]])],
+    // hidden.test.ts loads utils.ts without a recorded import (e.g. vi.mock)
+    [hiddenTest, imports([])],
+  ]);
+
+  test('seeds importers of changed exports and tests without a recorded route', () => {
+    expect(symbolLevelSeeds(utilsFile, new Set(['add']), reverse, moduleImports, isTestFile).sort())
+      .toEqual([mathView, hiddenTest]);
+  });
+
+  test('opaque modules keep their tests selected', () => {
+    const withOpaque = new Map(moduleImports);
+    withOpaque.set(piTest, imports([[pi, ['pi']]], true));
+    expect(symbolLevelSeeds(utilsFile, new Set(['add']), reverse, withOpaque, isTestFile).sort())
+      .toEqual([mathView, hiddenTest, piTest]);
+  });
+});
+
+describe('getChangedExports', () => {
+  test('diffs the working tree against each base revision', async () => {
+    const dir = makeTempDir({ 'src/utils.ts': utils });
+    const git = (args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' });
+    git(['init']);
+    git(['config', 'user.email', 'test@test.com']);
+    git(['config', 'user.name', 'Test']);
+    git(['add', '.']);
+    git(['commit', '-m', 'initial']);
+
+    const file = path.join(dir, 'src', 'utils.ts');
+    writeFileSync(file, utils.replace('3.14', '3.14159'));
+    expect(await getChangedExports(dir, file, ['HEAD'], gitSource)).toEqual(new Set(['PI']));
+
+    const added = path.join(dir, 'src', 'new.ts');
+    writeFileSync(added, 'export const x = 1;\n');
+    expect(await getChangedExports(dir, added, ['HEAD'], gitSource)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import path from 'node:path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import {
+  findFilesImportingAliases,
+  getTsconfigChain,
+  getTsconfigChange,
+  parseJsonc,
+  specifierMatchesAlias,
+} from '../src/tsconfig.js';
+import { createGitChangeSource } from '../src/vcs/git.js';
+
+const tempDirs: string[] = [];
+const gitSource = createGitChangeSource();
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+const git = (args: string[], cwd: string) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+/** Git repo with the given files committed. */
+function setupRepo(files: Record<string, string>): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-tsconfig-'));
+  tempDirs.push(dir);
+  for (const [rel, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+    writeFileSync(path.join(dir, rel), content);
+  }
+  git(['init'], dir);
+  git(['config', 'user.email', 'test@test.com'], dir);
+  git(['config', 'user.name', 'Test'], dir);
+  git(['add', '.'], dir);
+  git(['commit', '-m', 'initial'], dir);
+  return dir;
+}
+
+const tsconfig = (compilerOptions: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ compilerOptions, ...extra });
+
+describe('parseJsonc', () => {
+  test('accepts comments and trailing commas, keeps comment-like strings', () => {
+    expect(parseJsonc(`{
+      // line comment
+      "compilerOptions": { /* block */ "paths": { "@/*": ["./src/*",], }, },
+      "include": ["src/**//*.ts"],
+    }`)).toEqual({ compilerOptions: { paths: { '@/*': ['./src/*'] } }, include: ['src/**//*.ts'] });
+  });
+
+  test('leaves commas before a closing bracket inside strings alone', () => {
+    expect(parseJsonc(`{
+      "compilerOptions": { "paths": { "@x/*": ["./src/{a,}/*", "./lib/[b,]/*",], }, "outDir": "dist ,}", },
+    }`)).toEqual({
+      compilerOptions: { paths: { '@x/*': ['./src/{a,}/*', './lib/[b,]/*'] }, outDir: 'dist ,}' },
+    });
+  });
+
+  test('returns undefined for invalid input', () => {
+    expect(parseJsonc('{')).toBeUndefined();
+  });
+});
+
+describe('specifierMatchesAlias', () => {
+  test('wildcard and exact patterns', () => {
+    expect(specifierMatchesAlias('@/utils/math', '@/*')).toBe(true);
+    expect(specifierMatchesAlias('@scope/pkg', '@/*')).toBe(false);
+    expect(specifierMatchesAlias('~config', '~config')).toBe(true);
+    expect(specifierMatchesAlias('~config/x', '~config')).toBe(false);
+    expect(specifierMatchesAlias('icons/home.svg', 'icons/*.svg')).toBe(true);
+  });
+});
+
+describe('getTsconfigChange', () => {
+  test('a retargeted alias is reported without forcing the full suite', async () => {
+    const dir = setupRepo({
+      'tsconfig.json': tsconfig({ strict: true, paths: { '@/*': ['./src/*'], '~lib': ['./lib/index.ts'] } }),
+    });
+    const file = path.join(dir, 'tsconfig.json');
+    writeFileSync(file, tsconfig({
+      strict: true,
+      noUnusedLocals: true,
+      paths: { '@/*': ['./src/*'], '~lib': ['./lib/v2.ts'], '#new/*': ['./new/*'] },
+    }, { include: ['src', 'test'] }));
+
+    expect(await getTsconfigChange(dir, file, ['HEAD'], gitSource))
+      .toEqual({ aliases: ['#new/*', '~lib'], baseUrlChanged: false, fullSuiteOptions: [] });
+  });
+
+  test('transform-affecting options force the full suite', async () => {
+    const dir = setupRepo({ 'tsconfig.json': tsconfig({ target: 'ES2020' }) });
+    const file = path.join(dir, 'tsconfig.json');
+    writeFileSync(file, tsconfig({ target: 'ES2022', experimentalDecorators: true }));
+
+    expect((await getTsconfigChange(dir, file, ['HEAD'], gitSource))?.fullSuiteOptions)
+      .toEqual(['compilerOptions.experimentalDecorators', 'compilerOptions.target']);
+  });
+
+  test('follows extends chains, resolving paths against the declaring config', async () => {
+    const dir = setupRepo({
+      'config/tsconfig.base.json': tsconfig({ baseUrl: '..', paths: { '@/*': ['src/*'] } }),
+      'tsconfig.json': JSON.stringify({ extends: './config/tsconfig.base' }),
+    });
+    const file = path.join(dir, 'tsconfig.json');
+    expect(await getTsconfigChain(file)).toEqual([file, path.join(dir, 'config', 'tsconfig.base.json')]);
+
+    // Same effective targets, spelled relative to a different baseUrl
+    writeFileSync(path.join(dir, 'config', 'tsconfig.base.json'), tsconfig({ paths: { '@/*': ['../src/*'] } }));
+    expect(await getTsconfigChange(dir, file, ['HEAD'], gitSource))
+      .toEqual({ aliases: [], baseUrlChanged: true, fullSuiteOptions: [] });
+  });
+
+  test('returns null when a config in the chain is missing or invalid', async () => {
+    const dir = setupRepo({ 'tsconfig.json': tsconfig({}) });
+    const file = path.join(dir, 'tsconfig.json');
+    writeFileSync(file, JSON.stringify({ extends: './missing.json' }));
+    expect(await getTsconfigChange(dir, file, ['HEAD'], gitSource)).toBeNull();
+
+    writeFileSync(file, '{ "compilerOptions": ');
+    expect(await getTsconfigChange(dir, file, ['HEAD'], gitSource)).toBeNull();
+  });
+});
+
+describe('findFilesImportingAliases', () => {
+  test('matches changed aliases, or every bare specifier when baseUrl moved', () => {
+    const dir = setupRepo({
+      'src/a.ts': 'import { x } from "@/x";\nexport const a = x;\n',
+      'src/b.ts': 'import { y } from "./y";\nimport lodash from "lodash";\nexport const b = y;\n',
+      'src/c.ts': 'export const c = await import("~lib");\n',
+    });
+    const files = ['a.ts', 'b.ts', 'c.ts'].map((f) => path.join(dir, 'src', f));
+
+    expect(findFilesImportingAliases(files, { aliases: ['@/*', '~lib'], baseUrlChanged: false }))
+      .toEqual([files[0], files[2]]);
+    expect(findFilesImportingAliases(files, { aliases: [], baseUrlChanged: true })).toEqual(files);
+    expect(findFilesImportingAliases(files, { aliases: [], baseUrlChanged: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import path from 'node:path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { execFileSync } from 'node:child_process';
+import { toChangedFiles } from '../src/git.js';
+import { detectVcs, resolveChangeSource } from '../src/vcs/index.js';
+import { parseHgStatus } from '../src/vcs/hg.js';
+import { parseJjSummary } from '../src/vcs/jj.js';
+import { createMtimeChangeSource } from '../src/vcs/mtime.js';
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs) {
+    try { rmSync(dir, { recursive: true, force: true }); } catch { /* best-effort */ }
+  }
+  tempDirs.length = 0;
+});
+
+function makeTempDir(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'vitest-affected-vcs-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/** A working copy holding `files`, for turning recorded output into changed files. */
+function makeWorkingCopy(files: string[]): { dir: string; at: (rel: string) => string } {
+  const dir = makeTempDir();
+  for (const rel of files) {
+    mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+    writeFileSync(path.join(dir, rel), '');
+  }
+  return { dir, at: (rel) => path.join(dir, rel).replaceAll('\\', '/') };
+}
+
+function installed(cmd: string): boolean {
+  try {
+    execFileSync(cmd, ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('parseHgStatus', () => {
+  test('decodes statuses and pairs copies with removed sources as renames', () => {
+    const stdout = ['M src/a.ts', 'A src/new name.ts', 'A src/b.ts', '  src/old.ts', 'A src/c.ts', '  src/a.ts',
+      'R src/old.ts', '! src/gone.ts', '? notes.md', ''].join('\0');
+    expect(parseHgStatus(stdout, '/repo')).toEqual([
+      { path: '/repo/src/a.ts', kind: 'modified' },
+      { path: '/repo/src/new name.ts', kind: 'added' },
+      { path: '/repo/src/b.ts', kind: 'renamed', from: '/repo/src/old.ts', similarity: 100 },
+      { path: '/repo/src/c.ts', kind: 'copied', from: '/repo/src/a.ts', similarity: 100 },
+      { path: '/repo/src/old.ts', kind: 'deleted' },
+      { path: '/repo/src/gone.ts', kind: 'deleted' },
+      { path: '/repo/notes.md', kind: 'untracked' },
+    ]);
+  });
+
+  test('recorded session: move, edit, add, delete without hg remove, untracked file', () => {
+    // `hg mv src/util.ts src/helpers.ts`, edits, `rm src/legacy.ts`, then
+    // `hg status --print0 --copies --modified --added --removed --deleted --unknown`
+    const stdout = 'M package.json\0M src/app.ts\0A src/helpers.ts\0  src/util.ts\0A tests/app.test.ts\0' +
+      'R src/util.ts\0! src/legacy.ts\0? scratch notes.ts\0';
+    const { dir, at } = makeWorkingCopy(
+      ['package.json', 'src/app.ts', 'src/helpers.ts', 'tests/app.test.ts', 'scratch notes.ts'],
+    );
+    expect(toChangedFiles(parseHgStatus(stdout, dir))).toMatchObject({
+      changed: ['package.json', 'src/app.ts', 'src/helpers.ts', 'tests/app.test.ts', 'scratch notes.ts'].map(at),
+      deleted: [at('src/util.ts'), at('src/legacy.ts')],
+      renames: [{ from: at('src/util.ts'), to: at('src/helpers.ts'), similarity: 100 }],
+    });
+    expect(parseHgStatus('', dir)).toEqual([]);
+  });
+});
+
+describe('parseJjSummary', () => {
+  test('expands the compressed rename notation', () => {
+    const stdout = ['M src/a.ts', 'A src/new.ts', 'D src/gone.ts', 'R src/{old.ts => b.ts}',
+      'R {lib => src}/util.ts', 'C src/{ => copies}/a.ts', ''].join('\n');
+    expect(parseJjSummary(stdout, '/repo')).toEqual([
+      { path: '/repo/src/a.ts', kind: 'modified' },
+      { path: '/repo/src/new.ts', kind: 'added' },
+      { path: '/repo/src/gone.ts', kind: 'deleted' },
+      { path: '/repo/src/b.ts', kind: 'renamed', from: '/repo/src/old.ts', similarity: 100 },
+      { path: '/repo/src/util.ts', kind: 'renamed', from: '/repo/lib/util.ts', similarity: 100 },
+      { path: '/repo/src/copies/a.ts', kind: 'copied', from: '/repo/src/a.ts', similarity: 100 },
+    ]);
+  });
+
+  test('recorded session: rename across directories, edit, add, delete', () => {
+    // `mv src/util.ts lib/util.ts`, edits and a new test, then `jj diff --summary --color=never`
+    const stdout = [
+      'M package.json',
+      'R {src => lib}/util.ts',
+      'M src/app.ts',
+      'D src/legacy.ts',
+      'A tests/app test.ts',
+      '',
+    ].join('\n');
+    const { dir, at } = makeWorkingCopy(['package.json', 'lib/util.ts', 'src/app.ts', 'tests/app test.ts']);
+    expect(toChangedFiles(parseJjSummary(stdout, dir))).toMatchObject({
+      changed: [at('package.json'), at('lib/util.ts'), at('src/app.ts'), at('tests/app test.ts')],
+      deleted: [at('src/legacy.ts'), at('src/util.ts')],
+      renames: [{ from: at('src/util.ts'), to: at('lib/util.ts'), similarity: 100 }],
+    });
+    expect(parseJjSummary('', dir)).toEqual([]);
+  });
+});
+
+describe('detectVcs', () => {
+  test('finds the nearest repository marker, preferring jj over a colocated git', () => {
+    const dir = makeTempDir();
+    const pkg = path.join(dir, 'packages', 'app');
+    mkdirSync(pkg, { recursive: true });
+    expect(detectVcs(pkg)).toBeNull();
+    expect(resolveChangeSource(pkg).name).toBe('mtime');
+
+    mkdirSync(path.join(dir, '.hg'));
+    expect(detectVcs(pkg)).toBe('hg');
+    mkdirSync(path.join(dir, '.git'));
+    mkdirSync(path.join(dir, '.jj'));
+    expect(detectVcs(pkg)).toBe('jj');
+    mkdirSync(path.join(pkg, '.git'));
+    expect(detectVcs(pkg)).toBe('git');
+  });
+
+  test('an explicit vcs or a custom source bypasses detection', () => {
+    const dir = makeTempDir();
+    expect(resolveChangeSource(dir, 'hg').name).toBe('hg');
+    const custom = { name: 'custom', getChangedFiles: async () => ({ changed: [], deleted: [], entries: [], renames: [] }) };
+    expect(resolveChangeSource(dir, custom)).toBe(custom);
+  });
+});
+
+describe('mtime change source', () => {
+  test('what a run writes into the cache and output directories is not a change', async () => {
+    const dir = makeTempDir();
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    const source = createMtimeChangeSource();
+    const options = { cacheDir: at('cache'), outputDirs: [at('dist'), at('coverage')] };
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await source.getChangedFiles(dir, options);
+    warn.mockRestore();
+    source.recordRun!(dir, options.cacheDir);
+
+    // The run builds, writes coverage and saves its graph; a.ts is edited after
+    for (const rel of ['dist/index.js', 'coverage/index.html', 'cache/graph.json']) {
+      mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+      writeFileSync(path.join(dir, rel), 'generated\n');
+    }
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 12;\n');
+    expect(await source.getChangedFiles(dir, options)).toMatchObject({ changed: [at('a.ts')], deleted: [] });
+  });
+});
+
+describe.skipIf(!installed('hg'))('hg change source', () => {
+  test('reports working-copy and committed changes against a ref', async () => {
+    const dir = makeTempDir();
+    const hg = (...args: string[]) =>
+      execFileSync('hg', args, { cwd: dir, env: { ...process.env, HGPLAIN: '1', HGUSER: 'Test <test@test.com>' } });
+    hg('init');
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    writeFileSync(path.join(dir, 'old.ts'), 'export const old = 1;\n');
+    hg('commit', '-A', '-m', 'initial');
+    hg('mv', 'old.ts', 'new.ts');
+    hg('commit', '-m', 'rename');
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 2;\n');
+
+    const source = resolveChangeSource(dir);
+    expect(source.name).toBe('hg');
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    expect((await source.getChangedFiles(dir, { cacheDir: dir })).changed).toEqual([at('a.ts')]);
+    const result = await source.getChangedFiles(dir, { ref: '0', cacheDir: dir });
+    expect(result.changed.sort()).toEqual([at('a.ts'), at('new.ts')]);
+    expect(result.renames).toEqual([{ from: at('old.ts'), to: at('new.ts'), similarity: 100 }]);
+
+    const base = (await source.baseRevision!(dir, '0'))!;
+    expect(await source.readFileAtRevision!(dir, base, at('a.ts'))).toBe('export const a = 1;\n');
+    expect(await source.readFileAtRevision!(dir, base, at('new.ts'))).toBeNull();
+  });
+});
+
+describe.skipIf(!installed('jj'))('jj change source', () => {
+  test('reports the working-copy commit and changes since a ref', async () => {
+    const dir = makeTempDir();
+    const jj = (...args: string[]) =>
+      execFileSync('jj', args, {
+        cwd: dir,
+        env: { ...process.env, JJ_USER: 'Test', JJ_EMAIL: 'test@test.com' },
+      });
+    jj('git', 'init');
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    writeFileSync(path.join(dir, 'b.ts'), 'export const b = 1;\n');
+    jj('commit', '-m', 'initial');
+    jj('bookmark', 'create', 'base', '-r', '@-');
+    writeFileSync(path.join(dir, 'b.ts'), 'export const b = 2;\n');
+    jj('commit', '-m', 'change b');
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 2;\n');
+
+    const source = resolveChangeSource(dir);
+    expect(source.name).toBe('jj');
+    const at = (rel: string) => path.join(dir, rel).replaceAll('\\', '/');
+    expect((await source.getChangedFiles(dir, { cacheDir: dir })).changed).toEqual([at('a.ts')]);
+    const result = await source.getChangedFiles(dir, { ref: 'base', cacheDir: dir });
+    expect(result.changed.sort()).toEqual([at('a.ts'), at('b.ts')]);
+
+    const parent = (await source.baseRevision!(dir, undefined))!;
+    expect(await source.readFileAtRevision!(dir, parent, at('b.ts'))).toBe('export const b = 2;\n');
+    const base = (await source.baseRevision!(dir, 'base'))!;
+    expect(await source.readFileAtRevision!(dir, base, at('b.ts'))).toBe('export const b = 1;\n');
+    expect(await source.readFileAtRevision!(dir, base, at('c.ts'))).toBeNull();
+  });
+});
@@ -93,11 +93,24 @@ function createWatchMockContext(rootDir: string) {
   const mockProject = { config: projectConfig };
 
   let filterCallback: ((spec: { moduleId: string }) => boolean) | null = null;
+  const watcherListeners = new Map<string, Array<(file: string) => void>>();
+  const rerunListeners: Array<() => void> = [];
 
   const mockVitest = {
     config: { root: rootDir, watch: true },
     projects: [mockProject],
     reporters: [] as unknown[],
+    vite: {
+      watcher: {
+        on: (event: string, listener: (file: string) => void) => {
+          if (!watcherListeners.has(event)) watcherListeners.set(event, []);
+          watcherListeners.get(event)!.push(listener);
+        },
+      },
+    },
+    onTestsRerun: (cb: () => void) => {
+      rerunListeners.push(cb);
+    },
     onFilterWatchedSpecification: (cb: (spec: { moduleId: string }) => boolean) => {
       filterCallback = cb;
     },
@@ -108,6 +121,14 @@ function createWatchMockContext(rootDir: string) {
     project: mockProject,
     projectConfig,
     getFilterCallback: () => filterCallback,
+    /** Simulate Vite's watcher reporting a file event */
+    emitFileEvent: (event: 'add' | 'change' | 'unlink', file: string) => {
+      for (const listener of watcherListeners.get(event) ?? []) listener(file);
+    },
+    /** Simulate Vitest finishing the filter pass and starting the rerun */
+    emitRerun: () => {
+      for (const cb of rerunListeners) cb();
+    },
   };
 }
 
@@ -132,10 +153,10 @@ describe('watch mode: pass-through filter', () => {
     const { tmpDir, mainTs, mainTestTs } = setupWatchFixture();
     const cacheDir = path.join(tmpDir, '.vitest-affected');
 
-    // Write v2 cache so plugin has a hit
+    // Write cache so plugin has a hit
     const reverse = new Map<string, Set<string>>();
     reverse.set(mainTs, new Set([mainTestTs]));
-    saveCacheSync(cacheDir, reverse);
+    saveCacheSync(cacheDir, tmpDir, reverse);
 
     const { vitest, project, getFilterCallback } = createWatchMockContext(tmpDir);
 
@@ -157,7 +178,7 @@ describe('watch mode: pass-through filter', () => {
 
     const reverse = new Map<string, Set<string>>();
     reverse.set(mainTs, new Set([mainTestTs]));
-    saveCacheSync(cacheDir, reverse);
+    saveCacheSync(cacheDir, tmpDir, reverse);
 
     const projectConfig = {
       include: ['tests/**/*.test.ts'],
@@ -192,7 +213,7 @@ describe('watch mode: pass-through filter', () => {
 
     const reverse = new Map<string, Set<string>>();
     reverse.set(mainTs, new Set([mainTestTs]));
-    saveCacheSync(cacheDir, reverse);
+    saveCacheSync(cacheDir, tmpDir, reverse);
 
     const { vitest, project, getFilterCallback } = createWatchMockContext(tmpDir);
 
@@ -208,3 +229,94 @@ describe('watch mode: pass-through filter', () => {
     expect(filter!({ moduleId: '/nonexistent/path.ts' })).toBe(true);
   });
 });
+
+describe('watch mode: selective filter', () => {
+  function setupWithCache() {
+    const fixture = setupWatchFixture();
+    const otherTestTs = path.join(fixture.tmpDir, 'tests', 'other.test.ts');
+    writeFileSync(otherTestTs, 'import { test } from "vitest";\ntest("other", () => {});\n');
+    const reverse = new Map<string, Set<string>>();
+    reverse.set(fixture.mainTs, new Set([fixture.mainTestTs]));
+    reverse.set(fixture.libTs, new Set([fixture.mainTestTs]));
+    saveCacheSync(path.join(fixture.tmpDir, '.vitest-affected'), fixture.tmpDir, reverse);
+    return { ...fixture, otherTestTs };
+  }
+
+  test('changed file in graph narrows the rerun to its affected tests', async () => {
+    const { tmpDir, libTs, mainTestTs, otherTestTs } = setupWithCache();
+    const ctx = createWatchMockContext(tmpDir);
+    await runHook(vitestAffected({ changedFiles: [], cache: true }), ctx.vitest, ctx.project);
+
+    ctx.emitFileEvent('change', libTs);
+    const filter = ctx.getFilterCallback()!;
+
+    expect(filter({ moduleId: mainTestTs })).toBe(true);
+    expect(filter({ moduleId: otherTestTs })).toBe(false);
+  });
+
+  test("the plugin's own writes do not force a pass-through", async () => {
+    const { tmpDir, libTs, mainTestTs, otherTestTs } = setupWithCache();
+    const ctx = createWatchMockContext(tmpDir);
+    const plugin = vitestAffected({ changedFiles: [], cache: true, outputFile: 'affected.json' });
+    await runHook(plugin, ctx.vitest, ctx.project);
+
+    // Written after the previous run: the graph (via a temp file), state and output
+    ctx.emitFileEvent('add', path.join(tmpDir, '.vitest-affected', '.tmp-123-graph.json'));
+    ctx.emitFileEvent('change', path.join(tmpDir, '.vitest-affected', 'graph.json'));
+    ctx.emitFileEvent('change', path.join(tmpDir, '.vitest-affected', 'last-failed.json'));
+    ctx.emitFileEvent('change', path.join(tmpDir, 'affected.json'));
+    ctx.emitFileEvent('change', path.join(tmpDir, 'README.md'));
+    ctx.emitFileEvent('change', libTs);
+    const filter = ctx.getFilterCallback()!;
+
+    expect(filter({ moduleId: mainTestTs })).toBe(true);
+    expect(filter({ moduleId: otherTestTs })).toBe(false);
+  });
+
+  test('changed file unknown to the graph passes everything through', async () => {
+    const { tmpDir, orphanTs, mainTestTs, otherTestTs } = setupWithCache();
+    const ctx = createWatchMockContext(tmpDir);
+    await runHook(vitestAffected({ changedFiles: [], cache: true }), ctx.vitest, ctx.project);
+
+    ctx.emitFileEvent('change', orphanTs);
+    const filter = ctx.getFilterCallback()!;
+
+    expect(filter({ moduleId: mainTestTs })).toBe(true);
+    expect(filter({ moduleId: otherTestTs })).toBe(true);
+  });
+
+  test('pending changes are cleared once the rerun starts', async () => {
+    const { tmpDir, libTs, otherTestTs } = setupWithCache();
+    const ctx = createWatchMockContext(tmpDir);
+    await runHook(vitestAffected({ changedFiles: [], cache: true }), ctx.vitest, ctx.project);
+
+    ctx.emitFileEvent('change', libTs);
+    expect(ctx.getFilterCallback()!({ moduleId: otherTestTs })).toBe(false);
+
+    ctx.emitRerun();
+    // No pending changes → pass-through
+    expect(ctx.getFilterCallback()!({ moduleId: otherTestTs })).toBe(true);
+  });
+
+  test('edges merged by the runtime reporter are used on the next rerun', async () => {
+    const { tmpDir, orphanTs, otherTestTs } = setupWithCache();
+    const ctx = createWatchMockContext(tmpDir);
+    await runHook(vitestAffected({ changedFiles: [], cache: true }), ctx.vitest, ctx.project);
+
+    // The runtime reporter learns that other.test.ts imports orphan.ts
+    const reporter = ctx.vitest.reporters[0] as {
+      onTestModuleEnd: (m: unknown) => void;
+      onTestRunEnd: (m: unknown[], e: unknown[], r: string) => void;
+    };
+    reporter.onTestModuleEnd({
+      moduleId: otherTestTs,
+      diagnostic: () => ({ importDurations: { [orphanTs]: { selfTime: 1, totalTime: 1 } } }),
+    });
+    reporter.onTestRunEnd([], [], 'passed');
+
+    ctx.emitFileEvent('change', orphanTs);
+    const filter = ctx.getFilterCallback()!;
+    expect(filter({ moduleId: otherTestTs })).toBe(true);
+    expect(filter({ moduleId: path.join(tmpDir, 'tests', 'main.test.ts') })).toBe(false);
+  });
+});
@@ -1,8 +1,14 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    // `vitest-affected` command (package.json "bin")
+    bin: 'src/bin.ts',
+    // Loaded by path from the bundle (new URL('./bootstrap-worker.js', import.meta.url))
+    'bootstrap-worker': 'src/graph/bootstrap-worker.ts',
+  },
   format: ['esm'],
-  dts: true,
+  dts: { entry: { index: 'src/index.ts' } },
   clean: true,
 });